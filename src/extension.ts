@@ -5,34 +5,69 @@
 */
 
 import * as vscode from 'vscode';
-import { handleInsert, updateContext, deleteField, insertField, insertSubstructure, insertFieldSubstructure, addDimensionToField } from './rpg-structure.utils';
-import { HeaderTreeDataProvider, StructureItem, FieldsTreeDataProvider, FieldItem, ConfigProvider, ConfigItem } from './rpg-structure.providers';
-import { loadConfiguration, saveConfiguration, currentConfiguration } from './rpg-structure.configuration';
-import { header, fields, COMMANDS, TREE_DATA_PROVIDERS, StructureFormat, StructureType, Field } from './rpg-structure.model';
-import { isPositiveInteger, updateHeaderContext, updateFieldsContext } from './rpg-structure.helper';
+import { handleInsert, handleInsertStructures, generateStructureCode, orderByDependency, reassignIdNumbers, replaceStructureBlock, findWorkspaceSources, updateContext, deleteField, insertField, insertSubstructure, insertFieldSubstructure, addDimensionToField, editField } from './rpg-structure.utils';
+import { StructuresTreeDataProvider, DraftItem, LibraryTreeDataProvider, LibraryStructureItem, HeaderTreeDataProvider, StructureItem, FieldsTreeDataProvider, FieldItem, ConfigProvider, ConfigItem } from './rpg-structure.providers';
+import { loadConfiguration, reloadConfiguration, saveConfiguration, affectsConfiguration, currentConfiguration, SETTINGS_QUERY } from './rpg-structure.configuration';
+import { header, fields, Header, sourceReference, setSourceReference, drafts, activeDraft, StructureDraft, activateDraft, createDraft, closeDraft, getStructureState, setStructureState, cloneHeader, cloneFields, StructureState, COMMANDS, VIEW_CONTAINER, DDS_EXTENSIONS, EXTNAME_USAGES, STRUCTURE_KEYWORDS, TREE_DATA_PROVIDERS, StructureFormat, StructureType, CommentStyle, DiagnosticCheck, DiagnosticLevel, Field, DataTypeDefinition, LengthSyntax, InitRule, ByteSizeFormula } from './rpg-structure.model';
+import { isPositiveInteger, isHeaderValid, isExternallyDescribed, getKeywordName, findKeywordConflict, updateHeaderContext, updateFieldsContext, updateSourceContext } from './rpg-structure.helper';
 import { RpgStructureParser, ParsedStructure } from './rpg-structure.parser';
+import { findDdsReferences, parseDdsSource } from './rpg-structure.dds';
+import { trackChanges, undo, redo, clearHistory, updateHistoryContext } from './rpg-structure.history';
+import { restoreStructures, saveStructures } from './rpg-structure.persistence';
+import { initializeLibrary, saveToLibrary, deleteFromLibrary, getLibraryFileUri, fileExists, LibraryLocation, WORKSPACE_LIBRARY_PATTERN } from './rpg-structure.library';
+import { CATALOG_ENTRIES } from './rpg-structure.catalog';
+import { indexWorkspaceReferences, indexDocument } from './rpg-structure.references';
+import { generateCreateTable, parseCreateStatement, sqlColumnsToFields, countNullCapableColumns, findCreateStatementAt, SqlIndicatorType } from './rpg-structure.sql';
+import { setupDiagnostics, checkOpenDocuments } from './rpg-structure.diagnostics';
+import { setupCodeActions } from './rpg-structure.actions';
 
 /**
  * Main function that activates the extension
  * @param context - VS Code extension context
  */
-export function activate(context: vscode.ExtensionContext): void {
+export async function activate(context: vscode.ExtensionContext): Promise<void> {
     try {
-        // Load configuration
-        loadConfiguration(context);
+        // Load configuration, once the settings of earlier versions are migrated
+        await loadConfiguration(context);
+        
+        // Restore the structures of the previous session
+        restoreStructures(context);
+        
+        // Locate the personal structure library
+        initializeLibrary(context);
         
         // Initialize providers
-        const { provider, fieldsProvider, configProvider } = initializeProviders();
+        const { structuresProvider, provider, fieldsProvider, configProvider, libraryProvider } = initializeProviders();
+        
+        // The header view is refreshed on every change of the header or the fields
+        context.subscriptions.push(provider.onDidChangeTreeData(() => saveStructures(context)));
         
         // Setup editor listeners
         setupEditorListeners();
         
         // Register all commands
-        registerCommands(context, provider, fieldsProvider, configProvider);
+        registerCommands(context, structuresProvider, provider, fieldsProvider, configProvider, libraryProvider);
+        
+        // Follow changes made in the settings
+        setupConfigurationListeners(context, fieldsProvider, configProvider);
+        
+        // Follow changes of the workspace library files
+        setupLibraryListeners(context, libraryProvider);
+        
+        // Index the declarations that likeds, like and likerec fields refer to
+        setupReferenceListeners(context, fieldsProvider);
+        
+        // Check the structures of the open RPG documents
+        setupDiagnostics(context);
+        
+        // Offer fixes and rewrites of the structures in the RPG documents
+        setupCodeActions(context);
         
         // Initialize contexts
         updateHeaderContext();
         updateFieldsContext();
+        updateSourceContext();
+        updateHistoryContext();
         
     } catch (error) {
         console.error('Failed to activate RPG Structure extension:', error);
@@ -52,20 +87,36 @@ export function deactivate(): void {
  * @returns Object containing all tree data providers
  */
 function initializeProviders(): {
+    structuresProvider: StructuresTreeDataProvider;
     provider: HeaderTreeDataProvider;
     fieldsProvider: FieldsTreeDataProvider;
     configProvider: ConfigProvider;
+    libraryProvider: LibraryTreeDataProvider;
 } {
+    const structuresProvider = new StructuresTreeDataProvider();
     const provider = new HeaderTreeDataProvider();
     const fieldsProvider = new FieldsTreeDataProvider();
     const configProvider = new ConfigProvider();
+    const libraryProvider = new LibraryTreeDataProvider();
     
     // Register tree data providers
+    vscode.window.registerTreeDataProvider(TREE_DATA_PROVIDERS.STRUCTURES, structuresProvider);
     vscode.window.registerTreeDataProvider(TREE_DATA_PROVIDERS.HEADER, provider);
-    vscode.window.registerTreeDataProvider(TREE_DATA_PROVIDERS.FIELDS, fieldsProvider);
+    vscode.window.createTreeView(TREE_DATA_PROVIDERS.FIELDS, {
+        treeDataProvider: fieldsProvider,
+        dragAndDropController: fieldsProvider,
+        canSelectMany: true
+    });
     vscode.window.registerTreeDataProvider(TREE_DATA_PROVIDERS.CONFIGURATION, configProvider);
+    vscode.window.registerTreeDataProvider(TREE_DATA_PROVIDERS.LIBRARY, libraryProvider);
+    
+    // The header shows the total length, which depends on the fields
+    fieldsProvider.onDidChangeTreeData(() => provider.refresh());
     
-    return { provider, fieldsProvider, configProvider };
+    // The structures list shows the name, type and number of fields of every draft
+    provider.onDidChangeTreeData(() => structuresProvider.refresh());
+    
+    return { structuresProvider, provider, fieldsProvider, configProvider, libraryProvider };
 };
 
 /**
@@ -82,76 +133,249 @@ function setupEditorListeners(): void {
     // TODO: The disposable should be added to context.subscriptions in the activate function
 };
 
+/**
+ * Sets up configuration listeners, so the views follow changes made in the settings
+ * @param context - VS Code extension context
+ * @param fieldsProvider - Fields tree data provider
+ * @param configProvider - Configuration tree data provider
+ */
+function setupConfigurationListeners(
+    context: vscode.ExtensionContext,
+    fieldsProvider: FieldsTreeDataProvider,
+    configProvider: ConfigProvider
+): void {
+    const refresh = (): void => {
+        reloadConfiguration();
+        configProvider.refresh();
+        // Data types change the byte positions of the fields
+        fieldsProvider.refresh();
+        // Data types and severities change the diagnostics of the open documents
+        checkOpenDocuments();
+    };
+    
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration((event: vscode.ConfigurationChangeEvent) => {
+            if (affectsConfiguration(event)) {
+                refresh();
+            };
+        }),
+        
+        // Folder settings may differ between the folders of a multi-root workspace
+        vscode.window.onDidChangeActiveTextEditor(() => {
+            if ((vscode.workspace.workspaceFolders?.length ?? 0) > 1) {
+                refresh();
+            };
+        })
+    );
+};
+
+/**
+ * Sets up the listeners that refresh the library view when library files
+ * are added, changed or removed in the workspace
+ * @param context - VS Code extension context
+ * @param libraryProvider - Structure library tree data provider
+ */
+function setupLibraryListeners(context: vscode.ExtensionContext, libraryProvider: LibraryTreeDataProvider): void {
+    const watcher = vscode.workspace.createFileSystemWatcher(`**/${WORKSPACE_LIBRARY_PATTERN}`);
+    
+    context.subscriptions.push(
+        watcher,
+        watcher.onDidCreate(() => libraryProvider.refresh()),
+        watcher.onDidChange(() => libraryProvider.refresh()),
+        watcher.onDidDelete(() => libraryProvider.refresh()),
+        vscode.workspace.onDidChangeWorkspaceFolders(() => libraryProvider.refresh())
+    );
+};
+
+/**
+ * Indexes the structures, standalone fields and record formats of the workspace,
+ * and indexes the RPG and DDS documents again when they are opened or saved
+ * @param context - VS Code extension context
+ * @param fieldsProvider - Fields tree data provider
+ */
+function setupReferenceListeners(context: vscode.ExtensionContext, fieldsProvider: FieldsTreeDataProvider): void {
+    indexWorkspaceReferences()
+        .then(() => fieldsProvider.refresh())
+        .catch(error => console.error('Failed to index the workspace sources:', error));
+
+    const reindex = (document: vscode.TextDocument): void => {
+        if (indexDocument(document)) {
+            fieldsProvider.refresh();
+        };
+    };
+
+    context.subscriptions.push(
+        vscode.workspace.onDidOpenTextDocument(reindex),
+        vscode.workspace.onDidSaveTextDocument(reindex)
+    );
+};
+
 /**
  * Registers all extension commands
  * @param context - VS Code extension context
+ * @param structuresProvider - Structure drafts tree data provider
  * @param provider - Header tree data provider
  * @param fieldsProvider - Fields tree data provider
  * @param configProvider - Configuration tree data provider
+ * @param libraryProvider - Structure library tree data provider
  */
 function registerCommands(
     context: vscode.ExtensionContext,
+    structuresProvider: StructuresTreeDataProvider,
     provider: HeaderTreeDataProvider,
     fieldsProvider: FieldsTreeDataProvider,
-    configProvider: ConfigProvider
+    configProvider: ConfigProvider,
+    libraryProvider: LibraryTreeDataProvider
 ): void {
     const commands = [
+        // Structure draft commands
+        vscode.commands.registerCommand(COMMANDS.NEW_STRUCTURE, () => {
+            showDraft(createDraft(), provider, fieldsProvider);
+        }),
+
+        vscode.commands.registerCommand(COMMANDS.SELECT_STRUCTURE, (item: DraftItem) => {
+            if (drafts.includes(item.draft)) {
+                showDraft(item.draft, provider, fieldsProvider);
+            };
+        }),
+
+        vscode.commands.registerCommand(COMMANDS.RENAME_STRUCTURE, async (item: DraftItem) => {
+            await trackChanges(() => renameDraft(item.draft), item.draft);
+            provider.refresh();
+            updateHeaderContext();
+        }),
+
+        vscode.commands.registerCommand(COMMANDS.DUPLICATE_STRUCTURE, (item: DraftItem) => {
+            showDraft(duplicateDraft(item.draft), provider, fieldsProvider);
+        }),
+
+        vscode.commands.registerCommand(COMMANDS.CLOSE_STRUCTURE, async (item: DraftItem) => {
+            await closeStructureDraft(item.draft, structuresProvider, provider, fieldsProvider);
+        }),
+
+        // Library commands
+        vscode.commands.registerCommand(COMMANDS.SAVE_TO_LIBRARY, async () => {
+            await saveStructureToLibrary(libraryProvider);
+        }),
+
+        vscode.commands.registerCommand(COMMANDS.REFRESH_LIBRARY, () => {
+            libraryProvider.refresh();
+        }),
+
+        vscode.commands.registerCommand(COMMANDS.PREVIEW_LIBRARY_STRUCTURE, async (item: LibraryStructureItem) => {
+            await previewLibraryStructure(item);
+        }),
+
+        vscode.commands.registerCommand(COMMANDS.LOAD_FROM_LIBRARY, async (item: LibraryStructureItem) => {
+            await loadLibraryStructure(item, provider, fieldsProvider);
+        }),
+
+        vscode.commands.registerCommand(COMMANDS.INSERT_FROM_LIBRARY, (item: LibraryStructureItem) => {
+            insertLibraryStructure(item);
+        }),
+
+        vscode.commands.registerCommand(COMMANDS.DELETE_FROM_LIBRARY, async (item: LibraryStructureItem) => {
+            await deleteLibraryStructure(item, libraryProvider);
+        }),
+
+        vscode.commands.registerCommand(COMMANDS.INSERT_SYSTEM_STRUCTURE, async () => {
+            await insertSystemStructure(provider, fieldsProvider);
+        }),
+
         // Structure data commands
         vscode.commands.registerCommand(COMMANDS.ITEM_CLICK, async (item: StructureItem) => {
-            await handleStructureItemClick(item, provider);
+            await trackChanges(() => handleStructureItemClick(item, provider));
         }),
         
         // Field management commands
         vscode.commands.registerCommand(COMMANDS.ADD_FIELD, async () => {
-            insertField(false, fields.length, fieldsProvider);
+            await trackChanges(() => insertField(false, fields.length, fieldsProvider));
             updateFieldsContext();
         }),
         
         vscode.commands.registerCommand(COMMANDS.ADD_SUBSTRUCTURE, async () => {
-            insertSubstructure(fieldsProvider);
+            await trackChanges(() => insertSubstructure(fieldsProvider));
             updateFieldsContext();
         }),
         
-        vscode.commands.registerCommand(COMMANDS.ADD_FIELD_TO_SUBSTRUCTURE, (item: FieldItem) => {
-            insertFieldSubstructure(item.idNumber, fieldsProvider);
+        vscode.commands.registerCommand(COMMANDS.ADD_FIELD_TO_SUBSTRUCTURE, async (item: FieldItem) => {
+            await trackChanges(() => insertFieldSubstructure(item.idNumber, fieldsProvider));
             updateFieldsContext();
         }),
         
-        vscode.commands.registerCommand(COMMANDS.DELETE_FIELD, (item: FieldItem) => {
-            deleteField(item, fieldsProvider);
+        vscode.commands.registerCommand(COMMANDS.DELETE_FIELD, async (item: FieldItem) => {
+            await trackChanges(() => deleteField(item, fieldsProvider));
             updateFieldsContext();
         }),
         
         // Cleanup commands
-        vscode.commands.registerCommand(COMMANDS.CLEAN_HEADER, () => {
-            cleanHeader(provider);
+        vscode.commands.registerCommand(COMMANDS.CLEAN_HEADER, async () => {
+            await trackChanges(() => cleanHeader(provider));
         }),
         
-        vscode.commands.registerCommand(COMMANDS.CLEAN_FIELDS, () => {
-            cleanFields(fieldsProvider);
+        vscode.commands.registerCommand(COMMANDS.CLEAN_FIELDS, async () => {
+            await trackChanges(() => cleanFields(fieldsProvider));
+        }),
+
+        // History commands
+        vscode.commands.registerCommand(COMMANDS.UNDO, () => {
+            if (undo()) {
+                refreshStructure(provider, fieldsProvider);
+            };
+        }),
+
+        vscode.commands.registerCommand(COMMANDS.REDO, () => {
+            if (redo()) {
+                refreshStructure(provider, fieldsProvider);
+            };
         }),
         
         // Generation command
-        vscode.commands.registerCommand(COMMANDS.GENERATE, () => {
-            generateStructure();
+        vscode.commands.registerCommand(COMMANDS.GENERATE, async () => {
+            await generateStructure();
+        }),
+
+        vscode.commands.registerCommand(COMMANDS.UPDATE_IN_SOURCE, async () => {
+            await updateStructureInSource();
+        }),
+
+        vscode.commands.registerCommand(COMMANDS.GENERATE_SQL_TABLE, async () => {
+            await generateSqlTable();
         }),
         
         // Configuration commands
         vscode.commands.registerCommand(COMMANDS.CONFIG_ITEM_CLICK, async (item: ConfigItem) => {
-            await handleConfigurationItemClick(item, context, configProvider);
+            await handleConfigurationItemClick(item, configProvider);
+        }),
+
+        vscode.commands.registerCommand(COMMANDS.OPEN_SETTINGS, async () => {
+            await vscode.commands.executeCommand('workbench.action.openSettings', SETTINGS_QUERY);
         }),
 
         // Import commands
-        vscode.commands.registerCommand(COMMANDS.IMPORT_FROM_CURSOR, async () => {
-            await importStructureAtCursor(provider, fieldsProvider);
+        vscode.commands.registerCommand(COMMANDS.IMPORT_FROM_CURSOR, async (line?: unknown) => {
+            // Code actions pass the line of the structure, menus pass the URI of the document
+            await trackChanges(() => importStructureAtCursor(provider, fieldsProvider, typeof line === 'number' ? line : undefined));
         }),
         
         vscode.commands.registerCommand(COMMANDS.IMPORT_FROM_LIST, async () => {
-            await importFromStructureList(provider, fieldsProvider);
+            await trackChanges(() => importFromStructureList(provider, fieldsProvider));
+        }),
+
+        vscode.commands.registerCommand(COMMANDS.IMPORT_FROM_SQL, async () => {
+            await trackChanges(() => importFromSql(provider, fieldsProvider));
+        }),
+
+        vscode.commands.registerCommand(COMMANDS.IMPORT_FROM_DDS, async () => {
+            await trackChanges(() => importFromDds(provider, fieldsProvider));
         }),
 
         vscode.commands.registerCommand(COMMANDS.ADD_DIMENSION, async(item: Field) => {
-            await addDimensionToField(item.idNumber , fieldsProvider);
+            await trackChanges(() => addDimensionToField(item.idNumber , fieldsProvider));
+        }),
+
+        vscode.commands.registerCommand(COMMANDS.EDIT_FIELD, async (item: FieldItem) => {
+            await trackChanges(() => editField(item.idNumber, fieldsProvider));
         })
     ];
     
@@ -174,6 +398,15 @@ async function handleStructureItemClick(item: StructureItem, provider: HeaderTre
         case 'type':
             await handleTypeInput(item, provider);
             break;
+        case 'comment':
+            await handleCommentInput(item, provider);
+            break;
+        case 'external':
+            await handleExternalInput(provider);
+            break;
+        case 'keywords':
+            await handleKeywordsInput(provider);
+            break;
         default:
             console.warn(`Unknown structure item id: ${item.id}`);
     };
@@ -264,7 +497,7 @@ async function handleDimensionInput(item: StructureItem, provider: HeaderTreeDat
  * @param provider - The header tree data provider
  */
 async function handleTypeInput(item: StructureItem, provider: HeaderTreeDataProvider): Promise<void> {
-    const structureTypes: StructureType[] = ['Default', 'template', '*var', '*auto'];
+    const structureTypes: StructureType[] = ['Default', 'template', '*var', '*auto', 'extname', 'likerec'];
     
     const inputType = await vscode.window.showQuickPick(structureTypes, {
         placeHolder: 'Select type for the structure'
@@ -274,6 +507,15 @@ async function handleTypeInput(item: StructureItem, provider: HeaderTreeDataProv
         return; // User cancelled
     };
     
+    // Externally described structures need their file or record format
+    if (inputType === 'extname' || inputType === 'likerec') {
+        if (!await promptExternal(inputType)) {
+            return; // User cancelled
+        };
+    } else {
+        header.external = undefined;
+    };
+    
     header.type = inputType;
     item.label = `TYPE: ${header.type}`;
     
@@ -285,37 +527,272 @@ async function handleTypeInput(item: StructureItem, provider: HeaderTreeDataProv
     provider.refresh();
 };
 
+/**
+ * Handles the file or record format input of an externally described structure
+ * @param provider - The header tree data provider
+ */
+async function handleExternalInput(provider: HeaderTreeDataProvider): Promise<void> {
+    if (!isExternallyDescribed()) {
+        return;
+    };
+    
+    if (await promptExternal(header.type as 'extname' | 'likerec')) {
+        provider.refresh();
+    };
+};
+
+/**
+ * Prompts for the file of an extname structure, or the record format of a likerec structure,
+ * with the fields it uses. extname structures can also rename the fields with prefix and alias.
+ * @param type - extname or likerec
+ * @returns True if the header was updated, false if the user cancelled
+ */
+async function promptExternal(type: 'extname' | 'likerec'): Promise<boolean> {
+    const [currentName, currentUsage] = (header.external ?? '').split(':');
+    
+    const name = await vscode.window.showInputBox({
+        prompt: type === 'extname' ? 'File the subfields come from' : 'Record format the subfields come from',
+        placeHolder: type === 'extname' ? 'e.g. CUSTMAST or MYLIB/CUSTMAST' : 'e.g. CUSTREC',
+        value: currentName ?? '',
+        validateInput: (value: string) => {
+            return /^([a-zA-Z_@#$][a-zA-Z0-9_@#$.]*\/)?[a-zA-Z_@#$][a-zA-Z0-9_@#$.]*$/.test(value.trim())
+                ? null
+                : 'Enter a file or record format name';
+        }
+    });
+    if (name === undefined) {
+        return false;
+    };
+    
+    const usage = await vscode.window.showQuickPick(
+        EXTNAME_USAGES.map(value => ({
+            label: value,
+            description: value === '*ALL' ? 'All fields (default)' : value === '*KEY' ? 'Key fields' : `${value.slice(1).toLowerCase()} fields`,
+            picked: value === currentUsage
+        })),
+        { placeHolder: type === 'extname' ? 'Fields of the file used by the structure' : 'Fields of the record format used by the structure' }
+    );
+    if (!usage) {
+        return false;
+    };
+    
+    const external = type === 'extname' ? name.trim().toUpperCase() : name.trim();
+    header.external = usage.label === '*ALL' ? external : `${external}:${usage.label}`;
+    
+    if (type === 'extname') {
+        const currentPrefix = header.keywords?.find(keyword => /^prefix\s*\(/i.test(keyword))?.replace(/^prefix\s*\((.*)\)$/i, '$1');
+        const prefix = await vscode.window.showInputBox({
+            prompt: 'Prefix of the field names (optional)',
+            placeHolder: 'e.g. cm_, or cm_:2 to replace the first 2 characters',
+            value: currentPrefix ?? '',
+            validateInput: (value: string) => {
+                return !value.trim() || /^'?[a-zA-Z_@#$][a-zA-Z0-9_@#$.]*'?(\s*:\s*\d+)?$/.test(value.trim())
+                    ? null
+                    : 'Enter a prefix, optionally followed by :number of replaced characters';
+            }
+        });
+        if (prefix !== undefined) {
+            setHeaderKeyword('prefix', prefix.trim() ? `prefix(${prefix.trim()})` : undefined);
+        };
+        
+        const alias = await vscode.window.showQuickPick(['No', 'Yes'], {
+            placeHolder: 'Use the alternative (alias) names of the fields?'
+        });
+        if (alias) {
+            setHeaderKeyword('alias', alias === 'Yes' ? 'alias' : undefined);
+        };
+    };
+    
+    return true;
+};
+
+/**
+ * Handles the keyword selection of the structure: qualified, the keywords of STRUCTURE_KEYWORDS
+ * and extname, which switches the structure to an externally described one.
+ * @param provider - The header tree data provider
+ */
+async function handleKeywordsInput(provider: HeaderTreeDataProvider): Promise<void> {
+    const isLikerec = header.type === 'likerec';
+    const isExtname = header.type === 'extname';
+    const currentKeywords = header.keywords ?? [];
+    const findCurrent = (keyword: string): string | undefined => currentKeywords.find(existing => getKeywordName(existing) === keyword);
+    
+    // prefix and alias only apply to the fields of a file, likerec structures are always qualified
+    const available = STRUCTURE_KEYWORDS.filter(definition => isExtname || (definition.keyword !== 'prefix' && definition.keyword !== 'alias'));
+    const items: vscode.QuickPickItem[] = [
+        ...(isLikerec ? [] : [{ label: 'qualified', description: 'Subfields are referenced as structure.subfield', picked: !header.unqualified }]),
+        ...available.map(definition => ({
+            label: definition.keyword,
+            description: findCurrent(definition.keyword) ?? definition.description,
+            picked: findCurrent(definition.keyword) !== undefined
+        })),
+        ...(isLikerec ? [] : [{ label: 'extname', description: 'Subfields from the fields of a file', picked: isExtname }])
+    ];
+    
+    const selected = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        placeHolder: 'Select the keywords of the structure'
+    });
+    if (!selected) {
+        return; // User cancelled
+    };
+    const selectedLabels = selected.map(item => item.label);
+    
+    // Prompt the parameters, starting from the current values
+    const keywords: string[] = [];
+    for (const definition of available.filter(definition => selectedLabels.includes(definition.keyword))) {
+        if (!definition.parameter) {
+            keywords.push(definition.keyword);
+            continue;
+        };
+        
+        const currentParameter = findCurrent(definition.keyword)?.match(/\((.*)\)\s*$/)?.[1] ?? '';
+        const parameter = await vscode.window.showInputBox({
+            prompt: definition.parameter === 'required'
+                ? `Parameter of ${definition.keyword}`
+                : `Parameter of ${definition.keyword} (optional)`,
+            placeHolder: definition.placeHolder,
+            value: currentParameter,
+            validateInput: (value: string) => {
+                if (definition.parameter === 'required' && !value.trim()) {
+                    return `${definition.keyword} requires a parameter`;
+                };
+                if (definition.keyword === 'len' && !isPositiveInteger(value.trim())) {
+                    return 'Length must be a positive integer';
+                };
+                return null;
+            }
+        });
+        if (parameter === undefined) {
+            return; // User cancelled
+        };
+        keywords.push(parameter.trim() ? `${definition.keyword}(${parameter.trim()})` : definition.keyword);
+    };
+    
+    // ext uses the file named like the structure, it is kept while the structure stays externally described
+    const ext = findCurrent('ext');
+    if (ext && isExtname && selectedLabels.includes('extname')) {
+        keywords.push(ext);
+    };
+    
+    const conflict = findKeywordConflict(keywords);
+    if (conflict) {
+        vscode.window.showErrorMessage(`Invalid keywords: ${conflict}.`);
+        return;
+    };
+    
+    const previousKeywords = header.keywords;
+    header.keywords = keywords.length > 0 ? keywords : undefined;
+    
+    // Selecting extname switches the type, unselecting it goes back to a default structure
+    const extname = selectedLabels.includes('extname');
+    if (extname && !isExtname) {
+        if (!await promptExternal('extname')) {
+            header.keywords = previousKeywords;
+            return; // User cancelled
+        };
+        header.type = 'extname';
+    } else if (!extname && isExtname) {
+        header.type = 'Default';
+        header.external = undefined;
+    };
+    
+    header.unqualified = !isLikerec && !selectedLabels.includes('qualified') ? true : undefined;
+    provider.refresh();
+};
+
+/**
+ * Adds, replaces or removes an additional keyword of the structure
+ * @param keyword - Keyword name, in lowercase
+ * @param value - Keyword with its parameter, or undefined to remove it
+ */
+function setHeaderKeyword(keyword: string, value: string | undefined): void {
+    const keywords = (header.keywords ?? []).filter(existing => existing.split('(')[0].trim().toLowerCase() !== keyword);
+    if (value) {
+        keywords.push(value);
+    };
+    header.keywords = keywords.length > 0 ? keywords : undefined;
+};
+
+/**
+ * Handles comment input for the structure
+ * @param item - The structure item
+ * @param provider - The header tree data provider
+ */
+async function handleCommentInput(item: StructureItem, provider: HeaderTreeDataProvider): Promise<void> {
+    const inputComment = await vscode.window.showInputBox({
+        prompt: 'Enter a comment for the structure (leave empty to remove it)',
+        placeHolder: 'e.g. Customer information',
+        value: header.comment ?? ''
+    });
+    
+    if (inputComment === undefined) {
+        return; // User cancelled
+    };
+    
+    header.comment = inputComment.trim() || undefined;
+    item.label = `COMMENT: ${header.comment || '(None)'}`;
+    provider.refresh();
+};
+
 /**
  * Handles configuration item click events
  * @param item - The configuration item that was clicked
- * @param context - VS Code extension context
  * @param configProvider - The configuration tree data provider
  */
 async function handleConfigurationItemClick(
     item: ConfigItem, 
-    context: vscode.ExtensionContext, 
     configProvider: ConfigProvider
 ): Promise<void> {
+    try {
+        await handleConfigurationItem(item);
+    } catch (error) {
+        console.error('Error saving configuration:', error);
+        vscode.window.showErrorMessage(`Failed to save the RPG Structure settings: ${error instanceof Error ? error.message : String(error)}`);
+        // The settings were not written, so show what they still hold
+        reloadConfiguration();
+    };
+    
+    configProvider.refresh();
+};
+
+/**
+ * Runs the editor of a configuration item
+ * @param item - The configuration item that was clicked
+ */
+async function handleConfigurationItem(item: ConfigItem): Promise<void> {
     switch (item.id) {
         case 'structureFormat':
-            await handleStructureFormatConfig(context);
+            await handleStructureFormatConfig();
             break;
         case 'structureIndentation':
-            await handleIndentationConfig(context);
+            await handleIndentationConfig();
+            break;
+        case 'sqlPrefixSubfields':
+            await handleSqlPrefixConfig();
+            break;
+        case 'sqlIndicatorType':
+            await handleSqlIndicatorConfig();
+            break;
+        case 'commentStyle':
+            await handleCommentStyleConfig();
+            break;
+        case 'dataTypes':
+            await handleDataTypesConfig();
+            break;
+        case 'diagnostics':
+            await handleDiagnosticsConfig();
             break;
         default:
             console.warn(`Unknown configuration item id: ${item.id}`);
     };
-    
-    configProvider.refresh();
 };
 
 /**
  * Handles structure format configuration
- * @param context - VS Code extension context
  */
-async function handleStructureFormatConfig(context: vscode.ExtensionContext): Promise<void> {
-    const formatOptions: StructureFormat[] = ['Dcl-ds', 'DCL-DS', 'dcl-ds'];
+async function handleStructureFormatConfig(): Promise<void> {
+    const formatOptions: StructureFormat[] = ['Dcl-ds', 'DCL-DS', 'dcl-ds', 'D-SPEC'];
     
     const format = await vscode.window.showQuickPick(formatOptions, {
         placeHolder: 'Select structure format'
@@ -323,15 +800,14 @@ async function handleStructureFormatConfig(context: vscode.ExtensionContext): Pr
     
     if (format) {
         currentConfiguration.structureFormat = format;
-        saveConfiguration(context, currentConfiguration);
+        await saveConfiguration(currentConfiguration);
     };
 };
 
 /**
  * Handles indentation configuration
- * @param context - VS Code extension context
  */
-async function handleIndentationConfig(context: vscode.ExtensionContext): Promise<void> {
+async function handleIndentationConfig(): Promise<void> {
     const indentation = await vscode.window.showInputBox({
         placeHolder: 'Enter number of spaces for indentation (1–10)',
         prompt: 'Choose how many spaces to use for indentation',
@@ -349,79 +825,862 @@ async function handleIndentationConfig(context: vscode.ExtensionContext): Promis
     
     if (indentation) {
         currentConfiguration.indentation = Number(indentation);
-        saveConfiguration(context, currentConfiguration);
+        await saveConfiguration(currentConfiguration);
     };
 };
 
 /**
- * Cleans the header structure and refreshes the UI
- * @param provider - The header tree data provider
+ * Handles SQL subfield prefix configuration
  */
-function cleanHeader(provider: HeaderTreeDataProvider): void {
-    header.name = '';
-    header.type = '';
-    header.dimension = '0';
+async function handleSqlPrefixConfig(): Promise<void> {
+    const prefix = await vscode.window.showQuickPick(['Yes', 'No'], {
+        placeHolder: 'Prefix substructure subfields with the substructure name in SQL tables?'
+    });
     
-    provider.refresh();
-    updateHeaderContext();
+    if (prefix) {
+        currentConfiguration.sqlPrefixSubfields = prefix === 'Yes';
+        await saveConfiguration(currentConfiguration);
+    };
 };
 
 /**
- * Cleans all fields and refreshes the UI
- * @param fieldsProvider - The fields tree data provider
+ * Handles SQL indicator type configuration
  */
-function cleanFields(fieldsProvider: FieldsTreeDataProvider): void {
-    fields.length = 0;
-    fieldsProvider.refresh();
-    updateFieldsContext();
+async function handleSqlIndicatorConfig(): Promise<void> {
+    const indicatorTypes: SqlIndicatorType[] = ['CHAR(1)', 'BOOLEAN'];
+    
+    const indicatorType = await vscode.window.showQuickPick(indicatorTypes, {
+        placeHolder: 'Select the SQL type for indicator fields'
+    });
+    
+    if (indicatorType) {
+        currentConfiguration.sqlIndicatorType = indicatorType;
+        await saveConfiguration(currentConfiguration);
+    };
 };
 
 /**
- * Generates the RPG structure code at the current cursor position
+ * Handles comment style configuration
  */
-function generateStructure(): void {
-    const editor = vscode.window.activeTextEditor;
+async function handleCommentStyleConfig(): Promise<void> {
+    const commentStyles: CommentStyle[] = ['trailing', 'leading'];
     
-    if (!editor) {
-        vscode.window.showErrorMessage('No active editor found. Please open a file first.');
-        return;
+    const commentStyle = await vscode.window.showQuickPick(commentStyles, {
+        placeHolder: 'Select how comments are generated'
+    });
+    
+    if (commentStyle) {
+        currentConfiguration.commentStyle = commentStyle;
+        await saveConfiguration(currentConfiguration);
     };
+};
+
+/**
+ * Handles the severity of the checks of the structures in open documents
+ */
+async function handleDiagnosticsConfig(): Promise<void> {
+    const checks: { check: DiagnosticCheck; description: string }[] = [
+        { check: 'duplicateName', description: 'Subfields with the same name at the same level' },
+        { check: 'templateDimension', description: 'dim on a template' },
+        { check: 'decimalPositions', description: 'Decimal positions not smaller than the digits' },
+        { check: 'initLength', description: 'Character init value longer than the field' },
+        { check: 'unmatchedEndDs', description: 'end-ds without a matching dcl-ds' },
+        { check: 'unparsedLine', description: 'Lines not recognized as subfields' },
+        { check: 'nameLength', description: 'Names longer than RPG allows' }
+    ];
+    const diagnostics = { ...currentConfiguration.diagnostics! };
     
-    const insertPosition = editor.selection.active;
+    const selected = await vscode.window.showQuickPick(
+        checks.map(({ check, description }) => ({ label: check, description: diagnostics[check], detail: description })),
+        { placeHolder: 'Select the check to change' }
+    );
+    if (!selected) {
+        return; // User cancelled
+    };
     
-    try {
-        handleInsert(editor, insertPosition, header.name, header.type, header.dimension, fields);
-    } catch (error) {
-        console.error('Error generating structure:', error);
-        vscode.window.showErrorMessage('Failed to generate RPG structure. Please try again.');
+    const levels: DiagnosticLevel[] = ['error', 'warning', 'information', 'hint', 'off'];
+    const level = await vscode.window.showQuickPick(levels, {
+        placeHolder: `Severity of ${selected.label} (currently ${selected.description})`
+    });
+    if (!level) {
+        return; // User cancelled
     };
+    
+    diagnostics[selected.label as DiagnosticCheck] = level as DiagnosticLevel;
+    currentConfiguration.diagnostics = diagnostics;
+    await saveConfiguration(currentConfiguration);
 };
 
 /**
- * Imports RPG structure at cursor position
- * @param provider - Header tree data provider
- * @param fieldsProvider - Fields tree data provider
+ * Handles the user-defined data types: adds a new type or alias, or removes an existing one
  */
-async function importStructureAtCursor(
-    provider: HeaderTreeDataProvider, 
-    fieldsProvider: FieldsTreeDataProvider
-): Promise<void> {
-    const editor = vscode.window.activeTextEditor;
-    if (!editor) {
-        vscode.window.showErrorMessage('No active editor found');
+async function handleDataTypesConfig(): Promise<void> {
+    const customTypes = currentConfiguration.dataTypes ?? [];
+    const addLabel = '$(add) Add data type';
+    
+    const selected = await vscode.window.showQuickPick(
+        [
+            { label: addLabel, description: 'New type, alias or override of a built-in type' },
+            ...customTypes.map(type => ({ label: type.name, description: type.keyword, detail: 'Remove this data type' }))
+        ],
+        { placeHolder: 'Manage user-defined data types' }
+    );
+    
+    if (!selected) {
+        return; // User cancelled
+    };
+    
+    if (selected.label !== addLabel) {
+        const confirm = await vscode.window.showWarningMessage(
+            `Remove data type "${selected.label}"?`, { modal: true }, 'Remove'
+        );
+        if (confirm === 'Remove') {
+            currentConfiguration.dataTypes = customTypes.filter(type => type.name !== selected.label);
+            await saveConfiguration(currentConfiguration);
+        };
         return;
-    }
-
-    const document = editor.document;
-    const position = editor.selection.active;
-    const content = document.getText();
+    };
     
-    try {
-        const parsed = RpgStructureParser.parseStructureAtCursor(content, position.line);
-        
-        if (!parsed.success) {
-            vscode.window.showErrorMessage(`Import failed: ${parsed.errors.join(', ')}`);
-            return;
+    const dataType = await promptDataType();
+    if (!dataType) {
+        return; // User cancelled
+    };
+    
+    currentConfiguration.dataTypes = [
+        ...customTypes.filter(type => type.name.toLowerCase() !== dataType.name.toLowerCase()),
+        dataType
+    ];
+    await saveConfiguration(currentConfiguration);
+    vscode.window.showInformationMessage(`Data type "${dataType.name}" saved.`);
+};
+
+/**
+ * Prompts for the definition of a data type.
+ * Keywords with a parameter, such as like(custno_t), define aliases that take no length.
+ * @returns The data type definition, or undefined if the user cancelled
+ */
+async function promptDataType(): Promise<DataTypeDefinition | undefined> {
+    const name = await vscode.window.showInputBox({
+        prompt: 'Data type name (a built-in name overrides the built-in type)',
+        placeHolder: 'e.g. custno',
+        validateInput: (value: string) => /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(value.trim())
+            ? null
+            : 'The name must start with a letter or underscore and contain only letters, digits or underscores'
+    });
+    if (!name) {
+        return undefined;
+    };
+    
+    const keyword = await vscode.window.showInputBox({
+        prompt: 'Free-form keyword, in lowercase',
+        placeHolder: 'e.g. char or like(custno_t)',
+        value: name.trim().toLowerCase(),
+        validateInput: (value: string) => /^[a-zA-Z][a-zA-Z0-9-]*(\(.+\))?$/.test(value.trim())
+            ? null
+            : 'Enter a keyword, optionally followed by a parameter in parentheses'
+    });
+    if (!keyword) {
+        return undefined;
+    };
+    
+    const dataType: DataTypeDefinition = {
+        name: name.trim(),
+        keyword: keyword.trim(),
+        lengthRequired: false,
+        lengthSyntax: 'none',
+        initRule: 'any'
+    };
+    
+    // Aliases only need their size, to keep the byte layout known
+    if (keyword.includes('(')) {
+        const size = await vscode.window.showInputBox({
+            prompt: 'Size in bytes (optional)',
+            placeHolder: 'e.g. 10',
+            validateInput: (value: string) => !value.trim() || isPositiveInteger(value.trim()) ? null : 'Size must be a positive integer'
+        });
+        if (size === undefined) {
+            return undefined;
+        };
+        dataType.byteSize = size.trim() ? parseInt(size.trim(), 10) : undefined;
+        return dataType;
+    };
+    
+    const lengthSyntaxes: LengthSyntax[] = ['none', 'digits', 'decimals', 'varying', 'values', 'dateFormat', 'timeFormat', 'fraction'];
+    const lengthSyntax = await vscode.window.showQuickPick(lengthSyntaxes, { placeHolder: 'Select the length syntax' });
+    if (!lengthSyntax) {
+        return undefined;
+    };
+    dataType.lengthSyntax = lengthSyntax as LengthSyntax;
+    
+    if (lengthSyntax === 'values') {
+        const values = await vscode.window.showInputBox({
+            prompt: 'Allowed lengths, separated by commas',
+            placeHolder: 'e.g. 4, 8',
+            validateInput: (value: string) => /^\s*\d+(\s*,\s*\d+)*\s*$/.test(value) ? null : 'Enter numbers separated by commas'
+        });
+        if (!values) {
+            return undefined;
+        };
+        dataType.lengthValues = values.split(',').map(value => parseInt(value.trim(), 10));
+    };
+    
+    if (lengthSyntax !== 'none') {
+        const required = await vscode.window.showQuickPick(['Yes', 'No'], { placeHolder: 'Is the length required?' });
+        if (!required) {
+            return undefined;
+        };
+        dataType.lengthRequired = required === 'Yes';
+    };
+    
+    const initRules: InitRule[] = ['any', 'string', 'numeric', 'integer', 'indicator', 'date', 'time', 'timestamp', 'pointer'];
+    const initRule = await vscode.window.showQuickPick(initRules, { placeHolder: 'Select the validation of initialization values' });
+    if (!initRule) {
+        return undefined;
+    };
+    dataType.initRule = initRule as InitRule;
+    
+    const fixedSize = 'fixed';
+    const unknownSize = 'unknown';
+    const byteSizes: string[] = ['length', 'double', 'packed', 'integer', 'binary', 'varying', 'varyingDouble', 'date', 'time', 'timestamp', fixedSize, unknownSize];
+    const byteSize = await vscode.window.showQuickPick(byteSizes, { placeHolder: 'Select how the size in bytes is calculated' });
+    if (!byteSize) {
+        return undefined;
+    };
+    
+    if (byteSize === fixedSize) {
+        const size = await vscode.window.showInputBox({
+            prompt: 'Size in bytes',
+            placeHolder: 'e.g. 16',
+            validateInput: (value: string) => isPositiveInteger(value.trim()) ? null : 'Size must be a positive integer'
+        });
+        if (!size) {
+            return undefined;
+        };
+        dataType.byteSize = parseInt(size.trim(), 10);
+    } else if (byteSize !== unknownSize) {
+        dataType.byteSize = byteSize as ByteSizeFormula;
+    };
+    
+    const fixedType = await vscode.window.showInputBox({
+        prompt: 'Fixed-form data type letter (optional)',
+        placeHolder: 'e.g. A',
+        validateInput: (value: string) => /^[a-zA-Z*]?$/.test(value.trim()) ? null : 'Enter a single letter'
+    });
+    if (fixedType === undefined) {
+        return undefined;
+    };
+    dataType.fixedType = fixedType.trim().toUpperCase() || undefined;
+    dataType.fixedDecimals = dataType.fixedType !== undefined && lengthSyntax === 'decimals' ? true : undefined;
+    
+    return dataType;
+};
+
+/**
+ * Refreshes the views and contexts after the whole structure was replaced (undo and redo)
+ * @param provider - The header tree data provider
+ * @param fieldsProvider - The fields tree data provider
+ */
+function refreshStructure(provider: HeaderTreeDataProvider, fieldsProvider: FieldsTreeDataProvider): void {
+    provider.refresh();
+    fieldsProvider.refresh();
+    updateHeaderContext();
+    updateFieldsContext();
+    updateSourceContext();
+    updateHistoryContext();
+};
+
+/**
+ * Makes a draft the active structure and shows it in the views
+ * @param draft - The draft to show
+ * @param provider - The header tree data provider
+ * @param fieldsProvider - The fields tree data provider
+ */
+function showDraft(draft: StructureDraft, provider: HeaderTreeDataProvider, fieldsProvider: FieldsTreeDataProvider): void {
+    activateDraft(draft);
+    refreshStructure(provider, fieldsProvider);
+};
+
+/**
+ * Checks whether a structure name is used by another open draft
+ * @param name - Name to check
+ * @param except - Draft excluded from the check
+ * @returns True if another draft has the name
+ */
+function draftNameExists(name: string, except?: StructureDraft): boolean {
+    return drafts.some(draft => draft !== except && draft.header.name.toLowerCase() === name.toLowerCase());
+};
+
+/**
+ * Prompts for a new name for a structure draft
+ * @param draft - The draft to rename
+ */
+async function renameDraft(draft: StructureDraft): Promise<void> {
+    const inputName = await vscode.window.showInputBox({
+        prompt: 'Enter a new name for the structure',
+        value: draft.header.name,
+        validateInput: (value: string) => {
+            if (!value || value.trim() === '') {
+                return 'Name is required and cannot be empty';
+            };
+            if (draftNameExists(value.trim(), draft)) {
+                return `A structure named "${value.trim()}" is already open`;
+            };
+            return null;
+        }
+    });
+    
+    if (inputName === undefined || inputName.trim() === '') {
+        return; // User cancelled
+    };
+    
+    draft.header.name = inputName.trim();
+};
+
+/**
+ * Opens a copy of a structure draft. The copy is not linked to the source of the original.
+ * @param draft - The draft to copy
+ * @returns The new draft
+ */
+function duplicateDraft(draft: StructureDraft): StructureDraft {
+    const copy = createDraft({ ...getStructureState(draft), sourceReference: undefined });
+    
+    if (copy.header.name) {
+        let name = `${draft.header.name}_copy`;
+        for (let counter = 2; draftNameExists(name, copy); counter++) {
+            name = `${draft.header.name}_copy${counter}`;
+        };
+        copy.header.name = name;
+    };
+    
+    return copy;
+};
+
+/**
+ * Closes a structure draft, after confirmation if it is not empty
+ * @param draft - The draft to close
+ * @param structuresProvider - The structure drafts tree data provider
+ * @param provider - The header tree data provider
+ * @param fieldsProvider - The fields tree data provider
+ */
+async function closeStructureDraft(
+    draft: StructureDraft,
+    structuresProvider: StructuresTreeDataProvider,
+    provider: HeaderTreeDataProvider,
+    fieldsProvider: FieldsTreeDataProvider
+): Promise<void> {
+    if (!drafts.includes(draft)) {
+        return;
+    };
+    
+    if (draft.header.name || draft.fields.length > 0) {
+        const confirm = await vscode.window.showWarningMessage(
+            `Close the structure "${draft.header.name || '(Unnamed)'}"? Its changes will be lost.`,
+            { modal: true },
+            'Close'
+        );
+        if (confirm !== 'Close') {
+            return;
+        };
+    };
+    
+    closeDraft(draft);
+    clearHistory(draft.id);
+    structuresProvider.refresh();
+    refreshStructure(provider, fieldsProvider);
+};
+
+/**
+ * Cleans the header structure and refreshes the UI
+ * @param provider - The header tree data provider
+ */
+function cleanHeader(provider: HeaderTreeDataProvider): void {
+    header.name = '';
+    header.type = '';
+    header.dimension = '0';
+    header.comment = undefined;
+    header.keywords = undefined;
+    header.external = undefined;
+    header.unqualified = undefined;
+    setSourceReference(undefined);
+    
+    provider.refresh();
+    updateHeaderContext();
+    updateSourceContext();
+};
+
+/**
+ * Cleans all fields and refreshes the UI
+ * @param fieldsProvider - The fields tree data provider
+ */
+function cleanFields(fieldsProvider: FieldsTreeDataProvider): void {
+    fields.length = 0;
+    fieldsProvider.refresh();
+    updateFieldsContext();
+};
+
+/**
+ * Generates the RPG structure code at the current cursor position.
+ * When several structures are complete, asks whether to insert one of them
+ * or all of them, in dependency order.
+ */
+async function generateStructure(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    
+    if (!editor) {
+        vscode.window.showErrorMessage('No active editor found. Please open a file first.');
+        return;
+    };
+    
+    const insertPosition = editor.selection.active;
+    const complete = drafts.filter(draft => isHeaderValid(draft.header) && (draft.fields.length > 0 || isExternallyDescribed(draft.header)));
+    let selected: StructureDraft[] = [activeDraft];
+    
+    if (complete.length > 1) {
+        const allLabel = '$(layers) All structures';
+        const choice = await vscode.window.showQuickPick(
+            [
+                ...complete.map(draft => ({
+                    label: draft.header.name,
+                    description: draft === activeDraft ? 'active' : undefined,
+                    draft
+                })),
+                { label: allLabel, description: 'In dependency order', draft: undefined }
+            ],
+            { placeHolder: 'Select the structure to generate' }
+        );
+        
+        if (!choice) {
+            return; // User cancelled
+        };
+        
+        selected = choice.draft ? [choice.draft] : orderByDependency(complete);
+    } else if (complete.length === 1) {
+        selected = complete;
+    };
+    
+    try {
+        if (selected.length === 1) {
+            const [draft] = selected;
+            handleInsert(editor, insertPosition, draft.header.name, draft.header.type, draft.header.dimension, draft.fields, draft.header.comment, draft.header.keywords, draft.header.external, draft.header.unqualified);
+        } else {
+            handleInsertStructures(editor, insertPosition, selected);
+        };
+    } catch (error) {
+        console.error('Error generating structure:', error);
+        vscode.window.showErrorMessage('Failed to generate RPG structure. Please try again.');
+    };
+};
+
+/**
+ * Saves the current structure in the personal or workspace library,
+ * under a name and optional tags
+ * @param libraryProvider - Structure library tree data provider
+ */
+async function saveStructureToLibrary(libraryProvider: LibraryTreeDataProvider): Promise<void> {
+    if (!header.name || (fields.length === 0 && !isExternallyDescribed())) {
+        vscode.window.showErrorMessage('The structure needs a name and at least one field to be saved in the library.');
+        return;
+    };
+    
+    const name = await vscode.window.showInputBox({
+        prompt: 'Name of the structure in the library',
+        value: header.name,
+        validateInput: (value: string) => {
+            if (!value || value.trim() === '') {
+                return 'Name is required and cannot be empty';
+            };
+            return null;
+        }
+    });
+    if (!name) {
+        return; // User cancelled
+    };
+    
+    const tagsInput = await vscode.window.showInputBox({
+        prompt: 'Tags (optional, separated by commas)',
+        placeHolder: 'e.g. api, error'
+    });
+    if (tagsInput === undefined) {
+        return; // User cancelled
+    };
+    
+    const locations: { label: string; description: string; location: LibraryLocation }[] = [
+        { label: '$(account) User library', description: 'Available in every workspace', location: 'user' }
+    ];
+    if (vscode.workspace.workspaceFolders?.length) {
+        locations.push({ label: '$(repo) Workspace library', description: WORKSPACE_LIBRARY_PATTERN, location: 'workspace' });
+    };
+    
+    const selected = await vscode.window.showQuickPick(locations, { placeHolder: 'Where should the structure be saved?' });
+    if (!selected) {
+        return; // User cancelled
+    };
+    
+    let folder: vscode.WorkspaceFolder | undefined;
+    if (selected.location === 'workspace') {
+        folder = vscode.workspace.workspaceFolders?.length === 1
+            ? vscode.workspace.workspaceFolders[0]
+            : await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the workspace folder of the library' });
+        if (!folder) {
+            return; // User cancelled
+        };
+    };
+    
+    try {
+        if (await fileExists(getLibraryFileUri(name, selected.location, folder))) {
+            const overwrite = await vscode.window.showWarningMessage(
+                `A structure named "${name.trim()}" already exists in the library. Replace it?`,
+                { modal: true },
+                'Replace'
+            );
+            if (overwrite !== 'Replace') {
+                return;
+            };
+        };
+        
+        await saveToLibrary({
+            name: name.trim(),
+            tags: tagsInput.split(',').map(tag => tag.trim()).filter(Boolean),
+            header,
+            fields
+        }, selected.location, folder);
+        
+        libraryProvider.refresh();
+        vscode.window.showInformationMessage(`Structure "${name.trim()}" saved in the library.`);
+    } catch (error) {
+        console.error('Error saving structure in library:', error);
+        vscode.window.showErrorMessage(`Failed to save the structure in the library: ${error instanceof Error ? error.message : String(error)}`);
+    };
+};
+
+/**
+ * Opens the generated code of a library structure in a new untitled document
+ * @param item - The library structure item
+ */
+async function previewLibraryStructure(item: LibraryStructureItem): Promise<void> {
+    try {
+        const content = generateStructureCode(item.structure);
+        const document = await vscode.workspace.openTextDocument({ language: 'rpgle', content });
+        await vscode.window.showTextDocument(document, { preview: true });
+    } catch (error) {
+        console.error('Error previewing library structure:', error);
+        vscode.window.showErrorMessage(`Preview failed: ${error instanceof Error ? error.message : String(error)}`);
+    };
+};
+
+/**
+ * Loads a library structure into the views. An empty active structure is replaced,
+ * otherwise the library structure is opened as a new draft.
+ * @param item - The library structure item
+ * @param provider - The header tree data provider
+ * @param fieldsProvider - The fields tree data provider
+ */
+async function loadLibraryStructure(
+    item: LibraryStructureItem,
+    provider: HeaderTreeDataProvider,
+    fieldsProvider: FieldsTreeDataProvider
+): Promise<void> {
+    const { header: libraryHeader, fields: libraryFields } = item.structure;
+    
+    await openStructure({ header: libraryHeader, fields: libraryFields }, provider, fieldsProvider);
+    
+    vscode.window.showInformationMessage(`Structure "${item.structure.name}" loaded from the library.`);
+};
+
+/**
+ * Loads a structure into the views. An empty active structure is replaced,
+ * otherwise the structure is opened as a new draft.
+ * @param state - Header and fields of the structure
+ * @param provider - The header tree data provider
+ * @param fieldsProvider - The fields tree data provider
+ */
+async function openStructure(
+    state: StructureState,
+    provider: HeaderTreeDataProvider,
+    fieldsProvider: FieldsTreeDataProvider
+): Promise<void> {
+    if (!header.name && fields.length === 0) {
+        await trackChanges(() => {
+            setStructureState(state);
+            reassignIdNumbers(fields);
+        });
+        refreshStructure(provider, fieldsProvider);
+    } else {
+        const draft = createDraft(state);
+        reassignIdNumbers(draft.fields);
+        showDraft(draft, provider, fieldsProvider);
+    };
+};
+
+/**
+ * Picks a structure from the catalog of IBM i system structures, names it, and either
+ * opens it in the views (to rename fields before generating) or inserts it at the cursor
+ * @param provider - The header tree data provider
+ * @param fieldsProvider - The fields tree data provider
+ */
+async function insertSystemStructure(provider: HeaderTreeDataProvider, fieldsProvider: FieldsTreeDataProvider): Promise<void> {
+    const choice = await vscode.window.showQuickPick(
+        CATALOG_ENTRIES.map(entry => ({
+            label: entry.label,
+            description: entry.description,
+            detail: entry.detail,
+            entry
+        })),
+        { placeHolder: 'Select the system structure', matchOnDescription: true }
+    );
+    if (!choice) {
+        return; // User cancelled
+    };
+    
+    const name = await vscode.window.showInputBox({
+        prompt: 'Name of the structure',
+        value: choice.entry.header.name,
+        validateInput: (value: string) => {
+            if (!value || value.trim() === '') {
+                return 'Name is required and cannot be empty';
+            };
+            return null;
+        }
+    });
+    if (!name) {
+        return; // User cancelled
+    };
+    
+    const action = await vscode.window.showQuickPick(
+        [
+            { label: '$(edit) Open in RPG Structure', description: 'Rename fields before generating', insert: false },
+            { label: '$(insert) Insert at cursor', description: 'Insert the code in the active editor', insert: true }
+        ],
+        { placeHolder: `What do you want to do with ${name.trim()}?` }
+    );
+    if (!action) {
+        return; // User cancelled
+    };
+    
+    const state: StructureState = {
+        header: { ...cloneHeader(choice.entry.header), name: name.trim() },
+        fields: cloneFields(choice.entry.fields)
+    };
+    reassignIdNumbers(state.fields);
+    
+    if (!action.insert) {
+        await openStructure(state, provider, fieldsProvider);
+        return;
+    };
+    
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.showErrorMessage('No active editor found. Please open a file first.');
+        return;
+    };
+    
+    handleInsertStructures(editor, editor.selection.active, [state]);
+};
+
+/**
+ * Inserts the code of a library structure at the cursor position of the active editor
+ * @param item - The library structure item
+ */
+function insertLibraryStructure(item: LibraryStructureItem): void {
+    const editor = vscode.window.activeTextEditor;
+    
+    if (!editor) {
+        vscode.window.showErrorMessage('No active editor found. Please open a file first.');
+        return;
+    };
+    
+    const { header: libraryHeader, fields: libraryFields } = item.structure;
+    handleInsert(
+        editor,
+        editor.selection.active,
+        libraryHeader.name,
+        libraryHeader.type,
+        libraryHeader.dimension,
+        libraryFields,
+        libraryHeader.comment,
+        libraryHeader.keywords,
+        libraryHeader.external,
+        libraryHeader.unqualified
+    );
+};
+
+/**
+ * Deletes a structure from the library, after confirmation
+ * @param item - The library structure item
+ * @param libraryProvider - Structure library tree data provider
+ */
+async function deleteLibraryStructure(item: LibraryStructureItem, libraryProvider: LibraryTreeDataProvider): Promise<void> {
+    const confirm = await vscode.window.showWarningMessage(
+        `Delete "${item.structure.name}" from the ${item.structure.location} library?`,
+        { modal: true },
+        'Delete'
+    );
+    if (confirm !== 'Delete') {
+        return;
+    };
+    
+    try {
+        await deleteFromLibrary(item.structure);
+        libraryProvider.refresh();
+    } catch (error) {
+        console.error('Error deleting library structure:', error);
+        vscode.window.showErrorMessage(`Failed to delete the structure: ${error instanceof Error ? error.message : String(error)}`);
+    };
+};
+
+/**
+ * Generates an SQL CREATE TABLE statement from the structure
+ * and opens it in a new untitled SQL document
+ */
+async function generateSqlTable(): Promise<void> {
+    const statement = await vscode.window.showQuickPick(['CREATE TABLE', 'CREATE OR REPLACE TABLE'], {
+        placeHolder: 'Select the statement to generate'
+    });
+    
+    if (!statement) {
+        return; // User cancelled
+    };
+    
+    try {
+        const sql = generateCreateTable(header, fields, {
+            replace: statement === 'CREATE OR REPLACE TABLE',
+            prefixSubfields: currentConfiguration.sqlPrefixSubfields ?? true,
+            indicatorType: currentConfiguration.sqlIndicatorType === 'BOOLEAN' ? 'BOOLEAN' : 'CHAR(1)'
+        });
+        
+        const document = await vscode.workspace.openTextDocument({ language: 'sql', content: sql });
+        await vscode.window.showTextDocument(document);
+    } catch (error) {
+        console.error('Error generating SQL table:', error);
+        vscode.window.showErrorMessage(`SQL generation failed: ${error instanceof Error ? error.message : String(error)}`);
+    };
+};
+
+/**
+ * Replaces the imported structure in its source document with the current definition.
+ * The block is located again by name, closest to the line it was imported from.
+ */
+async function updateStructureInSource(): Promise<void> {
+    const reference = sourceReference;
+
+    if (!reference) {
+        vscode.window.showErrorMessage('The current structure was not imported from a source document.');
+        return;
+    };
+
+    let document: vscode.TextDocument;
+    try {
+        document = await vscode.workspace.openTextDocument(vscode.Uri.parse(reference.uri));
+    } catch (error) {
+        console.error('Error opening source document:', error);
+        vscode.window.showErrorMessage('The source document of the imported structure could not be opened.');
+        return;
+    };
+
+    // The document may have changed since the import, even with the same version once it
+    // was closed and reopened, so the block is always found again near its last position
+    const located = RpgStructureParser.findStructureRange(document.getText(), reference.name, reference.startLine);
+    if (!located) {
+        vscode.window.showErrorMessage(`Structure "${reference.name}" could not be found in the source document. It may have been renamed or removed.`);
+        return;
+    };
+    const { startLine, endLine } = located;
+
+    // The block is written again from the views, so what the import left out would be lost
+    const losses = findSourceLosses(document.getText(), startLine);
+    if (losses === undefined) {
+        vscode.window.showErrorMessage(`Structure "${reference.name}" in the source document can no longer be read, so it is not updated.`);
+        return;
+    };
+    if (losses.length > 0) {
+        const choice = await vscode.window.showWarningMessage(
+            `Updating "${reference.name}" will remove ${losses.join(' and ')} from the source, which could not be imported.`,
+            { modal: true },
+            'Update Anyway'
+        );
+        if (choice !== 'Update Anyway') {
+            return;
+        };
+    };
+
+    try {
+        const lineCount = await replaceStructureBlock(
+            document, startLine, endLine, header.name, header.type, header.dimension, fields, header.comment, header.keywords, header.external, header.unqualified
+        );
+
+        if (lineCount === undefined) {
+            vscode.window.showErrorMessage('Failed to update the RPG structure in source.');
+            return;
+        };
+
+        setSourceReference({
+            uri: reference.uri,
+            name: header.name,
+            startLine,
+            endLine: startLine + lineCount - 1
+        });
+
+        await vscode.window.showTextDocument(document, { selection: new vscode.Range(startLine, 0, startLine, 0) });
+        vscode.window.showInformationMessage(`Structure "${header.name}" updated in source.`);
+    } catch (error) {
+        console.error('Error updating structure in source:', error);
+        vscode.window.showErrorMessage(`Update failed: ${error instanceof Error ? error.message : String(error)}`);
+    };
+};
+
+/**
+ * Describes the parts of a structure in a source that the import leaves out
+ * @param content - Text of the source document
+ * @param startLine - First line of the structure block
+ * @returns Lines and keywords that would be lost, or undefined if the structure cannot be read
+ */
+function findSourceLosses(content: string, startLine: number): string[] | undefined {
+    const structure = RpgStructureParser.extractAllStructures(content).find(parsed => parsed.startLine === startLine);
+    if (!structure) {
+        return undefined;
+    };
+
+    const losses: string[] = [];
+    const unparsedLines = RpgStructureParser.findUnparsedLines(content, structure);
+    if (unparsedLines.length > 0) {
+        losses.push(`${unparsedLines.length === 1 ? 'line' : 'lines'} ${unparsedLines.map(line => line + 1).join(', ')}`);
+    };
+
+    const droppedKeywords = RpgStructureParser.findDroppedKeywords(content, structure);
+    if (droppedKeywords.length > 0) {
+        losses.push(`the ${droppedKeywords.map(keyword => keyword.toLowerCase()).join(', ')} ${droppedKeywords.length === 1 ? 'keyword' : 'keywords'}`);
+    };
+
+    return losses;
+};
+
+/**
+ * Imports RPG structure at cursor position
+ * @param provider - Header tree data provider
+ * @param fieldsProvider - Fields tree data provider
+ * @param line - Line of the structure, instead of the cursor line (from a code action)
+ */
+async function importStructureAtCursor(
+    provider: HeaderTreeDataProvider, 
+    fieldsProvider: FieldsTreeDataProvider,
+    line?: number
+): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.showErrorMessage('No active editor found');
+        return;
+    }
+
+    const document = editor.document;
+    const position = line !== undefined ? new vscode.Position(line, 0) : editor.selection.active;
+    const content = document.getText();
+    
+    try {
+        const parsed = RpgStructureParser.parseStructureAtCursor(content, position.line);
+        
+        if (!parsed.success) {
+            vscode.window.showErrorMessage(`Import failed: ${parsed.errors.join(', ')}`);
+            return;
         }
         
         if (!RpgStructureParser.validateParsedStructure(parsed)) {
@@ -448,6 +1707,16 @@ async function importStructureAtCursor(
         
         Object.assign(header, parsed.header);
         fields.push(...parsed.fields);
+        // Parsed subfields are numbered per level, the views need unique ids
+        reassignIdNumbers(fields);
+        
+        setSourceReference({
+            uri: document.uri.toString(),
+            name: parsed.header.name,
+            startLine: parsed.startLine ?? position.line,
+            endLine: parsed.endLine ?? position.line
+        });
+        updateSourceContext();
         
         // Refresh UI
         provider.refresh();
@@ -455,6 +1724,11 @@ async function importStructureAtCursor(
         updateHeaderContext();
         updateFieldsContext();
         
+        // Show the imported structure when it was opened from the source
+        if (line !== undefined) {
+            await vscode.commands.executeCommand(`workbench.view.extension.${VIEW_CONTAINER}`);
+        }
+        
         vscode.window.showInformationMessage(`Structure "${parsed.header.name}" imported successfully`);
         
     } catch (error) {
@@ -522,6 +1796,18 @@ async function importFromStructureList(
         
         Object.assign(header, selected.structure.header);
         fields.push(...selected.structure.fields);
+        // Parsed subfields are numbered per level, the views need unique ids
+        reassignIdNumbers(fields);
+        
+        if (selected.structure.startLine !== undefined && selected.structure.endLine !== undefined) {
+            setSourceReference({
+                uri: editor.document.uri.toString(),
+                name: selected.structure.header.name,
+                startLine: selected.structure.startLine,
+                endLine: selected.structure.endLine
+            });
+            updateSourceContext();
+        };
         
         // Refresh UI
         provider.refresh();
@@ -538,3 +1824,197 @@ async function importFromStructureList(
 }
 
 
+
+
+/**
+ * Asks for confirmation before replacing a structure that is being edited
+ * @param name - Name of the structure that will be loaded
+ * @returns true if there is nothing to lose or the user confirmed
+ */
+async function confirmOverwrite(name: string): Promise<boolean> {
+    if (!header.name && fields.length === 0) {
+        return true;
+    };
+    
+    const overwrite = await vscode.window.showWarningMessage(
+        `Import "${name}"? This will overwrite your current structure.`,
+        { modal: true },
+        'Import', 'Cancel'
+    );
+    
+    return overwrite === 'Import';
+};
+
+/**
+ * Replaces the current structure with the given header and fields
+ * @param newHeader - Header to load
+ * @param newFields - Fields to load
+ * @param provider - Header tree data provider
+ * @param fieldsProvider - Fields tree data provider
+ */
+function loadStructure(
+    newHeader: Header,
+    newFields: Field[],
+    provider: HeaderTreeDataProvider,
+    fieldsProvider: FieldsTreeDataProvider
+): void {
+    cleanHeader(provider);
+    cleanFields(fieldsProvider);
+    
+    Object.assign(header, newHeader);
+    fields.push(...newFields);
+    // Parsed subfields are numbered per level, the views need unique ids
+    reassignIdNumbers(fields);
+    
+    // Refresh UI
+    provider.refresh();
+    fieldsProvider.refresh();
+    updateHeaderContext();
+    updateFieldsContext();
+};
+
+/**
+ * Imports a structure from the SQL CREATE TABLE or CREATE VIEW statement
+ * that is selected, or that contains the cursor
+ * @param provider - Header tree data provider
+ * @param fieldsProvider - Fields tree data provider
+ */
+async function importFromSql(
+    provider: HeaderTreeDataProvider,
+    fieldsProvider: FieldsTreeDataProvider
+): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.showErrorMessage('No active editor found');
+        return;
+    };
+    
+    const document = editor.document;
+    const sql = editor.selection.isEmpty
+        ? findCreateStatementAt(document.getText(), document.offsetAt(editor.selection.active))
+        : document.getText(editor.selection);
+    
+    if (!sql) {
+        vscode.window.showErrorMessage('Select a CREATE TABLE or CREATE VIEW statement, or place the cursor inside one.');
+        return;
+    };
+    
+    try {
+        const parsed = parseCreateStatement(sql);
+        
+        if (parsed.columns.length === 0) {
+            vscode.window.showErrorMessage(`Import failed: no columns could be converted. ${parsed.errors.join(' ')}`);
+            return;
+        };
+        
+        // Long SQL names or FOR COLUMN system names
+        let useSystemNames = false;
+        if (parsed.columns.some(column => column.systemName)) {
+            const names = await vscode.window.showQuickPick(['SQL names', 'System names'], {
+                placeHolder: 'Some columns have system names (FOR COLUMN). Which names should the fields use?'
+            });
+            if (!names) {
+                return; // User cancelled
+            };
+            useSystemNames = names === 'System names';
+        };
+        
+        if (!(await confirmOverwrite(parsed.name))) {
+            return;
+        };
+        
+        loadStructure(
+            { name: parsed.name, type: 'Default', dimension: '0' },
+            sqlColumnsToFields(parsed.columns, useSystemNames),
+            provider,
+            fieldsProvider
+        );
+        
+        // NULL-capable columns are fetched into the structure with an indicator array of one element per column
+        const nullCapable = countNullCapableColumns(parsed.columns);
+        const nullNote = nullCapable > 0
+            ? ` ${nullCapable} ${nullCapable === 1 ? 'column is' : 'columns are'} NULL-capable (see the field comments): fetch with a null indicator array such as dcl-s ${parsed.name}_ni int(5) dim(${parsed.columns.length});`
+            : '';
+        
+        if (parsed.errors.length > 0) {
+            vscode.window.showWarningMessage(`Structure "${parsed.name}" imported with warnings: ${parsed.errors.join(' ')}${nullNote}`);
+        } else {
+            vscode.window.showInformationMessage(`Structure "${parsed.name}" imported successfully.${nullNote}`);
+        };
+        
+    } catch (error) {
+        console.error('Error importing from SQL:', error);
+        vscode.window.showErrorMessage(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+    };
+};
+
+/**
+ * Imports a record format from the DDS physical or logical file source in the active editor.
+ * Referenced files (REF, REFFLD, PFILE, JFILE) are looked up in the workspace.
+ * @param provider - Header tree data provider
+ * @param fieldsProvider - Fields tree data provider
+ */
+async function importFromDds(
+    provider: HeaderTreeDataProvider,
+    fieldsProvider: FieldsTreeDataProvider
+): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.showErrorMessage('No active editor found');
+        return;
+    };
+    
+    try {
+        const content = editor.document.getText();
+        const sources = await findWorkspaceSources(findDdsReferences(content), [...DDS_EXTENSIONS]);
+        const parsed = parseDdsSource(content, sources);
+        
+        if (parsed.formats.length === 0) {
+            vscode.window.showInformationMessage('No DDS record formats found in current file');
+            return;
+        };
+        
+        let format = parsed.formats[0];
+        if (parsed.formats.length > 1) {
+            const selected = await vscode.window.showQuickPick(
+                parsed.formats.map(recordFormat => ({
+                    label: recordFormat.name,
+                    description: `(${recordFormat.fields.length} fields)`,
+                    detail: recordFormat.text,
+                    recordFormat
+                })),
+                { placeHolder: 'Select record format to import' }
+            );
+            if (!selected) {
+                return; // User cancelled
+            };
+            format = selected.recordFormat;
+        };
+        
+        if (format.fields.length === 0) {
+            vscode.window.showErrorMessage(`Import failed: no fields could be converted. ${parsed.errors.join(' ')}`);
+            return;
+        };
+        
+        if (!(await confirmOverwrite(format.name))) {
+            return;
+        };
+        
+        loadStructure(
+            { name: format.name, type: 'Default', dimension: '0', comment: format.text },
+            format.fields,
+            provider,
+            fieldsProvider
+        );
+        
+        if (parsed.errors.length > 0) {
+            vscode.window.showWarningMessage(`Structure "${format.name}" imported with warnings: ${parsed.errors.join(' ')}`);
+        } else {
+            vscode.window.showInformationMessage(`Structure "${format.name}" imported successfully`);
+        };
+        
+    } catch (error) {
+        console.error('Error importing from DDS:', error);
+        vscode.window.showErrorMessage(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+    };
+};
\ No newline at end of file
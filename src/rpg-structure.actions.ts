@@ -0,0 +1,282 @@
+/*
+	Christian Larsen, 2025
+	"RPG structure"
+	rpg-structure.actions.ts
+*/
+
+import * as vscode from 'vscode';
+import { COMMANDS, StructureFormat, StructureType } from './rpg-structure.model';
+import { RpgStructureParser, ParsedStructure } from './rpg-structure.parser';
+import { currentConfiguration } from './rpg-structure.configuration';
+import { generateRpgCode } from './rpg-structure.code';
+
+/**
+ * Code actions on the structures declared in open RPG documents.
+ * Every fix writes the structure again with the code generator, so the result
+ * is the same code the views would insert.
+ */
+
+// CONSTANTS
+
+/** Languages of the documents that get code actions */
+const ACTION_LANGUAGES = ['rpgle', 'sqlrpgle'];
+
+/** Format of fixed-form D-specs */
+const FIXED_FORMAT: StructureFormat = 'D-SPEC';
+
+/** Free-form code in a source without **free starts in column 8 */
+const FIXED_SOURCE_INDENT = ' '.repeat(7);
+
+// SETUP
+
+/**
+ * Registers the code actions for the RPG languages
+ * @param context - VS Code extension context
+ */
+export function setupCodeActions(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.languages.registerCodeActionsProvider(
+            ACTION_LANGUAGES.map(language => ({ language })),
+            new RpgStructureCodeActionProvider(),
+            { providedCodeActionKinds: RpgStructureCodeActionProvider.providedCodeActionKinds }
+        )
+    );
+};
+
+// PROVIDER
+
+/**
+ * Offers the fixes and rewrites of the structure at the cursor
+ */
+export class RpgStructureCodeActionProvider implements vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = [
+        vscode.CodeActionKind.QuickFix,
+        vscode.CodeActionKind.RefactorRewrite
+    ];
+
+    /**
+     * Returns the code actions of the structure that contains the start of the range
+     * @param document - Document of the range
+     * @param range - Range or selection the actions are asked for
+     * @returns Code actions of the structure
+     */
+    provideCodeActions(document: vscode.TextDocument, range: vscode.Range | vscode.Selection): vscode.CodeAction[] {
+        const content = document.getText();
+        const line = range.start.line;
+
+        try {
+            if (RpgStructureParser.findUnclosedStructureLines(content).includes(line)) {
+                return createEndDsAction(document, content, line);
+            };
+
+            const structure = RpgStructureParser.extractAllStructures(content)
+                .find(parsed => line >= (parsed.startLine ?? 0) && line <= (parsed.endLine ?? -1));
+            return structure ? createStructureActions(document, content, structure) : [];
+        } catch (error) {
+            console.error(`Failed to create code actions for ${document.uri.toString()}:`, error);
+            return [];
+        };
+    };
+};
+
+// ACTIONS
+
+/**
+ * Creates the actions of a structure: open it in the views and the rewrites that apply to it
+ * @param document - Document of the structure
+ * @param content - Text of the document
+ * @param structure - Parsed structure
+ * @returns Code actions of the structure
+ */
+function createStructureActions(document: vscode.TextDocument, content: string, structure: ParsedStructure): vscode.CodeAction[] {
+    const lines = content.split('\n');
+    const declarationLine = findDeclarationLine(lines, structure);
+    const actions: vscode.CodeAction[] = [];
+
+    const open = new vscode.CodeAction('Open in RPG Structure');
+    open.command = { command: COMMANDS.IMPORT_FROM_CURSOR, title: open.title, arguments: [declarationLine] };
+    actions.push(open);
+
+    if (losesSource(content, structure)) {
+        return actions;
+    };
+
+    const configuredFormat = currentConfiguration.structureFormat as StructureFormat;
+    const baseIndent = lines[declarationLine].match(/^\s*/)![0];
+    const startLine = structure.startLine ?? declarationLine;
+    const endLine = structure.endLine ?? declarationLine;
+
+    if (structure.format === FIXED_FORMAT) {
+        const freeFormat = configuredFormat === FIXED_FORMAT ? 'dcl-ds' : configuredFormat;
+        const freeIndent = /^\s*\*\*free/i.test(lines[0] ?? '') ? '' : FIXED_SOURCE_INDENT;
+        actions.push(createRewriteAction(
+            'Convert this fixed-form DS to free-form',
+            document, startLine, endLine,
+            regenerate(structure, freeFormat, freeIndent)
+        ));
+    };
+
+    if (structure.header.unqualified && structure.header.type !== 'likerec') {
+        actions.push(createRewriteAction(
+            'Make structure qualified',
+            document, startLine, endLine,
+            regenerate(structure, structure.format, baseIndent, false)
+        ));
+    };
+
+    if (structure.format !== FIXED_FORMAT) {
+        const current = getLinesText(document, startLine, endLine);
+
+        const indented = regenerate(structure, structure.format, baseIndent);
+        if (indented !== current) {
+            actions.push(createRewriteAction('Re-indent structure using configured indentation', document, startLine, endLine, indented));
+        };
+
+        // The parser reads the format from the declaration only, mixed case such as Dcl-Ds included
+        const keyword = lines[declarationLine].trim().substring(0, 'dcl-ds'.length);
+        if (configuredFormat !== FIXED_FORMAT && keyword !== configuredFormat) {
+            actions.push(createRewriteAction(
+                `Normalize keyword case to ${configuredFormat}`,
+                document, startLine, endLine,
+                regenerate(structure, configuredFormat, baseIndent)
+            ));
+        };
+    };
+
+    return actions;
+};
+
+/**
+ * Creates the fix of a dcl-ds without end-ds, which closes the structure after its subfields
+ * @param document - Document of the structure
+ * @param content - Text of the document
+ * @param line - Line of the dcl-ds
+ * @returns The fix, or no action if the subfields cannot be read
+ */
+function createEndDsAction(document: vscode.TextDocument, content: string, line: number): vscode.CodeAction[] {
+    const lines = content.split('\n');
+    const lastLine = RpgStructureParser.findSubfieldsEnd(content, line);
+    const baseIndent = lines[line].match(/^\s*/)![0];
+
+    // The structure is read as if the end-ds were already there
+    const snippet = [...lines.slice(line, lastLine + 1), `${baseIndent}end-ds;`].join('\n');
+    const structure = RpgStructureParser.extractAllStructures(snippet)[0];
+    if (!structure || losesSource(snippet, structure)) {
+        return [];
+    };
+
+    const action = createRewriteAction(
+        'Add missing end-ds',
+        document, line, lastLine,
+        regenerate(structure, structure.format, baseIndent),
+        vscode.CodeActionKind.QuickFix
+    );
+    action.isPreferred = true;
+    return [action];
+};
+
+/**
+ * Creates an action that replaces the lines of a structure
+ * @param title - Title of the action
+ * @param document - Document of the structure
+ * @param startLine - First line replaced
+ * @param endLine - Last line replaced
+ * @param code - Generated code of the structure
+ * @param kind - Kind of the action
+ * @returns The code action
+ */
+function createRewriteAction(
+    title: string,
+    document: vscode.TextDocument,
+    startLine: number,
+    endLine: number,
+    code: string,
+    kind: vscode.CodeActionKind = vscode.CodeActionKind.RefactorRewrite
+): vscode.CodeAction {
+    const action = new vscode.CodeAction(title, kind);
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.replace(
+        document.uri,
+        new vscode.Range(document.lineAt(startLine).range.start, document.lineAt(endLine).range.end),
+        code
+    );
+    return action;
+};
+
+// HELPERS
+
+/**
+ * Checks whether writing a structure again would lose part of its source:
+ * lines the parser does not recognize or keywords it does not keep
+ * @param content - Text of the source
+ * @param structure - Parsed structure
+ * @returns True if the structure must not be rewritten
+ */
+function losesSource(content: string, structure: ParsedStructure): boolean {
+    return RpgStructureParser.findUnparsedLines(content, structure).length > 0 ||
+        RpgStructureParser.findDroppedKeywords(content, structure).length > 0;
+};
+
+/**
+ * Generates the code of a parsed structure
+ * @param structure - Parsed structure
+ * @param format - Format of the generated code
+ * @param baseIndent - Indentation of the declaration
+ * @param unqualified - Whether the qualified keyword is left out
+ * @returns Generated code
+ */
+function regenerate(
+    structure: ParsedStructure,
+    format: StructureFormat,
+    baseIndent: string,
+    unqualified: boolean | undefined = structure.header.unqualified
+): string {
+    const { header } = structure;
+
+    return generateRpgCode({
+        name: header.name,
+        type: header.type as StructureType,
+        dimension: header.dimension,
+        fields: structure.fields,
+        line: 0,
+        level: 0,
+        baseIndent,
+        comment: header.comment,
+        keywords: header.keywords,
+        external: header.external,
+        unqualified,
+        structureFormat: format
+    });
+};
+
+/**
+ * Finds the line of the declaration of a structure, below its comment lines
+ * @param lines - Lines of the source
+ * @param structure - Parsed structure
+ * @returns Line of the dcl-ds, or the first line of a fixed-form structure
+ */
+function findDeclarationLine(lines: string[], structure: ParsedStructure): number {
+    const startLine = structure.startLine ?? 0;
+    if (structure.format === FIXED_FORMAT) {
+        return startLine;
+    };
+
+    for (let i = startLine; i <= (structure.endLine ?? startLine) && i < lines.length; i++) {
+        if (/^\s*dcl-ds\b/i.test(lines[i])) {
+            return i;
+        };
+    };
+    return startLine;
+};
+
+/**
+ * Returns the text of a range of lines, with \n line endings like the generated code
+ * @param document - Document of the lines
+ * @param startLine - First line
+ * @param endLine - Last line
+ * @returns Text of the lines
+ */
+function getLinesText(document: vscode.TextDocument, startLine: number, endLine: number): string {
+    const range = new vscode.Range(document.lineAt(startLine).range.start, document.lineAt(endLine).range.end);
+    return document.getText(range).replace(/\r\n/g, '\n');
+};
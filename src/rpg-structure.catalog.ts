@@ -0,0 +1,292 @@
+/*
+	Christian Larsen, 2025
+	"RPG structure"
+	rpg-structure.catalog.ts
+*/
+
+import { Field, Header } from './rpg-structure.model';
+
+/**
+ * Built-in catalog of well-known IBM i layouts (program status DS, file information DS,
+ * API error codes, API formats, SQLCA), expressed in the Field model so they can be
+ * renamed, edited and generated like any other structure. Positions are given with pos(),
+ * so the generated code keeps the documented layout even when fields are renamed.
+ */
+
+// INTERFACES
+
+/**
+ * Structure of the catalog.
+ */
+export interface CatalogEntry {
+    /** Unique identifier of the entry */
+    id: string;
+    /** Label shown in the quick pick */
+    label: string;
+    /** Short description shown next to the label */
+    description: string;
+    /** Usage notes shown under the label */
+    detail: string;
+    /** Header of the structure */
+    header: Header;
+    /** Fields of the structure, numbered when the entry is loaded */
+    fields: Field[];
+};
+
+// FIELDS
+
+/**
+ * Creates a subfield at a fixed position
+ * @param pos - Starting position of the subfield (1-based)
+ * @param name - Name of the subfield
+ * @param type - RPG data type
+ * @param length - Length specification (optional)
+ * @param comment - Description of the subfield (optional)
+ * @param init - Initialization value (optional)
+ * @returns Subfield without identifier
+ */
+function subfield(pos: number, name: string, type: string, length?: string, comment?: string, init?: string): Field {
+    return {
+        idNumber: 0,
+        name,
+        type,
+        length,
+        init,
+        dim: undefined,
+        pos,
+        isStructure: false,
+        fields: [],
+        comment
+    };
+};
+
+/**
+ * Subfields of the file feedback section of a file information data structure (positions 1-80)
+ * @returns Subfields of the section
+ */
+function fileFeedbackFields(): Field[] {
+    return [
+        subfield(1, 'file', 'char', '8', 'First 8 characters of the file name'),
+        subfield(9, 'openInd', 'char', '1', 'File open (1)'),
+        subfield(10, 'eofInd', 'char', '1', 'End of file (1)'),
+        subfield(11, 'status', 'zoned', '5:0', 'Status code'),
+        subfield(16, 'opcode', 'char', '6', 'Last operation code'),
+        subfield(22, 'routine', 'char', '8', 'RPG routine'),
+        subfield(30, 'stmtNbr', 'char', '8', 'Source statement number'),
+        subfield(38, 'recordName', 'char', '8', 'Record format name'),
+        subfield(46, 'msgId', 'char', '7', 'Error message id'),
+        subfield(67, 'screenSize', 'zoned', '4:0', 'Screen size (display files)'),
+        subfield(71, 'languageInfo', 'char', '10', 'Language-dependent information')
+    ];
+};
+
+// CATALOG
+
+/**
+ * Structures of the catalog, in the order shown in the quick pick.
+ */
+export const CATALOG_ENTRIES: ReadonlyArray<CatalogEntry> = [
+    {
+        id: 'psds',
+        label: 'Program status data structure',
+        description: 'PSDS, 429 bytes',
+        detail: 'Declared with the psds keyword, one per module.',
+        header: { name: 'pgmStatus', type: 'Default', dimension: '0', keywords: ['psds'] },
+        fields: [
+            subfield(1, 'procName', 'char', '10', 'Procedure name'),
+            subfield(11, 'status', 'zoned', '5:0', 'Status code'),
+            subfield(16, 'prevStatus', 'zoned', '5:0', 'Previous status code'),
+            subfield(21, 'stmtNbr', 'char', '8', 'Source statement number'),
+            subfield(29, 'routine', 'char', '8', 'RPG routine'),
+            subfield(37, 'parms', 'zoned', '3:0', 'Number of parameters passed'),
+            subfield(40, 'excType', 'char', '3', 'Exception type (CPF, MCH...)'),
+            subfield(43, 'excNbr', 'char', '4', 'Exception number'),
+            subfield(51, 'msgWork', 'char', '30', 'Work area for messages'),
+            subfield(81, 'pgmLib', 'char', '10', 'Program library'),
+            subfield(91, 'excData', 'char', '80', 'Exception data'),
+            subfield(171, 'excId', 'char', '4', 'Exception that caused RNX9001'),
+            subfield(175, 'lastFile', 'char', '10', 'File of the last operation'),
+            subfield(191, 'jobDate', 'char', '8', 'Date the job entered the system'),
+            subfield(199, 'century', 'zoned', '2:0', 'First digits of the year'),
+            subfield(201, 'lastFileShort', 'char', '8', 'File of the last operation'),
+            subfield(209, 'lastFileStatus', 'char', '35', 'Status of the last file used'),
+            subfield(244, 'jobName', 'char', '10', 'Job name'),
+            subfield(254, 'jobUser', 'char', '10', 'Job user'),
+            subfield(264, 'jobNbr', 'zoned', '6:0', 'Job number'),
+            subfield(270, 'jobStartDate', 'zoned', '6:0', 'Date the program started (UDATE format)'),
+            subfield(276, 'runDate', 'zoned', '6:0', 'Date of program running'),
+            subfield(282, 'runTime', 'zoned', '6:0', 'Time of program running'),
+            subfield(288, 'compileDate', 'char', '6', 'Creation date'),
+            subfield(294, 'compileTime', 'char', '6', 'Creation time'),
+            subfield(300, 'compilerLevel', 'char', '4', 'Level of the compiler'),
+            subfield(304, 'srcFile', 'char', '10', 'Source file'),
+            subfield(314, 'srcLib', 'char', '10', 'Source file library'),
+            subfield(324, 'srcMbr', 'char', '10', 'Source member'),
+            subfield(334, 'procPgm', 'char', '10', 'Program containing the procedure'),
+            subfield(344, 'procMod', 'char', '10', 'Module containing the procedure'),
+            subfield(354, 'srcIdStmt', 'int', '5', 'Source id of the statement number'),
+            subfield(356, 'srcIdFile', 'int', '5', 'Source id of the file statement'),
+            subfield(358, 'currentUser', 'char', '10', 'Current user profile'),
+            subfield(368, 'extErrorCode', 'int', '10', 'External error code'),
+            subfield(372, 'xmlElements', 'int', '20', 'XML elements set by XML-INTO'),
+            subfield(380, 'internalJobId', 'char', '16', 'Internal job id'),
+            subfield(396, 'systemName', 'char', '8', 'System name'),
+            subfield(404, 'unused', 'char', '26', 'Unused')
+        ]
+    },
+    {
+        id: 'infds-file',
+        label: 'File information data structure: file feedback',
+        description: 'INFDS, 80 bytes',
+        detail: 'Add infds(fileInfo) to the dcl-f of the file.',
+        header: { name: 'fileInfo', type: 'Default', dimension: '0' },
+        fields: fileFeedbackFields()
+    },
+    {
+        id: 'infds',
+        label: 'File information data structure: file, open, I/O and database feedback',
+        description: 'INFDS, 400 bytes',
+        detail: 'Add infds(fileInfo) to the dcl-f of the file.',
+        header: { name: 'fileInfo', type: 'Default', dimension: '0' },
+        fields: [
+            ...fileFeedbackFields(),
+            subfield(81, 'odpType', 'char', '2', 'Open data path type (DS, DB, SP)'),
+            subfield(83, 'fileName', 'char', '10', 'File name'),
+            subfield(93, 'fileLib', 'char', '10', 'File library'),
+            subfield(103, 'spoolFile', 'char', '10', 'Spooled file name'),
+            subfield(113, 'spoolLib', 'char', '10', 'Spooled file library'),
+            subfield(123, 'spoolNbr', 'int', '5', 'Spooled file number'),
+            subfield(125, 'recordLength', 'int', '5', 'Maximum record length'),
+            subfield(127, 'keyLength', 'int', '5', 'Maximum key length'),
+            subfield(129, 'member', 'char', '10', 'Member name'),
+            subfield(147, 'fileType', 'int', '5', 'File type'),
+            subfield(152, 'lines', 'int', '5', 'Number of lines (display and printer files)'),
+            subfield(154, 'columns', 'int', '5', 'Number of positions (display and printer files)'),
+            subfield(156, 'recordCount', 'int', '10', 'Number of records in the member at open'),
+            subfield(160, 'accessType', 'char', '2', 'Access type (KU, AR)'),
+            subfield(162, 'dupKeys', 'char', '1', 'Duplicate keys (D, U)'),
+            subfield(163, 'sourceFile', 'char', '1', 'Source file (Y)'),
+            subfield(243, 'writeCount', 'int', '10', 'Number of put operations'),
+            subfield(247, 'readCount', 'int', '10', 'Number of get operations'),
+            subfield(251, 'writeReadCount', 'int', '10', 'Number of put/get operations'),
+            subfield(255, 'otherCount', 'int', '10', 'Number of other operations'),
+            subfield(260, 'currentOp', 'char', '1', 'Current operation'),
+            subfield(261, 'ioRecordName', 'char', '10', 'Record format name'),
+            subfield(271, 'deviceClass', 'char', '2', 'Device class'),
+            subfield(273, 'deviceName', 'char', '10', 'Program device name'),
+            subfield(283, 'ioRecordLength', 'int', '10', 'Length of the last record processed'),
+            subfield(397, 'rrn', 'int', '10', 'Relative record number')
+        ]
+    },
+    {
+        id: 'qusec',
+        label: 'API error code (QUSEC)',
+        description: '16 bytes',
+        detail: 'Error code parameter of the system APIs, without exception data.',
+        header: { name: 'apiError', type: 'Default', dimension: '0' },
+        fields: [
+            subfield(1, 'bytesProvided', 'int', '10', 'Bytes provided', '16'),
+            subfield(5, 'bytesAvailable', 'int', '10', 'Bytes available'),
+            subfield(9, 'exceptionId', 'char', '7', 'Exception id'),
+            subfield(16, 'reserved', 'char', '1', 'Reserved')
+        ]
+    },
+    {
+        id: 'errc0100',
+        label: 'API error code with exception data (ERRC0100)',
+        description: '272 bytes',
+        detail: 'Error code parameter of the system APIs, with the message data.',
+        header: { name: 'apiError', type: 'Default', dimension: '0' },
+        fields: [
+            subfield(1, 'bytesProvided', 'int', '10', 'Bytes provided', '272'),
+            subfield(5, 'bytesAvailable', 'int', '10', 'Bytes available'),
+            subfield(9, 'exceptionId', 'char', '7', 'Exception id'),
+            subfield(16, 'reserved', 'char', '1', 'Reserved'),
+            subfield(17, 'exceptionData', 'char', '256', 'Message data')
+        ]
+    },
+    {
+        id: 'jobi0100',
+        label: 'Job information (QUSRJOBI JOBI0100)',
+        description: '86 bytes',
+        detail: 'Receiver variable of the Retrieve Job Information API.',
+        header: { name: 'jobInfo', type: 'Default', dimension: '0' },
+        fields: [
+            subfield(1, 'bytesReturned', 'int', '10', 'Bytes returned'),
+            subfield(5, 'bytesAvailable', 'int', '10', 'Bytes available'),
+            subfield(9, 'jobName', 'char', '10', 'Job name'),
+            subfield(19, 'userName', 'char', '10', 'User name'),
+            subfield(29, 'jobNbr', 'char', '6', 'Job number'),
+            subfield(35, 'internalJobId', 'char', '16', 'Internal job identifier'),
+            subfield(51, 'jobStatus', 'char', '10', 'Job status'),
+            subfield(61, 'jobType', 'char', '1', 'Job type'),
+            subfield(62, 'jobSubtype', 'char', '1', 'Job subtype'),
+            subfield(63, 'reserved', 'char', '2', 'Reserved'),
+            subfield(65, 'runPriority', 'int', '10', 'Run priority'),
+            subfield(69, 'timeSlice', 'int', '10', 'Time slice'),
+            subfield(73, 'defaultWait', 'int', '10', 'Default wait'),
+            subfield(77, 'purge', 'char', '10', 'Eligible for purge')
+        ]
+    },
+    {
+        id: 'objl0100',
+        label: 'Object list entry (QUSLOBJ OBJL0100)',
+        description: '30 bytes',
+        detail: 'List entry of the List Objects API, read from the user space.',
+        header: { name: 'objectEntry', type: 'Default', dimension: '0' },
+        fields: [
+            subfield(1, 'objectName', 'char', '10', 'Object name'),
+            subfield(11, 'objectLib', 'char', '10', 'Object library'),
+            subfield(21, 'objectType', 'char', '10', 'Object type')
+        ]
+    },
+    {
+        id: 'list-header',
+        label: 'List API generic header (format 0100)',
+        description: '192 bytes',
+        detail: 'Start of the user space filled by the list APIs.',
+        header: { name: 'listHeader', type: 'Default', dimension: '0' },
+        fields: [
+            subfield(1, 'userArea', 'char', '64', 'User area'),
+            subfield(65, 'headerSize', 'int', '10', 'Size of the generic header'),
+            subfield(69, 'releaseLevel', 'char', '4', 'Structure release and level'),
+            subfield(73, 'formatName', 'char', '8', 'Format name'),
+            subfield(81, 'apiUsed', 'char', '10', 'API used'),
+            subfield(91, 'created', 'char', '13', 'Date and time created'),
+            subfield(104, 'infoStatus', 'char', '1', 'Information status (C, I, P)'),
+            subfield(105, 'spaceUsed', 'int', '10', 'Size of the user space used'),
+            subfield(109, 'inputOffset', 'int', '10', 'Offset to the input parameter section'),
+            subfield(113, 'inputSize', 'int', '10', 'Size of the input parameter section'),
+            subfield(117, 'headerOffset', 'int', '10', 'Offset to the header section'),
+            subfield(121, 'headerSectionSize', 'int', '10', 'Size of the header section'),
+            subfield(125, 'listOffset', 'int', '10', 'Offset to the list data section'),
+            subfield(129, 'listSize', 'int', '10', 'Size of the list data section'),
+            subfield(133, 'entryCount', 'int', '10', 'Number of list entries'),
+            subfield(137, 'entrySize', 'int', '10', 'Size of each entry'),
+            subfield(141, 'ccsid', 'int', '10', 'CCSID of the data in the list entries'),
+            subfield(145, 'countryId', 'char', '2', 'Country or region id'),
+            subfield(147, 'languageId', 'char', '3', 'Language id'),
+            subfield(150, 'subsetInd', 'char', '1', 'Subsetted list indicator'),
+            subfield(151, 'reserved', 'char', '42', 'Reserved')
+        ]
+    },
+    {
+        id: 'sqlca',
+        label: 'SQL communication area (SQLCA)',
+        description: '136 bytes',
+        detail: 'The SQL precompiler declares SQLCA, use this template to keep a copy of it.',
+        header: { name: 'sqlca_t', type: 'template' },
+        fields: [
+            subfield(1, 'sqlcaid', 'char', '8', 'Eye catcher'),
+            subfield(9, 'sqlcabc', 'int', '10', 'Length of the SQLCA'),
+            subfield(13, 'sqlcode', 'int', '10', 'SQL return code'),
+            subfield(17, 'sqlerrml', 'int', '5', 'Length of sqlerrmc'),
+            subfield(19, 'sqlerrmc', 'char', '70', 'Message replacement text'),
+            subfield(89, 'sqlerrp', 'char', '8', 'Product identifier'),
+            { ...subfield(97, 'sqlerrd', 'int', '10', 'Diagnostic information'), dim: 6 },
+            subfield(121, 'sqlwarn', 'char', '11', 'Warning flags'),
+            subfield(132, 'sqlstate', 'char', '5', 'SQLSTATE')
+        ]
+    }
+];
+
@@ -5,15 +5,27 @@
 */
 
 import { currentConfiguration } from './rpg-structure.configuration';
-import { Field, FORMAT_MAP, StructureFormat } from './rpg-structure.model';
+import { Field, FORMAT_MAP, KeywordCase, StructureFormat } from './rpg-structure.model';
+import { findDataType, formatTypeKeyword, hasKeywordParameter, timestampSize } from './rpg-structure.types';
 
 // Types
-type StructureType = 'Default' | 'template' | '*var' | '*auto';
+type StructureType = 'Default' | 'template' | '*var' | '*auto' | 'extname' | 'likerec';
 
 // Constants
 const DEFAULT_TAB_SIZE = 3;
 const DEFAULT_TAB_CHAR = ' ';
 
+// Fixed-form D-spec columns (1-based, inclusive)
+const FIXED_FORMAT: StructureFormat = 'D-SPEC';
+const FIXED_SPEC_PREFIX = '     D';
+const FIXED_NAME_START = 7;
+const FIXED_NAME_END = 21;
+const FIXED_KEYWORDS_START = 44;
+const FIXED_KEYWORDS_END = 80;
+const FIXED_TEMPLATE_SUFFIX = '_t';
+const FIXED_COMMENT_START = 81;
+const FIXED_COMMENT_END = 100;
+
 /**
  * Configuration for code generation indentation
  */
@@ -23,6 +35,25 @@ interface IndentationConfig {
     subIndent: string;
 };
 
+/**
+ * Content of a fixed-form D-spec definition, before it is placed in columns
+ */
+interface FixedSpecParts {
+    name: string;
+    /** Column where the name starts (8 for structures, 9 for subfields) */
+    nameStart: number;
+    definitionType: string;
+    /** E in column 22 for externally described structures and subfields */
+    external?: boolean;
+    /** Data structure type in column 23 (S for a program status DS) */
+    dsType?: string;
+    length: string;
+    dataType: string;
+    decimals: string;
+    keywords: string[];
+    comment?: string;
+};
+
 /**
  * Parameters for RPG code generation
  */
@@ -34,6 +65,14 @@ interface RpgCodeParams {
     line: number;
     level: number;
     baseIndent: string;
+    comment?: string;
+    keywords?: string[];
+    /** File (extname) or record format (likerec) of an externally described structure */
+    external?: string;
+    /** Whether the qualified keyword is left out */
+    unqualified?: boolean;
+    /** Format used instead of the configured one, to keep the format of a structure in a source */
+    structureFormat?: StructureFormat;
 };
 
 /**
@@ -97,6 +136,28 @@ function calculateIndentation(line: number, level: number, baseIndent: string):
     return { tab, headIndent, subIndent };
 };
 
+/**
+ * Adds a comment to a generated declaration, as a trailing // comment
+ * or as a leading comment line, depending on the configuration
+ * @param declaration - Generated declaration line
+ * @param comment - Comment text (optional)
+ * @param indent - Indentation of the declaration
+ * @returns Declaration with its comment
+ */
+function addComment(declaration: string, comment: string | undefined, indent: string): string {
+    const text = comment?.trim();
+    
+    if (!text) {
+        return declaration;
+    };
+    
+    if (currentConfiguration.commentStyle === 'leading') {
+        return `${indent}// ${text}\n${declaration}`;
+    };
+    
+    return `${declaration} // ${text}`;
+};
+
 /**
  * Generates the header line for RPG structure declaration
  * @param name - Structure name
@@ -105,6 +166,11 @@ function calculateIndentation(line: number, level: number, baseIndent: string):
  * @param level - Current nesting level
  * @param line - Current line number
  * @param headIndent - Header indentation string
+ * @param comment - Structure comment (optional)
+ * @param keywords - Additional keywords of the structure (optional)
+ * @param external - File or record format of an externally described structure (optional)
+ * @param closed - Whether end-ds is added to the header, for structures without subfields
+ * @param unqualified - Whether the qualified keyword is left out
  * @returns Generated header string
  */
 function generateStructureHeader(
@@ -113,7 +179,12 @@ function generateStructureHeader(
     dimension: string | undefined, 
     level: number, 
     line: number, 
-    headIndent: string
+    headIndent: string,
+    comment?: string,
+    keywords?: string[],
+    external?: string,
+    closed: boolean = false,
+    unqualified: boolean = false
 ): string {
 
     const format = FORMAT_MAP[currentConfiguration.structureFormat as StructureFormat];
@@ -125,8 +196,16 @@ function generateStructureHeader(
     // Start building the header
     let header = `${headIndent}${format.dclds} ${name.trim()}`;
     
-    // Add qualified keyword for top-level structures
-    if (level === 0) {
+    // Add the file or record format of externally described structures
+    const ext = isExtDeclaration(name, type, external, keywords);
+    if (ext) {
+        header += ` ${formatTypeKeyword('ext', format.keywordCase)}`;
+    } else if (type === 'extname' || type === 'likerec') {
+        header += ` ${formatExternalKeyword(type, external ?? '', format.keywordCase, false)}`;
+    };
+    
+    // Add qualified keyword for top-level structures (likerec structures are always qualified)
+    if (level === 0 && type !== 'likerec' && !unqualified) {
         header += ` ${format.qualified}`;
     };
     
@@ -138,7 +217,82 @@ function generateStructureHeader(
         header += ` ${format.template}`;
     };
     
-    return header + ';';
+    // Add the additional keywords of the structure, such as psds
+    for (const keyword of withoutExt(keywords ?? [])) {
+        header += ` ${formatStructureKeyword(keyword, format.keywordCase)}`;
+    };
+    
+    // An extname structure without subfields ends on its declaration
+    if (closed) {
+        header += ` ${format.endds}`;
+    };
+    
+    return addComment(header + ';', comment, headIndent);
+};
+
+/**
+ * Applies the keyword case of a format to a structure keyword and to the special
+ * values of its parameter (inz(*extdft), align(*full), ccsid(*exact)...).
+ * Title case keeps the special values in lowercase.
+ * @param keyword - Keyword with its parameter, as entered
+ * @param keywordCase - Case of the format
+ * @returns Keyword in the requested case
+ */
+function formatStructureKeyword(keyword: string, keywordCase: KeywordCase): string {
+    return formatSpecialValues(formatTypeKeyword(keyword.trim(), keywordCase), keywordCase);
+};
+
+/**
+ * Applies the keyword case of a format to the special values of a parameter (*extdft, *ymd/...)
+ * @param text - Parameter or keyword with its parameter
+ * @param keywordCase - Case of the format
+ * @returns Text with the special values in uppercase for the upper case style, in lowercase otherwise
+ */
+function formatSpecialValues(text: string, keywordCase: KeywordCase): string {
+    return text.replace(/\*[a-zA-Z]+/g, special => keywordCase === 'upper' ? special.toUpperCase() : special.toLowerCase());
+};
+
+/**
+ * Checks whether an extname structure is generated with ext, which uses the file named like
+ * the structure. ext is kept from the source while the file still has the name of the structure.
+ * @param name - Structure name
+ * @param type - Structure type
+ * @param external - File of the structure, with its optional second parameter
+ * @param keywords - Additional keywords of the structure
+ * @returns True if the structure is declared with ext
+ */
+function isExtDeclaration(name: string, type: StructureType, external: string | undefined, keywords: string[] = []): boolean {
+    const file = (external ?? '').trim().replace(/^'|'$/g, '');
+    return type === 'extname' &&
+        keywords.some(keyword => keyword.trim().toLowerCase() === 'ext') &&
+        file.toUpperCase() === name.trim().toUpperCase();
+};
+
+/**
+ * Removes ext from the additional keywords, as it is generated with the file of the structure
+ * @param keywords - Additional keywords of the structure
+ * @returns Keywords without ext
+ */
+function withoutExt(keywords: string[]): string[] {
+    return keywords.filter(keyword => keyword.trim().toLowerCase() !== 'ext');
+};
+
+/**
+ * Formats the extname or likerec keyword of an externally described structure.
+ * Free-form extname takes the file name as a literal, fixed-form takes it as a name.
+ * @param type - extname or likerec
+ * @param external - File or record format, with its optional second parameter (CUSTMAST:*INPUT)
+ * @param keywordCase - Case of the format
+ * @param fixed - Whether the keyword is generated for a fixed-form D-spec
+ * @returns Keyword with its parameter
+ */
+function formatExternalKeyword(type: StructureType, external: string, keywordCase: KeywordCase, fixed: boolean): string {
+    const [name, ...rest] = external.split(':').map(part => part.trim());
+    const unquoted = type === 'extname' ? name.replace(/^'|'$/g, '').toUpperCase() : name;
+    const target = type === 'extname' && !fixed ? `'${unquoted}'` : unquoted;
+    const usage = rest.map(part => `:${part.toUpperCase()}`).join('');
+
+    return `${formatTypeKeyword(type, keywordCase)}(${target}${usage})`;
 };
 
 /**
@@ -149,14 +303,17 @@ function generateStructureHeader(
  * @returns Dimension clause string (may be empty)
  */
 function generateDimensionClause(type: StructureType, dimension: string | undefined, format: any): string {
-    if (!dimension || !dimension.toString().trim() || !type.trim()) {
+    const dimensionValue = dimension?.toString().trim();
+    
+    // A dimension of 0 means the structure is not an array
+    if (!dimensionValue || dimensionValue === '0' || !type.trim()) {
         return '';
     };
     
-    const dimensionValue = dimension.toString().trim();
-    
     switch (type) {
         case 'Default':
+        case 'extname':
+        case 'likerec':
             return ` ${format.dimx}(${dimensionValue})`;
         case '*var':
             return ` ${format.dimx}(${format.varx}:${dimensionValue})`;
@@ -184,15 +341,33 @@ function generateFieldLine(field: Field, subIndent: string): string {
         throw new Error(`Unknown structure format: ${currentConfiguration.structureFormat}`);
     };
     
-    // Get the appropriate type from the type map or use the original type
-    const typeUsed = format.typeMap?.[field.type] ?? field.type;
+    // Subfields of an extname structure only name the external field they rename
+    if (field.extfld !== undefined) {
+        return generateExternalFieldLine(field, subIndent);
+    };
+    
+    // Get the keyword from the type registry in the format's case, or use the original type;
+    // likeds, like and likerec fields carry their keyword in the type
+    const definition = field.reference === undefined ? findDataType(field.type) : undefined;
+    const typeUsed = definition || field.reference !== undefined
+        ? formatTypeKeyword(definition?.keyword ?? field.type, format.keywordCase)
+        : field.type;
     
     // Start building the field line
     let line = `${subIndent}${field.name.trim()} ${typeUsed}`;
     
-    // Add length specification if provided
-    if (field.length?.toString().trim()) {
-        line += `(${field.length.toString().trim()})`;
+    // Add the referenced name, or the length specification if provided (aliases already carry their parameter)
+    if (field.reference !== undefined) {
+        line += `(${field.reference.trim()})`;
+    } else if (field.length?.toString().trim() && !(definition && hasKeywordParameter(definition))) {
+        line += `(${formatSpecialValues(field.length.toString().trim(), format.keywordCase)})`;
+    };
+    
+    // Add the overlaid subfield or the starting position if provided
+    if (field.overlay?.trim()) {
+        line += ` ${formatTypeKeyword('overlay', format.keywordCase)}(${field.overlay.trim()})`;
+    } else if (field.pos) {
+        line += ` ${formatTypeKeyword('pos', format.keywordCase)}(${field.pos})`;
     };
     
     // Add initialization value if provided
@@ -205,7 +380,30 @@ function generateFieldLine(field: Field, subIndent: string): string {
         line += ` ${format.dimx}(${field.dim.toString().trim()})`;
     };
     
-    return line + ';';
+    return addComment(line + ';', field.comment, subIndent);
+};
+
+/**
+ * Generates the line of a subfield renaming a field of the file of an extname structure.
+ * A subfield with the name of the external field only gives it an initial value.
+ * @param field - Field object to generate code for
+ * @param subIndent - Indentation for field lines
+ * @returns Generated field line string
+ */
+function generateExternalFieldLine(field: Field, subIndent: string): string {
+    const format = FORMAT_MAP[currentConfiguration.structureFormat as StructureFormat];
+    const externalName = field.extfld?.trim() ?? '';
+    
+    let line = `${subIndent}${field.name.trim()} ${formatTypeKeyword('extfld', format.keywordCase)}`;
+    if (externalName && externalName.toUpperCase() !== field.name.trim().toUpperCase()) {
+        line += `('${externalName.toUpperCase()}')`;
+    };
+    
+    if (field.init?.trim()) {
+        line += ` ${format.inz}(${field.init.trim()})`;
+    };
+    
+    return addComment(line + ';', field.comment, subIndent);
 };
 
 /**
@@ -235,7 +433,8 @@ function generateStructureBody(
                     fields: field.fields || [],
                     line: line + index + 1,
                     level: level + 1,
-                    baseIndent
+                    baseIndent,
+                    comment: field.comment
                 });
             } else {
                 // Generate regular field line
@@ -286,7 +485,23 @@ function generateStructureFooter(headIndent: string): string {
  * ```
  */
 export function generateRpgCode(params: RpgCodeParams): string {
-    const { name, type, dimension, fields, line, level, baseIndent } = params;
+    if (params.structureFormat && params.structureFormat !== currentConfiguration.structureFormat) {
+        // The generators read the format from the configuration, so it is swapped for this call only
+        const configuredFormat = currentConfiguration.structureFormat;
+        currentConfiguration.structureFormat = params.structureFormat;
+        try {
+            return generateRpgCode({ ...params, structureFormat: undefined });
+        } finally {
+            currentConfiguration.structureFormat = configuredFormat;
+        };
+    };
+
+    const { name, type, dimension, fields, line, level, baseIndent, comment, keywords, external, unqualified } = params;
+    
+    // Fixed-form output has its own column-based generator
+    if (currentConfiguration.structureFormat === FIXED_FORMAT && level === 0) {
+        return generateFixedFormCode(params);
+    };
     
     try {
         // Validate input parameters
@@ -295,8 +510,13 @@ export function generateRpgCode(params: RpgCodeParams): string {
         // Calculate indentation
         const { headIndent, subIndent } = calculateIndentation(line, level, baseIndent);
         
+        // likerec structures have no subfields and no end-ds, extname structures without subfields end on one line
+        if (type === 'likerec' || (type === 'extname' && fields.length === 0)) {
+            return generateStructureHeader(name, type, dimension, level, line, headIndent, comment, keywords, external, type === 'extname', unqualified);
+        };
+        
         // Generate structure components
-        const header = generateStructureHeader(name, type, dimension, level, line, headIndent);
+        const header = generateStructureHeader(name, type, dimension, level, line, headIndent, comment, keywords, external, false, unqualified);
         const body = generateStructureBody(fields, baseIndent, line, level, subIndent);
         const footer = generateStructureFooter(headIndent);
         
@@ -309,6 +529,338 @@ export function generateRpgCode(params: RpgCodeParams): string {
     };
 };
 
+/**
+ * Places a fixed-form definition in its columns, adding "..." name continuation
+ * lines for long names and keyword continuation lines when needed
+ * @param parts - Content of the definition
+ * @returns Generated D-spec lines
+ */
+function buildFixedSpecLines(parts: FixedSpecParts): string[] {
+    const lines: string[] = [];
+    const namePadding = ' '.repeat(parts.nameStart - FIXED_NAME_START);
+    let name = parts.name.trim();
+
+    // Names that do not fit in columns 7-21 go on continuation lines ending with "..."
+    if (namePadding.length + name.length > FIXED_NAME_END - FIXED_NAME_START + 1) {
+        const chunkSize = FIXED_KEYWORDS_END - FIXED_NAME_START + 1 - namePadding.length - 3;
+        for (let i = 0; i < name.length; i += chunkSize) {
+            lines.push(`${FIXED_SPEC_PREFIX}${namePadding}${name.substring(i, i + chunkSize)}...`);
+        };
+        name = '';
+    };
+
+    const definition =
+        FIXED_SPEC_PREFIX +
+        (namePadding + name).padEnd(FIXED_NAME_END - FIXED_NAME_START + 1) +
+        (parts.external ? 'E' : ' ') +
+        (parts.dsType ?? '').padEnd(1) +
+        parts.definitionType.padEnd(2) +
+        ''.padStart(7) +
+        parts.length.padStart(7) +
+        parts.dataType.padEnd(1) +
+        parts.decimals.padStart(2) +
+        ' ';
+
+    // Keywords are wrapped over continuation lines with columns 7-43 blank
+    const keywordWidth = FIXED_KEYWORDS_END - FIXED_KEYWORDS_START + 1;
+    const keywordLines: string[] = [];
+    for (const keyword of parts.keywords) {
+        const last = keywordLines.length - 1;
+        if (last >= 0 && keywordLines[last].length + 1 + keyword.length <= keywordWidth) {
+            keywordLines[last] += ` ${keyword}`;
+        } else {
+            keywordLines.push(keyword);
+        };
+    };
+
+    lines.push((definition + (keywordLines[0] ?? '')).trimEnd());
+    for (const keywords of keywordLines.slice(1)) {
+        lines.push(FIXED_SPEC_PREFIX.padEnd(FIXED_KEYWORDS_START - 1) + keywords);
+    };
+
+    return addFixedComment(lines, parts.comment);
+};
+
+/**
+ * Adds a comment to fixed-form definition lines, in columns 81-100 of the
+ * definition line or as a leading comment line, depending on the configuration.
+ * Comments that do not fit in columns 81-100 always use a comment line.
+ * @param lines - Generated definition lines
+ * @param comment - Comment text (optional)
+ * @returns Definition lines with their comment
+ */
+function addFixedComment(lines: string[], comment: string | undefined): string[] {
+    const text = comment?.trim();
+    const commentWidth = FIXED_COMMENT_END - FIXED_COMMENT_START + 1;
+
+    if (!text) {
+        return lines;
+    };
+
+    if (currentConfiguration.commentStyle === 'leading' || text.length > commentWidth) {
+        return [`${FIXED_SPEC_PREFIX}* ${text}`, ...lines];
+    };
+
+    const last = lines.length - 1;
+    return [...lines.slice(0, last), lines[last].padEnd(FIXED_COMMENT_START - 1) + text];
+};
+
+/**
+ * Generates the fixed-form dimension keyword for a structure
+ * @param type - Structure type
+ * @param dimension - Dimension value
+ * @returns Keyword list (empty if the structure has no dimension)
+ */
+function generateFixedDimension(type: StructureType, dimension: string | undefined): string[] {
+    const format = FORMAT_MAP[FIXED_FORMAT];
+    const dimensionValue = dimension?.toString().trim();
+
+    if (!dimensionValue || dimensionValue === '0') {
+        return [];
+    };
+
+    switch (type) {
+        case 'Default':
+        case 'extname':
+        case 'likerec':
+            return [`${format.dimx}(${dimensionValue})`];
+        case '*var':
+            return [`${format.dimx}(${format.varx}:${dimensionValue})`];
+        case '*auto':
+            return [`${format.dimx}(${format.autox}:${dimensionValue})`];
+        default:
+            return [];
+    };
+};
+
+/**
+ * Generates the fixed-form POS or OVERLAY keyword of a subfield
+ * @param field - Field object to generate code for
+ * @returns Keyword list (empty if the subfield follows the previous one)
+ */
+function generateFixedPlacement(field: Field): string[] {
+    if (field.overlay?.trim()) {
+        return [`OVERLAY(${field.overlay.trim()})`];
+    };
+    return field.pos ? [`POS(${field.pos})`] : [];
+};
+
+/**
+ * Generates the D-spec lines of a single subfield
+ * @param field - Field object to generate code for
+ * @returns Generated D-spec lines
+ */
+function generateFixedFieldLines(field: Field): string[] {
+    const format = FORMAT_MAP[FIXED_FORMAT];
+
+    // Subfields of an extname structure are marked with E and name the external field they rename
+    if (field.extfld !== undefined) {
+        const externalName = field.extfld.trim().toUpperCase();
+        const keywords = externalName && externalName !== field.name.trim().toUpperCase() ? [`EXTFLD(${externalName})`] : [];
+        if (field.init?.trim()) {
+            keywords.push(`${format.inz}(${field.init.trim()})`);
+        };
+
+        return buildFixedSpecLines({
+            name: field.name,
+            nameStart: FIXED_NAME_START + 2,
+            external: true,
+            definitionType: '',
+            length: '',
+            dataType: '',
+            decimals: '',
+            keywords,
+            comment: field.comment
+        });
+    };
+
+    const keywords: string[] = [];
+    const [size, decimals] = (field.length?.toString().trim() ?? '').split(':');
+    const definition = field.reference === undefined ? findDataType(field.type) : undefined;
+
+    let length = '';
+    let decimalPositions = '';
+
+    // likeds, like and likerec fields are declared by keyword
+    if (field.reference !== undefined) {
+        keywords.push(`${field.type.toUpperCase()}(${field.reference.trim()})`);
+    };
+
+    keywords.push(...generateFixedPlacement(field));
+
+    if (definition && !definition.fixedType) {
+        // Types without a data type letter, such as LIKE(...) aliases, are declared by keyword
+        keywords.push(formatTypeKeyword(definition.keyword, format.keywordCase));
+    } else if (definition) {
+        switch (definition.lengthSyntax) {
+            case 'varying':
+                length = size;
+                keywords.push(decimals ? `VARYING(${decimals})` : 'VARYING');
+                break;
+            case 'none':
+                // Indicator and pointer have an implicit length
+                break;
+            case 'dateFormat':
+            case 'timeFormat':
+                // Date and time formats are given by keyword, the length follows from the format
+                if (field.length?.toString().trim()) {
+                    const keyword = definition.lengthSyntax === 'dateFormat' ? 'DATFMT' : 'TIMFMT';
+                    keywords.push(`${keyword}(${field.length.toString().trim().toUpperCase()})`);
+                };
+                break;
+            case 'fraction':
+                // Timestamps with another precision than 6 are declared with their length in bytes
+                length = size ? timestampSize(parseInt(size, 10))?.toString() ?? '' : '';
+                break;
+            default:
+                length = size;
+                break;
+        };
+
+        if (definition.fixedDecimals) {
+            decimalPositions = decimals ?? '0';
+        };
+    };
+
+    if (field.init?.trim()) {
+        keywords.push(`${format.inz}(${field.init.trim()})`);
+    };
+
+    if (field.dim?.toString().trim()) {
+        keywords.push(`${format.dimx}(${field.dim.toString().trim()})`);
+    };
+
+    return buildFixedSpecLines({
+        name: field.name,
+        nameStart: FIXED_NAME_START + 2,
+        definitionType: '',
+        length,
+        dataType: definition?.fixedType ?? '',
+        decimals: decimalPositions,
+        keywords,
+        comment: field.comment
+    });
+};
+
+/**
+ * Generates a fixed-form data structure and its subfields.
+ * Fixed-form does not allow nested structures, so substructures are generated
+ * first as separate TEMPLATE structures and referenced with LIKEDS.
+ * @param name - Structure name
+ * @param type - Structure type
+ * @param dimension - Structure dimension (optional)
+ * @param fields - Array of field objects
+ * @param isTemplate - Whether the structure is generated for a substructure
+ * @param comment - Structure comment (optional)
+ * @param structureKeywords - Additional keywords of the structure (optional)
+ * @param external - File or record format of an externally described structure (optional)
+ * @param unqualified - Whether the QUALIFIED keyword is left out
+ * @returns Generated D-spec lines, including the templates of substructures
+ */
+function generateFixedStructureLines(
+    name: string,
+    type: StructureType,
+    dimension: string | undefined,
+    fields: Field[],
+    isTemplate: boolean,
+    comment?: string,
+    structureKeywords: string[] = [],
+    external?: string,
+    unqualified: boolean = false
+): string[] {
+    const format = FORMAT_MAP[FIXED_FORMAT];
+    const templates: string[] = [];
+    const body: string[] = [];
+
+    for (const field of fields) {
+        if (field.isStructure) {
+            const templateName = `${field.name.trim()}${FIXED_TEMPLATE_SUFFIX}`;
+            templates.push(...generateFixedStructureLines(templateName, 'template', undefined, field.fields || [], true));
+
+            const keywords = [`LIKEDS(${templateName})`, ...generateFixedPlacement(field)];
+            if (field.length?.toString().trim()) {
+                keywords.push(`${format.dimx}(${field.length.toString().trim()})`);
+            };
+
+            body.push(...buildFixedSpecLines({
+                name: field.name,
+                nameStart: FIXED_NAME_START + 2,
+                definitionType: '',
+                length: '',
+                dataType: '',
+                decimals: '',
+                keywords,
+                comment: field.comment
+            }));
+        } else {
+            body.push(...generateFixedFieldLines(field));
+        };
+    };
+
+    // extname structures are marked with E, which alone uses the file named like the structure,
+    // likerec structures are always qualified
+    const keywords: string[] = [];
+    if ((type === 'extname' && !isExtDeclaration(name, type, external, structureKeywords)) || type === 'likerec') {
+        keywords.push(formatExternalKeyword(type, external ?? '', format.keywordCase, true));
+    };
+    if (type !== 'likerec' && !unqualified) {
+        keywords.push(format.qualified);
+    };
+
+    if (type === 'template' || isTemplate) {
+        keywords.push(format.template);
+    } else {
+        keywords.push(...generateFixedDimension(type, dimension));
+    };
+
+    // A program status DS is marked with S in column 23 and a data area DS with U,
+    // the other keywords go in the keyword area
+    const dsTypes: Record<string, string> = { 'psds': 'S', 'dtaara(*auto)': 'U' };
+    const normalized = (keyword: string): string => keyword.replace(/\s+/g, '').toLowerCase();
+    const dsType = structureKeywords.map(keyword => dsTypes[normalized(keyword)]).find(Boolean) ?? '';
+    keywords.push(...withoutExt(structureKeywords)
+        .filter(keyword => !dsTypes[normalized(keyword)])
+        .map(keyword => formatStructureKeyword(keyword, format.keywordCase)));
+
+    const header = buildFixedSpecLines({
+        name,
+        nameStart: FIXED_NAME_START + 1,
+        external: type === 'extname',
+        dsType,
+        definitionType: format.dclds,
+        length: '',
+        dataType: '',
+        decimals: '',
+        keywords,
+        comment
+    });
+
+    return [...templates, ...header, ...body];
+};
+
+/**
+ * Generates the RPG structure as column-accurate fixed-form D-specs
+ * @param params - Parameters for code generation (indentation is ignored,
+ * as fixed-form definitions always start in column 6)
+ * @returns Generated D-spec code as a string
+ * @throws Error if generation fails
+ */
+export function generateFixedFormCode(params: RpgCodeParams): string {
+    const { name, type, dimension, fields, comment, keywords, external, unqualified } = params;
+
+    try {
+        validateRpgCodeParams(params);
+
+        // likerec structures have no subfields
+        const subfields = type === 'likerec' ? [] : fields;
+        return generateFixedStructureLines(name, type, dimension, subfields, false, comment, keywords, external, unqualified).join('\n');
+
+    } catch (error) {
+        console.error('Error generating fixed-form RPG code:', error);
+        throw new Error(`Failed to generate fixed-form RPG code for structure '${name}': ${error instanceof Error ? error.message : String(error)}`);
+    };
+};
+
 /**
  * Convenience function for generating RPG code with individual parameters
  * @deprecated Use generateRpgCode with params object instead
@@ -5,6 +5,7 @@
 */
 
 import * as vscode from 'vscode';
+import { DataTypeDefinition, DiagnosticCheck, DiagnosticLevel, isValidStructureFormat } from './rpg-structure.model';
 
 /**
  * Configuration interface for the RPG Structure extension.
@@ -15,6 +16,16 @@ export interface Configuration {
     structureFormat: string;
     /** Number of spaces used for indentation in generated code */
     indentation?: number;
+    /** Whether subfields of substructures are prefixed with the substructure name in SQL tables */
+    sqlPrefixSubfields?: boolean;
+    /** SQL type used for indicator fields in SQL tables ('CHAR(1)' or 'BOOLEAN') */
+    sqlIndicatorType?: string;
+    /** Placement of comments in generated code ('trailing' or 'leading') */
+    commentStyle?: string;
+    /** User-defined data types, added to or overriding the built-in types by name */
+    dataTypes?: DataTypeDefinition[];
+    /** Severity of each check of the structures in open documents */
+    diagnostics?: Record<DiagnosticCheck, DiagnosticLevel>;
 };
 
 /**
@@ -23,13 +34,50 @@ export interface Configuration {
  */
 const DEFAULT_CONFIGURATION: Readonly<Configuration> = {
     structureFormat: 'dcl-ds',
-    indentation: 3
+    indentation: 3,
+    sqlPrefixSubfields: true,
+    sqlIndicatorType: 'CHAR(1)',
+    commentStyle: 'trailing',
+    dataTypes: [],
+    diagnostics: {
+        duplicateName: 'error',
+        templateDimension: 'warning',
+        decimalPositions: 'error',
+        initLength: 'error',
+        unmatchedEndDs: 'error',
+        unparsedLine: 'warning',
+        nameLength: 'error'
+    }
 } as const;
 
 /**
- * Global storage key used for persisting configuration in VS Code's global state.
+ * Section of the VS Code settings that holds the extension configuration.
  */
-const CONFIGURATION_STORAGE_KEY = 'rpgStructure.config' as const;
+const CONFIGURATION_SECTION = 'rpgStructure' as const;
+
+/**
+ * Search query that shows the extension settings in the Settings editor.
+ */
+export const SETTINGS_QUERY = '@ext:ChristianLarsen.rpg-structure' as const;
+
+/**
+ * Global state key used by earlier versions to persist the configuration.
+ * Its value is migrated to the settings on first load.
+ */
+const LEGACY_STORAGE_KEY = 'rpgStructure.config' as const;
+
+/**
+ * Configuration properties stored as settings (rpgStructure.<key>).
+ */
+const SETTING_KEYS: ReadonlyArray<keyof Configuration> = [
+    'structureFormat',
+    'indentation',
+    'sqlPrefixSubfields',
+    'sqlIndicatorType',
+    'commentStyle',
+    'dataTypes',
+    'diagnostics'
+];
 
 /**
  * Current active configuration instance.
@@ -38,60 +86,153 @@ const CONFIGURATION_STORAGE_KEY = 'rpgStructure.config' as const;
 export let currentConfiguration: Configuration;
 
 /**
- * Loads configuration from VS Code's global state storage.
- * If no saved configuration exists, uses default values and saves them.
- * Ensures backward compatibility by setting missing properties to defaults.
+ * Loads configuration from the VS Code settings, after migrating the
+ * configuration saved in global state by earlier versions.
  * 
  * @param context The VS Code extension context for accessing global state
- * @returns The loaded or default configuration
+ * @returns Promise that resolves to the loaded configuration
  */
-export function loadConfiguration(context: vscode.ExtensionContext): Configuration {
-    const savedConfig = context.globalState.get<Configuration>(CONFIGURATION_STORAGE_KEY);
-    
-    // Use saved config or fallback to defaults
-    currentConfiguration = savedConfig ? { ...savedConfig } : { ...DEFAULT_CONFIGURATION };
+export async function loadConfiguration(context: vscode.ExtensionContext): Promise<Configuration> {
+    // The settings are read once the migration has written them
+    await migrateLegacyConfiguration(context);
     
-    // Ensure backward compatibility - set missing properties to defaults
-    if (currentConfiguration.indentation === undefined) {
-        currentConfiguration.indentation = DEFAULT_CONFIGURATION.indentation;
-    };
+    return reloadConfiguration();
+};
+
+/**
+ * Reads the configuration from the VS Code settings.
+ * Folder, workspace and user settings take precedence in that order, for the folder
+ * of the active editor.
+ * 
+ * @returns The current configuration
+ */
+export function reloadConfiguration(): Configuration {
+    const settings = getSettings();
+    const structureFormat = settings.get<string>('structureFormat', DEFAULT_CONFIGURATION.structureFormat);
     
-    // Save default configuration if none existed
-    if (!savedConfig) {
-        void context.globalState.update(CONFIGURATION_STORAGE_KEY, currentConfiguration);
+    currentConfiguration = {
+        structureFormat: isValidStructureFormat(structureFormat) ? structureFormat : DEFAULT_CONFIGURATION.structureFormat,
+        indentation: settings.get<number>('indentation', DEFAULT_CONFIGURATION.indentation!),
+        sqlPrefixSubfields: settings.get<boolean>('sqlPrefixSubfields', DEFAULT_CONFIGURATION.sqlPrefixSubfields!),
+        sqlIndicatorType: settings.get<string>('sqlIndicatorType', DEFAULT_CONFIGURATION.sqlIndicatorType!),
+        commentStyle: settings.get<string>('commentStyle', DEFAULT_CONFIGURATION.commentStyle!),
+        dataTypes: settings.get<DataTypeDefinition[]>('dataTypes', []),
+        diagnostics: {
+            ...DEFAULT_CONFIGURATION.diagnostics!,
+            ...settings.get<Partial<Record<DiagnosticCheck, DiagnosticLevel>>>('diagnostics', {})
+        }
     };
     
     return currentConfiguration;
 };
 
 /**
- * Saves the provided configuration to VS Code's global state storage
+ * Checks whether a configuration change event affects the extension settings.
+ * 
+ * @param event The configuration change event
+ * @returns True if any rpgStructure setting changed
+ */
+export function affectsConfiguration(event: vscode.ConfigurationChangeEvent): boolean {
+    return event.affectsConfiguration(CONFIGURATION_SECTION);
+};
+
+/**
+ * Saves the provided configuration to the VS Code settings
  * and updates the current configuration instance.
+ * Each changed setting is written where it is currently defined (folder, workspace or user).
  * 
- * @param context The VS Code extension context for accessing global state
  * @param newConfig The new configuration to save
  * @returns Promise that resolves when the configuration is saved
  */
-export async function saveConfiguration(
-    context: vscode.ExtensionContext, 
-    newConfig: Configuration
-): Promise<void> {
+export async function saveConfiguration(newConfig: Configuration): Promise<void> {
     // Validate and merge with defaults to ensure completeness
     const validatedConfig: Configuration = {
         structureFormat: newConfig.structureFormat || DEFAULT_CONFIGURATION.structureFormat,
-        indentation: newConfig.indentation ?? DEFAULT_CONFIGURATION.indentation
+        indentation: newConfig.indentation ?? DEFAULT_CONFIGURATION.indentation,
+        sqlPrefixSubfields: newConfig.sqlPrefixSubfields ?? DEFAULT_CONFIGURATION.sqlPrefixSubfields,
+        sqlIndicatorType: newConfig.sqlIndicatorType || DEFAULT_CONFIGURATION.sqlIndicatorType,
+        commentStyle: newConfig.commentStyle || DEFAULT_CONFIGURATION.commentStyle,
+        dataTypes: newConfig.dataTypes ?? [],
+        diagnostics: newConfig.diagnostics ?? DEFAULT_CONFIGURATION.diagnostics
     };
     
     currentConfiguration = validatedConfig;
     
     try {
-        await context.globalState.update(CONFIGURATION_STORAGE_KEY, currentConfiguration);
+        const settings = getSettings();
+        for (const key of SETTING_KEYS) {
+            if (JSON.stringify(settings.get(key)) === JSON.stringify(validatedConfig[key])) {
+                continue;
+            };
+            await settings.update(key, validatedConfig[key], getConfigurationTarget(settings.inspect(key)));
+        };
     } catch (error) {
         console.error('Failed to save RPG Structure configuration:', error);
         throw new Error('Failed to save configuration');
     };
 };
 
+/**
+ * Returns the extension settings for the folder of the active editor.
+ * 
+ * @returns The settings of the rpgStructure section
+ */
+function getSettings(): vscode.WorkspaceConfiguration {
+    return vscode.workspace.getConfiguration(CONFIGURATION_SECTION, vscode.window.activeTextEditor?.document.uri);
+};
+
+/**
+ * Determines where a setting is written: at the most specific level where it is
+ * already defined, or in the user settings otherwise.
+ * 
+ * @param inspected The values of the setting at every level
+ * @returns The configuration target to update
+ */
+function getConfigurationTarget(inspected: ReturnType<vscode.WorkspaceConfiguration['inspect']>): vscode.ConfigurationTarget {
+    if (inspected?.workspaceFolderValue !== undefined) {
+        return vscode.ConfigurationTarget.WorkspaceFolder;
+    };
+    if (inspected?.workspaceValue !== undefined) {
+        return vscode.ConfigurationTarget.Workspace;
+    };
+    return vscode.ConfigurationTarget.Global;
+};
+
+/**
+ * Moves the configuration saved in global state by earlier versions to the user settings.
+ * Settings already defined by the user are kept, and the global state value is removed.
+ * 
+ * @param context The VS Code extension context for accessing global state
+ * @returns Promise that resolves when the migration is done
+ */
+async function migrateLegacyConfiguration(context: vscode.ExtensionContext): Promise<void> {
+    const legacyConfig = context.globalState.get<Configuration>(LEGACY_STORAGE_KEY);
+    
+    if (!legacyConfig) {
+        return;
+    };
+    
+    try {
+        const settings = vscode.workspace.getConfiguration(CONFIGURATION_SECTION);
+        for (const key of SETTING_KEYS) {
+            const value = legacyConfig[key];
+            const inspected = settings.inspect(key);
+            
+            if (value === undefined || inspected?.globalValue !== undefined) {
+                continue;
+            };
+            if (JSON.stringify(value) === JSON.stringify(inspected?.defaultValue)) {
+                continue;
+            };
+            await settings.update(key, value, vscode.ConfigurationTarget.Global);
+        };
+        
+        await context.globalState.update(LEGACY_STORAGE_KEY, undefined);
+    } catch (error) {
+        console.error('Failed to migrate RPG Structure configuration:', error);
+    };
+};
+
 /**
  * Gets the current active configuration.
  * This should be called after loadConfiguration has been invoked at least once.
@@ -109,23 +250,20 @@ export function getConfiguration(): Configuration {
 /**
  * Resets the configuration to default values.
  * 
- * @param context The VS Code extension context for accessing global state
  * @returns Promise that resolves when the configuration is reset
  */
-export async function resetConfiguration(context: vscode.ExtensionContext): Promise<void> {
-    await saveConfiguration(context, { ...DEFAULT_CONFIGURATION });
+export async function resetConfiguration(): Promise<void> {
+    await saveConfiguration({ ...DEFAULT_CONFIGURATION });
 };
 
 /**
  * Updates a specific configuration property while preserving others.
  * 
- * @param context The VS Code extension context for accessing global state
  * @param key The configuration property to update
  * @param value The new value for the property
  * @returns Promise that resolves when the configuration is updated
  */
 export async function updateConfigurationProperty<K extends keyof Configuration>(
-    context: vscode.ExtensionContext,
     key: K,
     value: Configuration[K]
 ): Promise<void> {
@@ -134,7 +272,7 @@ export async function updateConfigurationProperty<K extends keyof Configuration>
         [key]: value
     };
     
-    await saveConfiguration(context, updatedConfig);
+    await saveConfiguration(updatedConfig);
 };
 
 /**
@@ -0,0 +1,458 @@
+/*
+	Christian Larsen, 2025
+	"RPG structure"
+	rpg-structure.dds.ts
+*/
+
+import { Field } from './rpg-structure.model';
+import { RpgStructureParser } from './rpg-structure.parser';
+
+/**
+ * DDS support for RPG Structure extension.
+ * Reads physical and logical file sources (A-specs) and converts their
+ * record formats into the structure model.
+ */
+
+// INTERFACES
+
+/**
+ * A record format converted into structure fields.
+ */
+export interface DdsRecordFormat {
+    /** Record format name */
+    name: string;
+    /** Text of the record format (TEXT keyword) */
+    text?: string;
+    /** Fields of the record format */
+    fields: Field[];
+    /** Key fields of the record format, in key order */
+    keys: string[];
+};
+
+/**
+ * Result of parsing a DDS source.
+ */
+export interface DdsParseResult {
+    /** Record formats found in the source */
+    formats: DdsRecordFormat[];
+    /** Problems found while parsing (fields that were skipped) */
+    errors: string[];
+};
+
+/**
+ * A field or record format line, with its keyword continuation lines.
+ */
+interface DdsEntry {
+    /** Name type from column 17 (R for record formats, K for keys, blank for fields) */
+    nameType: string;
+    /** Name, columns 19-28 */
+    name: string;
+    /** Reference flag, column 29 */
+    reference: boolean;
+    /** Length, columns 30-34 (may be relative, +n or -n) */
+    length: string;
+    /** Data type, column 35 */
+    dataType: string;
+    /** Decimal positions, columns 36-37 */
+    decimals: string;
+    /** Keywords, columns 45-80 */
+    keywords: string;
+};
+
+/**
+ * Record formats and file-level keywords of a DDS source, before conversion.
+ */
+interface DdsSource {
+    fileKeywords: string;
+    formats: Array<{ entry: DdsEntry; fields: DdsEntry[]; keys: string[] }>;
+};
+
+/**
+ * Field definition resolved from a referenced file.
+ */
+interface ResolvedDefinition {
+    length: string;
+    dataType: string;
+    decimals: string;
+    keywords: string;
+};
+
+// CONSTANTS
+
+/** Maximum depth when following REFFLD chains between files */
+const MAX_REFERENCE_DEPTH = 5;
+
+/** Special file name that refers to the same source */
+const SOURCE_REFERENCE = '*SRC';
+
+// LINE PARSING
+
+/**
+ * Returns the text between two 1-based columns (inclusive) of a line
+ */
+function columns(line: string, from: number, to: number): string {
+    return line.substring(from - 1, to);
+};
+
+/**
+ * Checks whether a line is a DDS A-spec that is not a comment
+ */
+function isSpecLine(line: string): boolean {
+    if (line.length < 7 || !/^[aA ]$/.test(line[5])) {
+        return false;
+    };
+    return line[6] !== '*' && columns(line, 7, 80).trim() !== '';
+};
+
+/**
+ * Joins a keyword continuation, removing the "-" or "+" continuation character
+ * @param keywords - Keywords read so far
+ * @param next - Keywords of the continuation line
+ * @returns Joined keywords
+ */
+function joinKeywords(keywords: string, next: string): string {
+    const trimmed = keywords.trimEnd();
+    if (trimmed.endsWith('-') || trimmed.endsWith('+')) {
+        return trimmed.slice(0, -1) + next.trim();
+    };
+    return `${trimmed} ${next.trim()}`.trim();
+};
+
+/**
+ * Reads the record formats and fields of a DDS source
+ * @param content - DDS source text
+ * @returns File-level keywords and record formats with their field entries
+ */
+function readDdsSource(content: string): DdsSource {
+    const source: DdsSource = { fileKeywords: '', formats: [] };
+    let current: DdsEntry | undefined;
+
+    for (const line of content.split(/\r?\n/)) {
+        if (!isSpecLine(line)) {
+            continue;
+        };
+
+        const entry: DdsEntry = {
+            nameType: columns(line, 17, 17).trim().toUpperCase(),
+            name: columns(line, 19, 28).trim(),
+            reference: columns(line, 29, 29).toUpperCase() === 'R',
+            length: columns(line, 30, 34).trim(),
+            dataType: columns(line, 35, 35).trim().toUpperCase(),
+            decimals: columns(line, 36, 37).trim(),
+            keywords: columns(line, 45, 80).trim()
+        };
+
+        // Lines without a name continue the keywords of the previous entry
+        if (!entry.name && !entry.nameType) {
+            if (current) {
+                current.keywords = joinKeywords(current.keywords, entry.keywords);
+            } else {
+                source.fileKeywords = joinKeywords(source.fileKeywords, entry.keywords);
+            };
+            continue;
+        };
+
+        current = entry;
+
+        if (entry.nameType === 'R') {
+            source.formats.push({ entry, fields: [], keys: [] });
+        } else if (entry.nameType === '' && source.formats.length > 0) {
+            source.formats[source.formats.length - 1].fields.push(entry);
+        } else if (entry.nameType === 'K' && source.formats.length > 0) {
+            source.formats[source.formats.length - 1].keys.push(entry.name);
+        };
+    };
+
+    return source;
+};
+
+/**
+ * Removes a library qualifier and uppercases a file name
+ */
+function normalizeFileName(name: string): string {
+    const parts = name.trim().split('/');
+    return parts[parts.length - 1].toUpperCase();
+};
+
+/**
+ * Extracts the first quoted literal of a keyword parameter
+ */
+function unquote(value: string | undefined): string | undefined {
+    const match = value?.match(/'((?:[^']|'')*)'/);
+    return match ? match[1].replace(/''/g, "'") : undefined;
+};
+
+// REFERENCE RESOLUTION
+
+/**
+ * Finds the names of all files referenced by a DDS source
+ * (REF, REFFLD, PFILE and JFILE keywords)
+ * @param content - DDS source text
+ * @returns Uppercased file names, without library
+ */
+export function findDdsReferences(content: string): string[] {
+    const source = readDdsSource(content);
+    const files = new Set<string>();
+    const entries = [
+        source.fileKeywords,
+        ...source.formats.flatMap(format => [format.entry.keywords, ...format.fields.map(field => field.keywords)])
+    ];
+
+    for (const text of entries) {
+        const keywords = RpgStructureParser.parseKeywords(text);
+
+        for (const key of ['REF', 'PFILE', 'JFILE']) {
+            for (const file of (keywords.get(key) ?? '').split(/\s+/).filter(part => part !== '')) {
+                files.add(normalizeFileName(file));
+            };
+        };
+
+        const refFile = (keywords.get('REFFLD') ?? '').split(/\s+/)[1];
+        if (refFile && refFile.toUpperCase() !== SOURCE_REFERENCE) {
+            files.add(normalizeFileName(refFile));
+        };
+    };
+
+    return [...files];
+};
+
+/**
+ * Finds a field definition by name in a DDS source, following its own references
+ * @param source - DDS source to search
+ * @param fieldName - Name of the field
+ * @param sources - Sources of referenced files, by uppercased file name
+ * @param depth - Current reference depth
+ * @returns The resolved definition, or undefined if not found
+ */
+function findDefinition(
+    source: DdsSource,
+    fieldName: string,
+    sources: Map<string, string>,
+    depth: number
+): ResolvedDefinition | undefined {
+    for (const format of source.formats) {
+        const entry = format.fields.find(field => field.name.toUpperCase() === fieldName.toUpperCase());
+        if (entry) {
+            return resolveEntry(entry, source, sources, depth + 1);
+        };
+    };
+    return undefined;
+};
+
+/**
+ * Resolves the length, type and decimals of a field entry, following
+ * REFFLD/REF references when the field is defined by reference
+ * @param entry - Field entry
+ * @param source - DDS source that contains the entry
+ * @param sources - Sources of referenced files, by uppercased file name
+ * @param depth - Current reference depth
+ * @returns The resolved definition, or undefined if it cannot be resolved
+ */
+function resolveEntry(
+    entry: DdsEntry,
+    source: DdsSource,
+    sources: Map<string, string>,
+    depth: number
+): ResolvedDefinition | undefined {
+    const isRelative = /^[+-]/.test(entry.length);
+
+    if (!entry.reference && !isRelative && (entry.length || entry.dataType)) {
+        return entry;
+    };
+
+    if (depth > MAX_REFERENCE_DEPTH) {
+        return undefined;
+    };
+
+    // REFFLD([format/]field [file|*SRC]) or the field's own name in the REF file
+    const keywords = RpgStructureParser.parseKeywords(entry.keywords);
+    const fileKeywords = RpgStructureParser.parseKeywords(source.fileKeywords);
+    const [refField, refFile] = (keywords.get('REFFLD') ?? '').split(/\s+/);
+    const fieldName = refField ? refField.split('/').pop()! : entry.name;
+    const fileName = refFile ?? fileKeywords.get('REF');
+
+    let referenced: ResolvedDefinition | undefined;
+    if (!fileName || fileName.toUpperCase() === SOURCE_REFERENCE) {
+        referenced = fieldName.toUpperCase() === entry.name.toUpperCase()
+            ? undefined
+            : findDefinition(source, fieldName, sources, depth);
+    } else {
+        const content = sources.get(normalizeFileName(fileName));
+        referenced = content ? findDefinition(readDdsSource(content), fieldName, sources, depth) : undefined;
+    };
+
+    if (!referenced) {
+        return undefined;
+    };
+
+    // Values on the referencing line override or adjust the referenced ones
+    let length = referenced.length;
+    if (isRelative) {
+        length = (parseInt(referenced.length, 10) + parseInt(entry.length, 10)).toString();
+    } else if (entry.length) {
+        length = entry.length;
+    };
+
+    return {
+        length,
+        dataType: entry.dataType || referenced.dataType,
+        decimals: entry.decimals || referenced.decimals,
+        keywords: `${referenced.keywords} ${entry.keywords}`
+    };
+};
+
+// CONVERSION
+
+/**
+ * Converts a resolved DDS field definition into a structure field
+ * @param name - Field name
+ * @param definition - Resolved definition
+ * @param id - Id number for the field
+ * @returns The field, or undefined if the data type is not supported
+ */
+function toField(name: string, definition: ResolvedDefinition, id: number): Field | undefined {
+    const keywords = RpgStructureParser.parseKeywords(definition.keywords);
+    const length = definition.length;
+    const decimals = definition.decimals;
+
+    // Numeric fields without a data type are packed in physical files
+    const dataType = definition.dataType || (decimals ? 'P' : 'A');
+    const varying = keywords.has('VARLEN');
+
+    let type: string;
+    let rpgLength: string | undefined;
+
+    switch (dataType) {
+        case 'A':
+        case 'H':
+        case 'O':
+        case 'J':
+        case 'E':
+            type = varying ? 'varchar' : 'char';
+            rpgLength = length;
+            break;
+        case 'G':
+            type = varying ? 'vargraph' : 'graph';
+            rpgLength = length;
+            break;
+        case 'B':
+            // RPG binary fields hold up to 9 digits, longer DDS binary fields are 8-byte integers
+            if (parseInt(length, 10) > 9 && (!decimals || decimals === '0')) {
+                type = 'int';
+                rpgLength = '20';
+                break;
+            };
+            type = 'bin';
+            rpgLength = decimals && decimals !== '0' ? `${length}:${decimals}` : length;
+            break;
+        case 'P':
+        case 'S':
+            type = dataType === 'P' ? 'packed' : 'zoned';
+            rpgLength = decimals && decimals !== '0' ? `${length}:${decimals}` : length;
+            break;
+        case 'F':
+            type = 'float';
+            rpgLength = parseInt(length, 10) > 9 ? '8' : '4';
+            break;
+        case 'L':
+            type = 'date';
+            break;
+        case 'T':
+            type = 'time';
+            break;
+        case 'Z':
+            type = 'timestamp';
+            break;
+        default:
+            return undefined;
+    };
+
+    if (rpgLength !== undefined && !/^\d+(:\d+)?$/.test(rpgLength)) {
+        return undefined;
+    };
+
+    // DFT values become initialization values when they are plain literals
+    const defaultValue = keywords.get('DFT');
+    const init = defaultValue && (/^'.*'$/.test(defaultValue) || /^-?\d+(\.\d+)?$/.test(defaultValue))
+        ? defaultValue
+        : undefined;
+
+    // TEXT describes the field; column headings are the fallback
+    const headings = keywords.get('COLHDG')?.match(/'(?:[^']|'')*'/g)?.map(unquote);
+    const comment = unquote(keywords.get('TEXT')) ?? headings?.join(' ');
+
+    return {
+        idNumber: id,
+        name,
+        type,
+        length: rpgLength,
+        init,
+        dim: undefined,
+        isStructure: false,
+        fields: [],
+        comment: comment?.trim() || undefined
+    };
+};
+
+/**
+ * Parses the record formats of a DDS physical or logical file source
+ * @param content - DDS source text
+ * @param sources - Sources of referenced files (REF, REFFLD, PFILE, JFILE), by uppercased file name
+ * @returns Record formats converted into fields, and problems found
+ */
+export function parseDdsSource(content: string, sources: Map<string, string> = new Map()): DdsParseResult {
+    const source = readDdsSource(content);
+    const result: DdsParseResult = { formats: [], errors: [] };
+
+    for (const format of source.formats) {
+        const formatKeywords = RpgStructureParser.parseKeywords(format.entry.keywords);
+        const based = [
+            ...(formatKeywords.get('PFILE') ?? '').split(/\s+/),
+            ...(formatKeywords.get('JFILE') ?? '').split(/\s+/)
+        ].filter(file => file !== '').map(normalizeFileName);
+
+        // Logical files take field definitions from their based-on physical files
+        const basedSources = based
+            .map(file => sources.get(file))
+            .filter((text): text is string => text !== undefined)
+            .map(readDdsSource);
+
+        let entries = format.fields;
+        if (entries.length === 0 && basedSources.length > 0) {
+            entries = basedSources[0].formats.flatMap(basedFormat => basedFormat.fields);
+        };
+
+        const fields: Field[] = [];
+        for (const entry of entries) {
+            let definition = resolveEntry(entry, source, sources, 0);
+
+            if (!definition && based.length > 0) {
+                definition = basedSources
+                    .map(basedSource => findDefinition(basedSource, entry.name, sources, 0))
+                    .find(found => found !== undefined);
+            };
+
+            if (!definition) {
+                result.errors.push(`Field "${entry.name}" is defined by reference and its definition was not found in the workspace.`);
+                continue;
+            };
+
+            const field = toField(entry.name, definition, fields.length);
+            if (!field) {
+                result.errors.push(`Field "${entry.name}" has an unsupported data type "${definition.dataType}".`);
+                continue;
+            };
+
+            fields.push(field);
+        };
+
+        result.formats.push({
+            name: format.entry.name,
+            text: unquote(formatKeywords.get('TEXT')),
+            fields,
+            keys: format.keys
+        });
+    };
+
+    return result;
+};
@@ -0,0 +1,340 @@
+/*
+	Christian Larsen, 2025
+	"RPG structure"
+	rpg-structure.diagnostics.ts
+*/
+
+import * as vscode from 'vscode';
+import { Field, DiagnosticCheck, DiagnosticLevel } from './rpg-structure.model';
+import { RpgStructureParser, ParsedStructure } from './rpg-structure.parser';
+import { currentConfiguration } from './rpg-structure.configuration';
+import { findDataType, parseLength, getLiteralLength } from './rpg-structure.types';
+
+/**
+ * Checks of the structures declared in open RPG documents, reported as diagnostics.
+ * The structures are read with the parser used for import, and every check has
+ * its own severity in the rpgStructure.diagnostics setting.
+ */
+
+// INTERFACES
+
+/**
+ * Problem found by a check, before its severity is applied.
+ */
+interface StructureProblem {
+    /** Check that found the problem */
+    check: DiagnosticCheck;
+    /** Line of the problem (0-based) */
+    line: number;
+    /** Message shown in the editor and the Problems view */
+    message: string;
+};
+
+// CONSTANTS
+
+/** Source shown with the diagnostics */
+const DIAGNOSTIC_SOURCE = 'RPG Structure';
+
+/** Languages of the documents that are checked */
+const CHECKED_LANGUAGES = ['rpgle', 'sqlrpgle'];
+
+/** Delay after the last change of a document before it is checked again, in milliseconds */
+const CHECK_DELAY = 500;
+
+/** Maximum length of RPG names */
+const MAX_NAME_LENGTH = 4096;
+
+/** Maximum length of the system names of libraries, files and record formats */
+const MAX_SYSTEM_NAME_LENGTH = 10;
+
+/** VS Code severity of every level, except off */
+const SEVERITIES: Readonly<Record<Exclude<DiagnosticLevel, 'off'>, vscode.DiagnosticSeverity>> = {
+    'error': vscode.DiagnosticSeverity.Error,
+    'warning': vscode.DiagnosticSeverity.Warning,
+    'information': vscode.DiagnosticSeverity.Information,
+    'hint': vscode.DiagnosticSeverity.Hint
+};
+
+// STATE
+
+/** Diagnostics of the checked documents, created on activation */
+let diagnosticCollection: vscode.DiagnosticCollection | undefined;
+
+/** Checks waiting for the end of typing, by document URI */
+const pendingChecks = new Map<string, ReturnType<typeof setTimeout>>();
+
+// SETUP
+
+/**
+ * Creates the diagnostic collection and checks the open documents when they are opened or changed
+ * @param context - VS Code extension context
+ */
+export function setupDiagnostics(context: vscode.ExtensionContext): void {
+    diagnosticCollection = vscode.languages.createDiagnosticCollection('rpg-structure');
+
+    context.subscriptions.push(
+        diagnosticCollection,
+        vscode.workspace.onDidOpenTextDocument(checkDocument),
+        vscode.workspace.onDidChangeTextDocument(event => scheduleCheck(event.document)),
+        vscode.workspace.onDidCloseTextDocument(document => {
+            cancelCheck(document);
+            diagnosticCollection?.delete(document.uri);
+        }),
+        { dispose: () => pendingChecks.forEach(timeout => clearTimeout(timeout)) }
+    );
+
+    checkOpenDocuments();
+};
+
+/**
+ * Checks all open documents again, after a change of the severities
+ */
+export function checkOpenDocuments(): void {
+    vscode.workspace.textDocuments.forEach(checkDocument);
+};
+
+/**
+ * Checks a document once the user stops typing
+ * @param document - Changed document
+ */
+function scheduleCheck(document: vscode.TextDocument): void {
+    cancelCheck(document);
+    pendingChecks.set(document.uri.toString(), setTimeout(() => {
+        pendingChecks.delete(document.uri.toString());
+        checkDocument(document);
+    }, CHECK_DELAY));
+};
+
+/**
+ * Cancels the pending check of a document
+ * @param document - Document whose check is cancelled
+ */
+function cancelCheck(document: vscode.TextDocument): void {
+    const pending = pendingChecks.get(document.uri.toString());
+    if (pending) {
+        clearTimeout(pending);
+        pendingChecks.delete(document.uri.toString());
+    };
+};
+
+/**
+ * Checks the structures of a document and publishes the diagnostics
+ * @param document - Document to check
+ */
+function checkDocument(document: vscode.TextDocument): void {
+    if (!diagnosticCollection) {
+        return;
+    };
+
+    if (!CHECKED_LANGUAGES.includes(document.languageId)) {
+        diagnosticCollection.delete(document.uri);
+        return;
+    };
+
+    try {
+        diagnosticCollection.set(document.uri, collectDiagnostics(document.getText()));
+    } catch (error) {
+        console.error(`Failed to check ${document.uri.toString()}:`, error);
+    };
+};
+
+// CHECKS
+
+/**
+ * Runs the enabled checks on the structures of a source
+ * @param content - Source text
+ * @returns Diagnostics with the configured severities
+ */
+export function collectDiagnostics(content: string): vscode.Diagnostic[] {
+    const lines = content.split('\n');
+    const problems: StructureProblem[] = [];
+
+    for (const structure of RpgStructureParser.extractAllStructures(content)) {
+        problems.push(...checkStructure(structure, lines));
+        problems.push(...RpgStructureParser.findUnparsedLines(content, structure).map(line => ({
+            check: 'unparsedLine' as const,
+            line,
+            message: 'This line is not recognized as a subfield and is left out when the structure is imported.'
+        })));
+    };
+
+    problems.push(...RpgStructureParser.findUnmatchedEndLines(content).map(line => ({
+        check: 'unmatchedEndDs' as const,
+        line,
+        message: 'end-ds without a matching dcl-ds.'
+    })));
+
+    return problems
+        .map(problem => createDiagnostic(problem, lines))
+        .filter((diagnostic): diagnostic is vscode.Diagnostic => diagnostic !== undefined);
+};
+
+/**
+ * Checks the header and the subfields of a structure
+ * @param structure - Parsed structure
+ * @param lines - Lines of the source
+ * @returns Problems found in the structure
+ */
+function checkStructure(structure: ParsedStructure, lines: string[]): StructureProblem[] {
+    const problems: StructureProblem[] = [];
+    const fixed = structure.format === 'D-SPEC';
+    const startLine = structure.startLine ?? 0;
+    const endLine = structure.endLine ?? startLine;
+    const { header } = structure;
+
+    const declarationLine = findNameLine(lines, header.name, startLine, endLine, fixed) ?? startLine;
+
+    if (header.type === 'template' && header.dimension && header.dimension !== '0') {
+        problems.push({
+            check: 'templateDimension',
+            line: declarationLine,
+            message: `dim is not inherited by likeds: declare the dimension of ${header.name} where the template is used.`
+        });
+    };
+
+    problems.push(...checkNameLength(header.name, declarationLine));
+
+    // extname('MYLIB/CUSTMAST':*INPUT) and likerec(CUSTREC) name system objects
+    const systemNames = (header.external ?? '').split(':')[0].split('/');
+    for (const systemName of systemNames.filter(name => name.length > MAX_SYSTEM_NAME_LENGTH)) {
+        problems.push({
+            check: 'nameLength',
+            line: declarationLine,
+            message: `${systemName} is longer than the ${MAX_SYSTEM_NAME_LENGTH} characters of a system name.`
+        });
+    };
+
+    // Subfields come in source order, so each one is searched after the previous one
+    let cursor = declarationLine + 1;
+    const checkFields = (fieldList: Field[]): void => {
+        const names = new Set<string>();
+
+        for (const field of fieldList) {
+            const fieldLine = findNameLine(lines, field.name, cursor, endLine, fixed);
+            if (fieldLine !== undefined) {
+                cursor = fieldLine + 1;
+            };
+            const line = fieldLine ?? declarationLine;
+
+            if (names.has(field.name.toLowerCase())) {
+                problems.push({
+                    check: 'duplicateName',
+                    line,
+                    message: `${field.name} is already declared at this level of ${header.name}.`
+                });
+            };
+            names.add(field.name.toLowerCase());
+
+            problems.push(...checkNameLength(field.name, line));
+            problems.push(...checkField(field, line));
+
+            if (field.isStructure) {
+                checkFields(field.fields);
+            };
+        };
+    };
+    checkFields(structure.fields);
+
+    return problems;
+};
+
+/**
+ * Checks the length and decimal positions of a subfield against its init value
+ * @param field - Parsed subfield
+ * @param line - Line of the subfield
+ * @returns Problems found in the subfield
+ */
+function checkField(field: Field, line: number): StructureProblem[] {
+    const definition = field.isStructure || field.reference !== undefined ? undefined : findDataType(field.type);
+    if (!definition) {
+        return [];
+    };
+
+    const problems: StructureProblem[] = [];
+    const [digits, decimals] = parseLength(field.length);
+
+    if (definition.lengthSyntax === 'decimals' && decimals !== undefined && decimals >= digits) {
+        problems.push({
+            check: 'decimalPositions',
+            line,
+            message: `${field.name} has ${decimals} decimal positions for ${digits} digits: decimal positions must be fewer than the digits.`
+        });
+    };
+
+    const initLength = getLiteralLength(field.init);
+    if (definition.initRule === 'string' && digits !== undefined && initLength !== undefined && initLength > digits) {
+        problems.push({
+            check: 'initLength',
+            line,
+            message: `The init value of ${field.name} has ${initLength} characters, more than the ${digits} of the field.`
+        });
+    };
+
+    return problems;
+};
+
+/**
+ * Checks that a name fits the RPG limit
+ * @param name - Structure or subfield name
+ * @param line - Line of the declaration
+ * @returns A problem if the name is too long
+ */
+function checkNameLength(name: string, line: number): StructureProblem[] {
+    return name.length > MAX_NAME_LENGTH
+        ? [{ check: 'nameLength', line, message: `${name.slice(0, 20)}... is longer than the ${MAX_NAME_LENGTH} characters of an RPG name.` }]
+        : [];
+};
+
+// HELPERS
+
+/**
+ * Finds the line that declares a name
+ * @param lines - Lines of the source
+ * @param name - Structure or subfield name
+ * @param from - First line searched
+ * @param to - Last line searched
+ * @param fixed - Whether the structure is a fixed-form D-spec
+ * @returns Line of the declaration, or undefined if it is not found
+ */
+function findNameLine(lines: string[], name: string, from: number, to: number, fixed: boolean): number | undefined {
+    const lowerName = name.toLowerCase();
+    const pattern = new RegExp(`^\\s*(?:dcl-ds\\s+|dcl-subf\\s+)?${name.replace(/[$]/g, '\\$&')}(?![\\w@#$])`, 'i');
+
+    for (let i = from; i <= to && i < lines.length; i++) {
+        if (fixed) {
+            // Names in columns 7-21, long names end with ... and continue on the next line
+            const nameColumns = lines[i].substring(6, 21).trim().replace(/\.\.\.$/, '').toLowerCase();
+            if (lines[i].charAt(5).toUpperCase() === 'D' && nameColumns && lowerName.startsWith(nameColumns)) {
+                return i;
+            };
+        } else if (pattern.test(lines[i])) {
+            return i;
+        };
+    };
+
+    return undefined;
+};
+
+/**
+ * Applies the configured severity to a problem
+ * @param problem - Problem found by a check
+ * @param lines - Lines of the source
+ * @returns The diagnostic, or undefined if the check is off
+ */
+function createDiagnostic(problem: StructureProblem, lines: string[]): vscode.Diagnostic | undefined {
+    const level = currentConfiguration?.diagnostics?.[problem.check] ?? 'off';
+    if (level === 'off') {
+        return undefined;
+    };
+
+    // Underline the text of the line, without its indentation
+    const text = lines[problem.line] ?? '';
+    const start = text.length - text.trimStart().length;
+    const end = Math.max(text.trimEnd().length, start + 1);
+    const range = new vscode.Range(problem.line, start, problem.line, end);
+
+    const diagnostic = new vscode.Diagnostic(range, problem.message, SEVERITIES[level]);
+    diagnostic.source = DIAGNOSTIC_SOURCE;
+    diagnostic.code = problem.check;
+    return diagnostic;
+};
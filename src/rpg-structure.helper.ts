@@ -5,7 +5,7 @@
 */
 
 import vscode from 'vscode';
-import { header, fields, CONTEXTS } from './rpg-structure.model';
+import { header, fields, sourceReference, Header, CONTEXTS } from './rpg-structure.model';
 
 /**
  * Validates if a string represents a positive integer
@@ -18,18 +18,76 @@ export function isPositiveInteger(value: string): boolean {
 
 /**
  * Validates the header structure completeness
+ * @param target - Header to validate (defaults to the header of the active structure)
  * @returns true if header has all required fields, false otherwise
  */
-export function isHeaderValid(): boolean {
-    const hasBasicFields = header.name !== '' && header.type !== '';
+export function isHeaderValid(target: Header = header): boolean {
+    const hasBasicFields = target.name !== '' && target.type !== '';
     
-    if (header.type === 'template') {
-        return hasBasicFields && (!header.dimension || header.dimension === '0');
+    // Externally described structures need their file or record format
+    if (isExternallyDescribed(target) && !target.external) {
+        return false;
+    };
+    
+    if (target.type === 'template') {
+        return hasBasicFields && (!target.dimension || target.dimension === '0');
     };
     
     return hasBasicFields && 
-           typeof header.dimension === 'string' && 
-           header.dimension.length > 0;
+           typeof target.dimension === 'string' && 
+           target.dimension.length > 0;
+};
+
+/**
+ * Checks whether a structure takes its subfields from a file (extname) or a record format (likerec)
+ * @param target - Header to check (defaults to the header of the active structure)
+ * @returns true for extname and likerec structures
+ */
+export function isExternallyDescribed(target: Header = header): boolean {
+    return target.type === 'extname' || target.type === 'likerec';
+};
+
+/**
+ * Returns the keywords a structure is declared with, including qualified when it applies
+ * @param target - Header to describe (defaults to the header of the active structure)
+ * @returns Keywords in lowercase, as shown in the Structure definition view
+ */
+export function getEffectiveKeywords(target: Header = header): string[] {
+    const keywords = target.type !== 'likerec' && !target.unqualified ? ['qualified'] : [];
+    return [...keywords, ...(target.keywords ?? [])];
+};
+
+/**
+ * Returns the name of a structure keyword without its parameter
+ * @param keyword - Keyword as stored in the header, as inz(*extdft)
+ * @returns Keyword name in lowercase, as inz
+ */
+export function getKeywordName(keyword: string): string {
+    return keyword.split('(')[0].trim().toLowerCase();
+};
+
+/**
+ * Finds two structure keywords that cannot be used together
+ * @param keywords - Keywords of the structure
+ * @returns Description of the first conflict, or undefined when the keywords are compatible
+ */
+export function findKeywordConflict(keywords: string[]): string | undefined {
+    const names = new Set(keywords.map(getKeywordName));
+    const conflicts: [string, string[]][] = [
+        ['export', ['import']],
+        ['based', ['inz', 'export', 'import', 'static', 'dtaara']],
+        ['import', ['inz', 'static']],
+        ['psds', ['based', 'dtaara']]
+    ];
+
+    for (const [keyword, excluded] of conflicts) {
+        const conflict = excluded.find(name => names.has(name));
+        if (names.has(keyword) && conflict) {
+            return `${keyword} cannot be combined with ${conflict}`;
+        };
+    };
+
+    return undefined;
 };
 
 /**
@@ -37,6 +95,7 @@ export function isHeaderValid(): boolean {
  */
 export function updateHeaderContext(): void {
     vscode.commands.executeCommand('setContext', CONTEXTS.HAS_HEADER, isHeaderValid());
+    vscode.commands.executeCommand('setContext', CONTEXTS.IS_EXTERNAL, isExternallyDescribed());
 };
 
 /**
@@ -48,3 +107,11 @@ export function updateFieldsContext(): void {
 
 
 
+
+
+/**
+ * Updates the context for the imported source link
+ */
+export function updateSourceContext(): void {
+    vscode.commands.executeCommand('setContext', CONTEXTS.HAS_SOURCE, sourceReference !== undefined);
+};
\ No newline at end of file
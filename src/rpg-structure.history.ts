@@ -0,0 +1,138 @@
+/*
+	Christian Larsen, 2025
+	"RPG structure"
+	rpg-structure.history.ts
+*/
+
+import * as vscode from 'vscode';
+import { activeDraft, getStructureState, setStructureState, StructureDraft, StructureState, CONTEXTS } from './rpg-structure.model';
+
+/**
+ * Undo/redo history of the structures being edited, kept separately for every draft.
+ * Every operation that changes the header or the fields is wrapped in trackChanges,
+ * which keeps a snapshot of the model taken before the operation if the operation changed it.
+ */
+
+// INTERFACES
+
+/**
+ * Undo and redo snapshots of a single draft.
+ */
+interface DraftHistory {
+    undo: StructureState[];
+    redo: StructureState[];
+};
+
+// CONSTANTS
+
+/** Maximum number of operations that can be undone */
+const MAX_HISTORY = 100;
+
+// STATE
+
+/** History of every draft, by draft id */
+const histories = new Map<number, DraftHistory>();
+
+// HISTORY
+
+/**
+ * Runs an operation on the model and records it in the history if it changed the header or the fields.
+ * Operations cancelled by the user leave no entry.
+ * @param operation - Operation to run (synchronous or asynchronous)
+ * @param draft - Draft changed by the operation (defaults to the active draft)
+ */
+export async function trackChanges(operation: () => unknown, draft: StructureDraft = activeDraft): Promise<void> {
+    const before = getStructureState(draft);
+
+    try {
+        await operation();
+    } finally {
+        if (!isSameSnapshot(before, getStructureState(draft))) {
+            const history = getHistory(draft.id);
+            history.undo.push(before);
+            if (history.undo.length > MAX_HISTORY) {
+                history.undo.shift();
+            };
+            history.redo.length = 0;
+            updateHistoryContext();
+        };
+    };
+};
+
+/**
+ * Restores the model as it was before the last operation
+ * @returns True if an operation was undone
+ */
+export function undo(): boolean {
+    const history = getHistory(activeDraft.id);
+    const snapshot = history.undo.pop();
+    if (!snapshot) {
+        return false;
+    };
+
+    history.redo.push(getStructureState());
+    setStructureState(snapshot);
+    updateHistoryContext();
+    return true;
+};
+
+/**
+ * Applies again the last undone operation
+ * @returns True if an operation was redone
+ */
+export function redo(): boolean {
+    const history = getHistory(activeDraft.id);
+    const snapshot = history.redo.pop();
+    if (!snapshot) {
+        return false;
+    };
+
+    history.undo.push(getStructureState());
+    setStructureState(snapshot);
+    updateHistoryContext();
+    return true;
+};
+
+/**
+ * Discards the history of a draft that was closed
+ * @param draftId - Identifier of the draft
+ */
+export function clearHistory(draftId: number): void {
+    histories.delete(draftId);
+    updateHistoryContext();
+};
+
+/**
+ * Updates the contexts that enable the undo and redo actions of the active draft
+ */
+export function updateHistoryContext(): void {
+    const history = histories.get(activeDraft.id);
+    vscode.commands.executeCommand('setContext', CONTEXTS.CAN_UNDO, (history?.undo.length ?? 0) > 0);
+    vscode.commands.executeCommand('setContext', CONTEXTS.CAN_REDO, (history?.redo.length ?? 0) > 0);
+};
+
+/**
+ * Returns the history of a draft, creating it on first use
+ * @param draftId - Identifier of the draft
+ * @returns The history of the draft
+ */
+function getHistory(draftId: number): DraftHistory {
+    let history = histories.get(draftId);
+    if (!history) {
+        history = { undo: [], redo: [] };
+        histories.set(draftId, history);
+    };
+    return history;
+};
+
+// SNAPSHOTS
+
+/**
+ * Compares two snapshots of the model
+ * @param a - First snapshot
+ * @param b - Second snapshot
+ * @returns True if both snapshots hold the same model
+ */
+function isSameSnapshot(a: StructureState, b: StructureState): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+};
@@ -0,0 +1,313 @@
+/*
+	Christian Larsen, 2025
+	"RPG structure"
+	rpg-structure.layout.ts
+*/
+
+import { Field } from './rpg-structure.model';
+import { findDataType, calculateByteSize, parseLength } from './rpg-structure.types';
+import { findReferenceTarget } from './rpg-structure.references';
+
+/**
+ * Byte layout engine for RPG data structures.
+ * Computes the size of every field and its from/to positions inside the structure,
+ * following the storage rules of the ILE RPG compiler and the sizes of the type registry.
+ */
+
+// INTERFACES
+
+/**
+ * Byte layout of a single field or substructure.
+ * Positions are 1-based, as shown in the compiler listing.
+ */
+export interface FieldLayout {
+    /** Identifier of the field this layout belongs to */
+    idNumber: number;
+    /** First byte of the field (undefined if it cannot be computed) */
+    from?: number;
+    /** Last byte of the field, including all elements of a dimension */
+    to?: number;
+    /** Size in bytes of a single element */
+    elementSize?: number;
+    /** Total size in bytes (element size multiplied by the dimension) */
+    size?: number;
+    /** Problem found in the position of the field (overlay too long, unexpected overlap...) */
+    warning?: string;
+};
+
+/**
+ * Byte layout of a complete data structure.
+ */
+export interface StructureLayout {
+    /** Layout of every field, indexed by field id */
+    fields: Map<number, FieldLayout>;
+    /** Total length of one occurrence of the structure (undefined if unknown) */
+    length?: number;
+};
+
+/**
+ * Result of laying out a list of fields.
+ */
+interface LayoutResult {
+    length?: number;
+    alignment: number;
+};
+
+/**
+ * Field already placed in a list, used to resolve overlays and detect overlaps.
+ */
+interface PlacedField {
+    name: string;
+    from: number;
+    to: number;
+    elementSize: number;
+    size: number;
+};
+
+// SIZE CALCULATION
+
+/**
+ * Calculates the number of bytes used by a single element of a field
+ * @param type - RPG data type
+ * @param length - Length specification of the field
+ * @returns Size in bytes, or undefined if it cannot be determined
+ */
+export function getFieldByteSize(type: string, length: string | undefined): number | undefined {
+    const definition = findDataType(type);
+    return definition ? calculateByteSize(definition, length) : undefined;
+};
+
+/**
+ * Rounds a position up to the next multiple of the alignment
+ * @param position - 1-based position
+ * @param alignment - Alignment in bytes
+ * @returns Aligned 1-based position
+ */
+function alignPosition(position: number, alignment: number): number {
+    const offset = position - 1;
+    return Math.ceil(offset / alignment) * alignment + 1;
+};
+
+/**
+ * Lays out a list of fields starting at the given position.
+ * Fields with pos() start at their position, fields with overlay() start in the subfield
+ * they overlay and do not move the following fields, the other fields follow the previous one.
+ * @param fieldList - Fields to lay out
+ * @param start - 1-based position of the first byte
+ * @param result - Map where the layout of every field is stored
+ * @param resolving - Lowercase names of the references being measured, to stop on circular references
+ * @returns Length and alignment of the laid out fields
+ */
+function layoutFields(fieldList: Field[], start: number, result: Map<number, FieldLayout>, resolving: Set<string>): LayoutResult {
+    let position: number | undefined = start;
+    let end: number | undefined = start;
+    let alignment = 1;
+    const placed: PlacedField[] = [];
+    // Position of the next overlay(name:*next), by overlaid subfield
+    const overlayNext = new Map<string, number>();
+
+    for (const field of fieldList) {
+        let elementSize: number | undefined;
+        let fieldAlignment = 1;
+        let multiplier = 1;
+
+        if (field.isStructure) {
+            // Measure the substructure first to know its alignment; every element
+            // is padded so pointers stay aligned in all occurrences
+            const measure = layoutFields(field.fields, 1, new Map(), resolving);
+            fieldAlignment = measure.alignment;
+            elementSize = measure.length === undefined
+                ? undefined
+                : Math.ceil(measure.length / fieldAlignment) * fieldAlignment;
+            // Substructures keep their dimension in the length property
+            multiplier = parseLength(field.length)[0] ?? 1;
+        } else if (field.reference !== undefined) {
+            // likeds, like and likerec fields take the size of what they refer to
+            const measure = measureReference(field, resolving);
+            fieldAlignment = measure?.alignment ?? 1;
+            elementSize = measure?.length;
+            multiplier = field.dim ?? 1;
+        } else {
+            elementSize = getFieldByteSize(field.type, field.length);
+            fieldAlignment = findDataType(field.type)?.alignment ?? 1;
+            multiplier = field.dim ?? 1;
+        };
+
+        alignment = Math.max(alignment, fieldAlignment);
+
+        const overlay = field.overlay ? parseOverlay(field.overlay) : undefined;
+        const target = overlay
+            ? placed.find(other => other.name.toLowerCase() === overlay.target.toLowerCase())
+            : undefined;
+        let warning: string | undefined;
+        let from: number | undefined;
+
+        if (overlay) {
+            // An overlay starts in the subfield it overlays, at the given or next free position
+            if (!target) {
+                warning = `Overlaid subfield "${overlay.target}" is not declared before this field`;
+            } else if (overlay.position === '*next') {
+                from = overlayNext.get(target.name.toLowerCase()) ?? target.from;
+            } else if (overlay.position !== undefined) {
+                from = target.from + overlay.position - 1;
+            };
+        } else if (field.pos) {
+            // An explicit pos() places the field as written, without alignment
+            from = start + field.pos - 1;
+        } else if (position !== undefined) {
+            from = alignPosition(position, fieldAlignment);
+        };
+
+        if (from === undefined || elementSize === undefined) {
+            result.set(field.idNumber, { idNumber: field.idNumber, elementSize, warning });
+            // Overlays do not move the following fields
+            if (!overlay) {
+                position = undefined;
+                end = undefined;
+            };
+            continue;
+        };
+
+        const size = elementSize * multiplier;
+        const to = from + size - 1;
+
+        if (target) {
+            warning = findOverlayWarning(target, from, to, elementSize);
+        } else if (!overlay) {
+            const overlapped = placed.find(other => isPartialOverlap(other, from as number, to));
+            if (overlapped) {
+                warning = `Overlaps ${overlapped.name} (${overlapped.from}-${overlapped.to})`;
+            };
+        };
+
+        result.set(field.idNumber, {
+            idNumber: field.idNumber,
+            from,
+            to,
+            elementSize,
+            size,
+            warning
+        });
+
+        if (field.isStructure) {
+            layoutFields(field.fields, from, result, resolving);
+        };
+
+        placed.push({ name: field.name, from, to, elementSize, size });
+
+        // The next field follows this one, the structure ends after its last byte
+        const next: number = to + 1;
+        if (target) {
+            overlayNext.set(target.name.toLowerCase(), next);
+        } else {
+            position = next;
+        };
+        end = end === undefined ? undefined : Math.max(end, next);
+    };
+
+    return {
+        length: end === undefined ? undefined : end - start,
+        alignment
+    };
+};
+
+/**
+ * Measures the structure, standalone field or record format a field refers to
+ * @param field - likeds, like or likerec field
+ * @param resolving - Lowercase names of the references being measured
+ * @returns Length and alignment of the target, or undefined if it is unknown or circular
+ */
+function measureReference(field: Field, resolving: Set<string>): LayoutResult | undefined {
+    const target = findReferenceTarget(field);
+    const key = target?.name.toLowerCase();
+    if (!target || !key || resolving.has(key)) {
+        return undefined;
+    };
+
+    if (target.field) {
+        return {
+            length: getFieldByteSize(target.field.type, target.field.length),
+            alignment: findDataType(target.field.type)?.alignment ?? 1
+        };
+    };
+
+    resolving.add(key);
+    const measure = layoutFields(target.fields ?? [], 1, new Map(), resolving);
+    resolving.delete(key);
+    return measure;
+};
+
+/**
+ * Splits the parameter of overlay() into the overlaid subfield and the position
+ * @param overlay - Parameter such as "name", "name:5" or "name:*next"
+ * @returns Overlaid subfield and position (undefined if the position is an expression)
+ */
+function parseOverlay(overlay: string): { target: string; position?: number | '*next' } {
+    const [target, position] = overlay.split(':').map(part => part.trim());
+
+    if (!position) {
+        return { target, position: 1 };
+    };
+    if (position.toLowerCase() === '*next') {
+        return { target, position: '*next' };
+    };
+    return { target, position: /^\d+$/.test(position) ? parseInt(position, 10) : undefined };
+};
+
+/**
+ * Checks that an overlay stays inside the subfield it overlays. For arrays,
+ * every element of the overlay must fit in an element of the overlaid subfield.
+ * @param target - Overlaid subfield
+ * @param from - First byte of the overlay
+ * @param to - Last byte of the overlay
+ * @param elementSize - Size of one element of the overlay
+ * @returns Warning text, or undefined if the overlay fits
+ */
+function findOverlayWarning(target: PlacedField, from: number, to: number, elementSize: number): string | undefined {
+    const isArray = target.size > target.elementSize;
+    const exceeds = isArray
+        ? from - target.from + elementSize > target.elementSize
+        : to > target.to;
+
+    return exceeds
+        ? `Overlay exceeds the length of ${target.name} (${isArray ? `${target.elementSize} bytes per element` : `${target.size} bytes`})`
+        : undefined;
+};
+
+/**
+ * Checks whether a field partially overlaps another one. A field that lies completely
+ * inside another one (or contains it) is taken as an intended redefinition.
+ * @param other - Field already placed
+ * @param from - First byte of the field
+ * @param to - Last byte of the field
+ * @returns True if the fields share some bytes without one containing the other
+ */
+function isPartialOverlap(other: PlacedField, from: number, to: number): boolean {
+    const overlaps = from <= other.to && to >= other.from;
+    const contained = (from >= other.from && to <= other.to) || (other.from >= from && other.to <= to);
+    return overlaps && !contained;
+};
+
+/**
+ * Calculates the byte layout of a data structure
+ * @param fieldList - Fields of the structure
+ * @returns Layout of every field and the total length of the structure
+ */
+export function calculateLayout(fieldList: Field[]): StructureLayout {
+    const layout = new Map<number, FieldLayout>();
+    const { length } = layoutFields(fieldList, 1, layout, new Set());
+
+    return { fields: layout, length };
+};
+
+/**
+ * Formats the from/to positions of a field for display
+ * @param layout - Layout of the field
+ * @returns Text such as "1-10", or an empty string if unknown
+ */
+export function formatPositions(layout: FieldLayout | undefined): string {
+    if (!layout || layout.from === undefined || layout.to === undefined) {
+        return '';
+    };
+    return `${layout.from}-${layout.to}`;
+};
@@ -0,0 +1,216 @@
+/*
+	Christian Larsen, 2025
+	"RPG structure"
+	rpg-structure.library.ts
+*/
+
+import * as vscode from 'vscode';
+import { cloneFields, cloneHeader, isStructureState, Field, Header } from './rpg-structure.model';
+
+/**
+ * Library of reusable structures (API error codes, audit columns, address blocks...).
+ * Every structure is a JSON file, kept either in the user storage of the extension
+ * or in the .vscode/rpg-structures folder of a workspace folder, where it can be committed.
+ */
+
+// TYPES
+
+/**
+ * Where a library structure is stored.
+ * - 'user': personal library in the storage of the extension
+ * - 'workspace': team library in .vscode/rpg-structures, shared through source control
+ */
+export type LibraryLocation = 'user' | 'workspace';
+
+// INTERFACES
+
+/**
+ * Content of a library file.
+ */
+export interface LibraryEntry {
+    /** Name the structure was saved under */
+    name: string;
+    /** Tags used to find the structure */
+    tags: string[];
+    /** Header of the structure */
+    header: Header;
+    /** Fields of the structure */
+    fields: Field[];
+};
+
+/**
+ * Structure found in the library, with the file it was read from.
+ */
+export interface LibraryStructure extends LibraryEntry {
+    /** Location of the library that contains the structure */
+    location: LibraryLocation;
+    /** URI of the JSON file */
+    uri: vscode.Uri;
+};
+
+// CONSTANTS
+
+/** Folder of the library, in the user storage and in .vscode */
+const LIBRARY_FOLDER = 'rpg-structures';
+
+/** Glob pattern of the library files of the workspace */
+export const WORKSPACE_LIBRARY_PATTERN = `.vscode/${LIBRARY_FOLDER}/*.json`;
+
+// STATE
+
+/** Folder of the personal library, set on activation */
+let userLibraryUri: vscode.Uri | undefined;
+
+// LIBRARY
+
+/**
+ * Sets the folder of the personal library from the extension context
+ * @param context - VS Code extension context
+ */
+export function initializeLibrary(context: vscode.ExtensionContext): void {
+    userLibraryUri = vscode.Uri.joinPath(context.globalStorageUri, LIBRARY_FOLDER);
+};
+
+/**
+ * Reads all structures of the personal and workspace libraries
+ * @returns Library structures, sorted by name
+ */
+export async function loadLibrary(): Promise<LibraryStructure[]> {
+    const structures: LibraryStructure[] = [];
+
+    if (userLibraryUri) {
+        structures.push(...await readFolder(userLibraryUri, 'user'));
+    };
+
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        structures.push(...await readFolder(getWorkspaceLibraryUri(folder), 'workspace'));
+    };
+
+    return structures.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Saves a structure in a library, replacing the file of a structure with the same name
+ * @param entry - Structure to save
+ * @param location - Library to save it in
+ * @param folder - Workspace folder of the workspace library
+ * @returns URI of the saved file
+ */
+export async function saveToLibrary(
+    entry: LibraryEntry,
+    location: LibraryLocation,
+    folder?: vscode.WorkspaceFolder
+): Promise<vscode.Uri> {
+    const uri = getLibraryFileUri(entry.name, location, folder);
+    const content: LibraryEntry = {
+        name: entry.name,
+        tags: entry.tags,
+        header: cloneHeader(entry.header),
+        fields: cloneFields(entry.fields)
+    };
+
+    await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, '..'));
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(content, null, 2) + '\n', 'utf8'));
+    return uri;
+};
+
+/**
+ * Deletes a structure from its library
+ * @param structure - Structure to delete
+ */
+export async function deleteFromLibrary(structure: LibraryStructure): Promise<void> {
+    await vscode.workspace.fs.delete(structure.uri);
+};
+
+/**
+ * Returns the URI of the file a structure is saved in
+ * @param name - Name of the structure
+ * @param location - Library of the structure
+ * @param folder - Workspace folder of the workspace library
+ * @returns URI of the JSON file
+ */
+export function getLibraryFileUri(name: string, location: LibraryLocation, folder?: vscode.WorkspaceFolder): vscode.Uri {
+    const fileName = `${name.trim().toLowerCase().replace(/[^a-z0-9_@#$-]+/g, '_')}.json`;
+
+    if (location === 'workspace') {
+        if (!folder) {
+            throw new Error('A workspace folder is required to save in the workspace library.');
+        };
+        return vscode.Uri.joinPath(getWorkspaceLibraryUri(folder), fileName);
+    };
+
+    if (!userLibraryUri) {
+        throw new Error('The user library is not available.');
+    };
+    return vscode.Uri.joinPath(userLibraryUri, fileName);
+};
+
+/**
+ * Checks whether a file exists
+ * @param uri - URI of the file
+ * @returns True if the file exists
+ */
+export async function fileExists(uri: vscode.Uri): Promise<boolean> {
+    try {
+        await vscode.workspace.fs.stat(uri);
+        return true;
+    } catch {
+        return false;
+    };
+};
+
+// FILES
+
+/**
+ * Returns the folder of the workspace library of a workspace folder
+ * @param folder - Workspace folder
+ * @returns URI of .vscode/rpg-structures
+ */
+function getWorkspaceLibraryUri(folder: vscode.WorkspaceFolder): vscode.Uri {
+    return vscode.Uri.joinPath(folder.uri, '.vscode', LIBRARY_FOLDER);
+};
+
+/**
+ * Reads the library files of a folder. Files that are not valid structures are skipped.
+ * @param folderUri - Folder to read
+ * @param location - Library the folder belongs to
+ * @returns Structures found in the folder
+ */
+async function readFolder(folderUri: vscode.Uri, location: LibraryLocation): Promise<LibraryStructure[]> {
+    let entries: [string, vscode.FileType][];
+    try {
+        entries = await vscode.workspace.fs.readDirectory(folderUri);
+    } catch {
+        return []; // The library folder does not exist yet
+    };
+
+    const structures: LibraryStructure[] = [];
+    for (const [fileName, fileType] of entries) {
+        if (fileType !== vscode.FileType.File || !fileName.toLowerCase().endsWith('.json')) {
+            continue;
+        };
+
+        const uri = vscode.Uri.joinPath(folderUri, fileName);
+        try {
+            const content: unknown = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8'));
+            if (!isStructureState(content)) {
+                console.warn(`Skipping invalid library file ${uri.toString()}`);
+                continue;
+            };
+
+            const { name, tags } = content as Partial<LibraryEntry>;
+            structures.push({
+                name: typeof name === 'string' && name ? name : fileName.replace(/\.json$/i, ''),
+                tags: Array.isArray(tags) ? tags.filter(tag => typeof tag === 'string') : [],
+                header: content.header,
+                fields: content.fields,
+                location,
+                uri
+            });
+        } catch (error) {
+            console.warn(`Failed to read library file ${uri.toString()}:`, error);
+        };
+    };
+
+    return structures;
+};
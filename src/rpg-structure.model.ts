@@ -14,20 +14,77 @@
 
 /**
  * Supported RPG structure types for data structure declarations.
+ * 'extname' and 'likerec' structures take their subfields from a file or record format.
  */
-export type StructureType = 'Default' | 'template' | '*var' | '*auto';
+export type StructureType = 'Default' | 'template' | '*var' | '*auto' | 'extname' | 'likerec';
 
 /**
  * Supported format styles for RPG code generation.
- * Controls the case style of generated RPG keywords.
+ * Controls the case style of generated RPG keywords, or selects
+ * column-based fixed-form D-specs ('D-SPEC').
  */
-export type StructureFormat = 'dcl-ds' | 'Dcl-ds' | 'DCL-DS';
+export type StructureFormat = 'dcl-ds' | 'Dcl-ds' | 'DCL-DS' | 'D-SPEC';
 
 /**
- * Map of RPG data types to their string representations.
- * Used for type mapping in different format styles.
+ * Placement of field and structure comments in generated code.
+ * 'trailing' adds a // comment after the declaration, 'leading' adds a comment line before it.
  */
-export type RpgTypeMap = Record<string, string>;
+export type CommentStyle = 'trailing' | 'leading';
+
+/**
+ * Checks run on the structures of open RPG documents.
+ * - 'duplicateName': subfields with the same name at the same level
+ * - 'templateDimension': dim on a template, which likeds does not inherit
+ * - 'decimalPositions': decimal positions not smaller than the number of digits
+ * - 'initLength': character init value longer than the field
+ * - 'unmatchedEndDs': end-ds without a matching dcl-ds
+ * - 'unparsedLine': line of a structure that is not recognized as a subfield
+ * - 'nameLength': name longer than RPG allows
+ */
+export type DiagnosticCheck = 'duplicateName' | 'templateDimension' | 'decimalPositions' | 'initLength' | 'unmatchedEndDs' | 'unparsedLine' | 'nameLength';
+
+/**
+ * Severity reported for a diagnostic check, or 'off' to disable it.
+ */
+export type DiagnosticLevel = 'error' | 'warning' | 'information' | 'hint' | 'off';
+
+/**
+ * Letter case applied to data type keywords in generated code.
+ */
+export type KeywordCase = 'lower' | 'title' | 'upper';
+
+/**
+ * Syntax accepted for the length of a data type.
+ * - 'none': the type takes no length
+ * - 'digits': a number of characters or digits (e.g. 10)
+ * - 'decimals': digits with optional decimal positions (e.g. 13:2)
+ * - 'varying': a length with an optional 2 or 4 byte prefix size (e.g. 100:4)
+ * - 'values': one of a fixed list of lengths (e.g. 3, 5, 10 or 20)
+ * - 'dateFormat': a date format with an optional separator (e.g. *iso or *ymd/)
+ * - 'timeFormat': a time format with an optional separator (e.g. *usa or *hms:)
+ * - 'fraction': the number of fractional seconds digits of a timestamp (0 to 12)
+ */
+export type LengthSyntax = 'none' | 'digits' | 'decimals' | 'varying' | 'values' | 'dateFormat' | 'timeFormat' | 'fraction';
+
+/**
+ * Validation rule applied to initialization values of a data type.
+ */
+export type InitRule = 'string' | 'numeric' | 'integer' | 'indicator' | 'date' | 'time' | 'timestamp' | 'pointer' | 'any';
+
+/**
+ * Formula used to calculate the byte size of a data type from its length.
+ * - 'length': one byte per character or digit
+ * - 'double': two bytes per character (graphic and UCS-2)
+ * - 'packed': two digits per byte plus the sign
+ * - 'integer': 1, 2, 4 or 8 bytes for 3, 5, 10 or 20 digits
+ * - 'binary': 2 or 4 bytes for up to 4 or 9 digits
+ * - 'varying': one byte per character plus the length prefix
+ * - 'varyingDouble': two bytes per character plus the length prefix
+ * - 'date': length of the date format, 10 for *ISO
+ * - 'time': length of the time format, 8 for *ISO
+ * - 'timestamp': 19 bytes plus the fractional seconds and their separator, 26 by default
+ */
+export type ByteSizeFormula = 'length' | 'double' | 'packed' | 'integer' | 'binary' | 'varying' | 'varyingDouble' | 'date' | 'time' | 'timestamp';
 
 // CORE INTERFACES
 
@@ -42,6 +99,14 @@ export interface Header {
     type: string;
     /** Optional dimension specification for array structures */
     dimension?: string;
+    /** Optional comment describing the structure */
+    comment?: string;
+    /** Optional additional keywords of the structure, such as psds */
+    keywords?: string[];
+    /** File (extname) or record format (likerec) of an externally described structure, with its optional second parameter, as CUSTMAST:*INPUT */
+    external?: string;
+    /** Whether the structure is generated without the qualified keyword */
+    unqualified?: boolean;
 };
 
 /**
@@ -61,15 +126,107 @@ export interface Field {
     init?: string;
     /** Optional dimension for array fields */
     dim?: number;
+    /** Optional starting position in the structure, generated as pos(n) */
+    pos?: number;
+    /** Optional subfield overlaid by this field, as name, name:position or name:*next */
+    overlay?: string;
+    /** Optional structure, field or record format referenced by a likeds, like or likerec field (type holds the keyword) */
+    reference?: string;
+    /** Optional external field renamed by a subfield of an extname structure (type is extfld) */
+    extfld?: string;
     /** Whether this field is a substructure containing nested fields */
     isStructure: boolean;
     /** Array of nested fields (only used when isStructure is true) */
     fields: Field[];
+    /** Optional comment describing the field */
+    comment?: string;
+};
+
+/**
+ * Definition of a data type available for fields.
+ * Built-in types can be overridden, and new types or aliases added, from the configuration.
+ */
+export interface DataTypeDefinition {
+    /** Name of the type in the structure (e.g. 'char', 'custno') */
+    name: string;
+    /** Free-form keyword in lowercase, with its parameter for aliases (e.g. 'char', 'like(custno_t)') */
+    keyword: string;
+    /** Whether a length must be entered for the type */
+    lengthRequired: boolean;
+    /** Syntax accepted for the length */
+    lengthSyntax: LengthSyntax;
+    /** Allowed lengths when the syntax is 'values' */
+    lengthValues?: number[];
+    /** Maximum length (characters or digits) */
+    maxLength?: number;
+    /** Validation rule for initialization values */
+    initRule: InitRule;
+    /** Formula applied to the length, or fixed number of bytes (undefined if unknown) */
+    byteSize?: ByteSizeFormula | number;
+    /** Alignment in bytes inside a data structure */
+    alignment?: number;
+    /** Internal data type letter of fixed-form D-specs (column 40) */
+    fixedType?: string;
+    /** Whether fixed-form columns 41-42 hold decimal positions for the type */
+    fixedDecimals?: boolean;
+    /** Whether the type is left out of the type picker */
+    hidden?: boolean;
+};
+
+/**
+ * Location in a source document where the current structure was imported from.
+ * Used to replace the original block when the structure is updated in place.
+ */
+export interface SourceReference {
+    /** URI of the document that contains the structure */
+    uri: string;
+    /** Name of the structure when it was imported */
+    name: string;
+    /** Line of the dcl-ds declaration (0-based) */
+    startLine: number;
+    /** Line of the matching end-ds (0-based) */
+    endLine: number;
+};
+
+/**
+ * Complete state of the structure being edited: header, fields and source link.
+ * Used to keep snapshots of the model for undo/redo and to persist it between sessions.
+ */
+export interface StructureState {
+    /** Header of the structure */
+    header: Header;
+    /** Fields of the structure */
+    fields: Field[];
+    /** Source location of the imported structure, if any */
+    sourceReference?: SourceReference;
+};
+
+/**
+ * A structure being designed. Several drafts can be open at once;
+ * the header, fields and sourceReference globals point to the objects of the active draft.
+ */
+export interface StructureDraft extends StructureState {
+    /** Identifier of the draft, unique in the session */
+    id: number;
+};
+
+/**
+ * Keyword that can be added to a structure from the Structure definition view.
+ */
+export interface StructureKeyword {
+    /** Keyword in lowercase */
+    keyword: string;
+    /** Short explanation shown in the keyword editor */
+    description: string;
+    /** Whether the keyword takes a parameter, and whether it must be entered */
+    parameter?: 'required' | 'optional';
+    /** Example of the parameter */
+    placeHolder?: string;
 };
 
 /**
  * Defines the format configuration for generating RPG code.
- * Contains all the keywords and type mappings for a specific format style.
+ * Contains all the keywords and the data type keyword case for a specific format style.
  */
 export interface RpgFormat {
     /** Declaration start keyword (dcl-ds, Dcl-ds, DCL-DS) */
@@ -88,8 +245,8 @@ export interface RpgFormat {
     dimx: string;
     /** Initialize keyword (inz, Inz, INZ) */
     inz: string;
-    /** Mapping of data types to their format-specific representations */
-    typeMap: RpgTypeMap;
+    /** Letter case of data type keywords */
+    keywordCase: KeywordCase;
 };
 
 // COMMAND CONSTANTS
@@ -117,14 +274,103 @@ export const COMMANDS = {
     DELETE_FIELD: 'rpgStructure.deleteField',
     /** Command fired when a configuration item is clicked */
     CONFIG_ITEM_CLICK: 'rpgStructure.configuration.itemClick',
+    /** Command to open the extension settings in the Settings editor */
+    OPEN_SETTINGS: 'rpgStructure.openSettings',
     /** Command import structure from cursor */
     IMPORT_FROM_CURSOR: 'rpgStructure.importFromCursor',
     /** Command import structure from list */
     IMPORT_FROM_LIST: 'rpgStructure.showStructureList',
     /** Command add dimension to a field */
-    ADD_DIMENSION: 'rpgStructure.addDimension'
+    ADD_DIMENSION: 'rpgStructure.addDimension',
+    /** Command to edit an existing field or substructure */
+    EDIT_FIELD: 'rpgStructure.editField',
+    /** Command to replace the imported structure in its source document */
+    UPDATE_IN_SOURCE: 'rpgStructure.updateInSource',
+    /** Command to generate an SQL CREATE TABLE statement from the structure */
+    GENERATE_SQL_TABLE: 'rpgStructure.generateSqlTable',
+    /** Command import structure from an SQL CREATE TABLE or CREATE VIEW statement */
+    IMPORT_FROM_SQL: 'rpgStructure.importFromSql',
+    /** Command import structure from a DDS physical or logical file source */
+    IMPORT_FROM_DDS: 'rpgStructure.importFromDds',
+    /** Command to undo the last change to the structure */
+    UNDO: 'rpgStructure.undo',
+    /** Command to redo the last undone change to the structure */
+    REDO: 'rpgStructure.redo',
+    /** Command to open a new empty structure draft */
+    NEW_STRUCTURE: 'rpgStructure.newStructure',
+    /** Command fired when a structure draft is clicked, to make it the active one */
+    SELECT_STRUCTURE: 'rpgStructure.selectStructure',
+    /** Command to rename a structure draft */
+    RENAME_STRUCTURE: 'rpgStructure.renameStructure',
+    /** Command to duplicate a structure draft */
+    DUPLICATE_STRUCTURE: 'rpgStructure.duplicateStructure',
+    /** Command to close a structure draft */
+    CLOSE_STRUCTURE: 'rpgStructure.closeStructure',
+    /** Command to save the current structure in the library */
+    SAVE_TO_LIBRARY: 'rpgStructure.saveToLibrary',
+    /** Command to read the library again */
+    REFRESH_LIBRARY: 'rpgStructure.refreshLibrary',
+    /** Command fired when a library structure is clicked, to preview its code */
+    PREVIEW_LIBRARY_STRUCTURE: 'rpgStructure.previewLibraryStructure',
+    /** Command to load a library structure into the views */
+    LOAD_FROM_LIBRARY: 'rpgStructure.loadFromLibrary',
+    /** Command to insert a library structure into the active document */
+    INSERT_FROM_LIBRARY: 'rpgStructure.insertFromLibrary',
+    /** Command to delete a structure from the library */
+    DELETE_FROM_LIBRARY: 'rpgStructure.deleteFromLibrary',
+    /** Command to pick a structure from the catalog of IBM i system structures */
+    INSERT_SYSTEM_STRUCTURE: 'rpgStructure.insertSystemStructure'
 } as const;
 
+/**
+ * File extensions of DDS physical and logical file sources.
+ */
+export const DDS_EXTENSIONS = ['pf', 'lf'] as const;
+
+/**
+ * File extensions of SQL sources, where CREATE TABLE and CREATE VIEW statements are read.
+ */
+export const SQL_EXTENSIONS = ['sql', 'table', 'view'] as const;
+
+/**
+ * File extensions of RPG sources and copy members.
+ */
+export const RPG_EXTENSIONS = ['rpgle', 'sqlrpgle', 'rpgleinc', 'rpginc'] as const;
+
+/**
+ * Keywords of fields defined like another structure (likeds), field (like) or record format (likerec).
+ */
+export const REFERENCE_KEYWORDS = ['likeds', 'like', 'likerec'] as const;
+
+/**
+ * Structure types whose subfields come from a file (extname) or a record format (likerec).
+ */
+export const EXTERNAL_STRUCTURE_TYPES = ['extname', 'likerec'] as const;
+
+/**
+ * Structure keywords offered by the keyword editor, kept in the keywords of the header.
+ * qualified and extname are edited separately (unqualified property and extname type).
+ */
+export const STRUCTURE_KEYWORDS: StructureKeyword[] = [
+    { keyword: 'based', description: 'Based on a pointer, no storage is allocated', parameter: 'required', placeHolder: 'e.g. dataPtr' },
+    { keyword: 'inz', description: 'Initialize the subfields', parameter: 'optional', placeHolder: '*extdft or *likeds (leave empty for default values)' },
+    { keyword: 'align', description: 'Align integer, float and pointer subfields', parameter: 'optional', placeHolder: '*full (leave empty for align)' },
+    { keyword: 'export', description: 'Storage defined here, shared with other modules', parameter: 'optional', placeHolder: "External name, e.g. 'CUSTOMER' (optional)" },
+    { keyword: 'import', description: 'Storage defined in another module', parameter: 'optional', placeHolder: "External name, e.g. 'CUSTOMER' (optional)" },
+    { keyword: 'static', description: 'Keep the value between calls of a procedure' },
+    { keyword: 'dtaara', description: 'Data area data structure', parameter: 'optional', placeHolder: "*auto, *var or a data area name, e.g. 'MYDTAARA'" },
+    { keyword: 'ccsid', description: 'CCSID of the subfields', parameter: 'required', placeHolder: '*exact' },
+    { keyword: 'len', description: 'Length of the structure', parameter: 'required', placeHolder: 'e.g. 500' },
+    { keyword: 'psds', description: 'Program status data structure' },
+    { keyword: 'prefix', description: 'Prefix of the subfield names (extname)', parameter: 'required', placeHolder: 'e.g. cm_, or cm_:2 to replace the first 2 characters' },
+    { keyword: 'alias', description: 'Use the alternative names of the fields (extname)' }
+];
+
+/**
+ * Second parameter of extname, selecting the fields of the file that are used.
+ */
+export const EXTNAME_USAGES = ['*ALL', '*INPUT', '*OUTPUT', '*KEY'] as const;
+
 /**
  * Context values used for VS Code's when clauses in package.json.
  * These control when certain commands and UI elements are available.
@@ -133,26 +379,43 @@ export const CONTEXTS = {
     /** Context indicating that header information exists */
     HAS_HEADER: 'rpgStructure.hasHeader',
     /** Context indicating that field data exists */
-    HAS_FIELDS: 'rpgStructure.hasFields'
+    HAS_FIELDS: 'rpgStructure.hasFields',
+    /** Context indicating that the structure was imported from a source document */
+    HAS_SOURCE: 'rpgStructure.hasSource',
+    /** Context indicating that the structure takes its subfields from a file or record format */
+    IS_EXTERNAL: 'rpgStructure.isExternal',
+    /** Context indicating that there is a change to undo */
+    CAN_UNDO: 'rpgStructure.canUndo',
+    /** Context indicating that there is an undone change to redo */
+    CAN_REDO: 'rpgStructure.canRedo'
 } as const;
 
+/**
+ * Identifier of the activity bar container of the tree views.
+ */
+export const VIEW_CONTAINER = 'rpg-structure';
+
 /**
  * Identifiers for tree data providers registered with VS Code.
  * Used to reference specific tree views in the extension.
  */
 export const TREE_DATA_PROVIDERS = {
+    /** Structure drafts tree view provider identifier */
+    STRUCTURES: 'rpg-structure-structures',
     /** Header tree view provider identifier */
     HEADER: 'rpg-structure-header',
     /** Fields tree view provider identifier */
     FIELDS: 'rpg-structure-fields',
     /** Configuration tree view provider identifier */
-    CONFIGURATION: 'rpg-structure-configuration'
+    CONFIGURATION: 'rpg-structure-configuration',
+    /** Structure library tree view provider identifier */
+    LIBRARY: 'rpg-structure-library'
 } as const;
 
 // RPG FORMAT DEFINITIONS
 
 /**
- * Comprehensive mapping of RPG format styles to their respective keywords and type mappings.
+ * Comprehensive mapping of RPG format styles to their respective keywords and keyword case.
  * Supports three case styles: lowercase, title case, and uppercase.
  */
 export const FORMAT_MAP: Readonly<Record<StructureFormat, RpgFormat>> = {
@@ -166,20 +429,7 @@ export const FORMAT_MAP: Readonly<Record<StructureFormat, RpgFormat>> = {
         autox: '*auto',
         dimx: 'dim',
         inz: 'inz',
-        typeMap: {
-            char: 'char',
-            varchar: 'varchar',
-            int: 'int',
-            packed: 'packed',
-            zoned: 'zoned',
-            uns: 'uns',
-            date: 'date',
-            time: 'time',
-            timestamp: 'timestamp',
-            bin: 'bin',
-            ind: 'ind',
-            pointer: 'pointer'
-        }
+        keywordCase: 'lower'
     },
 	// "titlecase"
     'Dcl-ds': {
@@ -191,20 +441,7 @@ export const FORMAT_MAP: Readonly<Record<StructureFormat, RpgFormat>> = {
         autox: '*Auto',
         dimx: 'Dim',
         inz: 'Inz',
-        typeMap: {
-            char: 'Char',
-            varchar: 'Varchar',
-            int: 'Int',
-            packed: 'Packed',
-            zoned: 'Zoned',
-            uns: 'Uns',
-            date: 'Date',
-            time: 'Time',
-            timestamp: 'Timestamp',
-            bin: 'Bin',
-            ind: 'Ind',
-            pointer: 'Pointer'
-        }
+        keywordCase: 'title'
     },
 	// "uppercase"
     'DCL-DS': {
@@ -216,20 +453,19 @@ export const FORMAT_MAP: Readonly<Record<StructureFormat, RpgFormat>> = {
         autox: '*AUTO',
         dimx: 'DIM',
         inz: 'INZ',
-        typeMap: {
-            char: 'CHAR',
-            varchar: 'VARCHAR',
-            int: 'INT',
-            packed: 'PACKED',
-            zoned: 'ZONED',
-            uns: 'UNS',
-            date: 'DATE',
-            time: 'TIME',
-            timestamp: 'TIMESTAMP',
-            bin: 'BIN',
-            ind: 'IND',
-            pointer: 'POINTER'
-        }
+        keywordCase: 'upper'
+    },
+	// "fixed-form" (keywords in columns 44-80, types as internal data type letters from the type registry)
+    'D-SPEC': {
+        dclds: 'DS',
+        endds: '',
+        template: 'TEMPLATE',
+        qualified: 'QUALIFIED',
+        varx: '*VAR',
+        autox: '*AUTO',
+        dimx: 'DIM',
+        inz: 'INZ',
+        keywordCase: 'upper'
     }
 } as const;
 
@@ -251,8 +487,114 @@ export let header: Header = {
     dimension: '0'
 };
 
+/**
+ * Source location of the imported structure, if any.
+ * Cleared whenever the structure is no longer linked to a document.
+ */
+export let sourceReference: SourceReference | undefined;
+
+/**
+ * Draft currently shown in the views. Its header and fields are the header and fields globals.
+ */
+export let activeDraft: StructureDraft = { id: 0, header, fields };
+
+/**
+ * All structure drafts open in the session, in the order shown in the Structures view.
+ */
+export const drafts: StructureDraft[] = [activeDraft];
+
+/** Identifier given to the next draft */
+let nextDraftId = 1;
+
 // UTILITY FUNCTIONS
 
+/**
+ * Sets or clears the source location of the current structure.
+ * 
+ * @param reference The new source reference, or undefined to unlink
+ */
+export function setSourceReference(reference: SourceReference | undefined): void {
+    sourceReference = reference;
+    activeDraft.sourceReference = reference;
+};
+
+/**
+ * Makes a draft the active one, so the header, fields and sourceReference globals point to it.
+ * 
+ * @param draft The draft to activate
+ */
+export function activateDraft(draft: StructureDraft): void {
+    activeDraft = draft;
+    header = draft.header;
+    fields = draft.fields;
+    sourceReference = draft.sourceReference;
+};
+
+/**
+ * Creates a new draft, empty or copied from a state, and adds it after the existing drafts.
+ * The new draft is not activated.
+ * 
+ * @param state Optional state to copy into the draft
+ * @returns The new draft
+ */
+export function createDraft(state?: StructureState): StructureDraft {
+    const draft: StructureDraft = {
+        id: nextDraftId++,
+        header: state ? cloneHeader(state.header) : { name: '', type: '', dimension: '0' },
+        fields: state ? cloneFields(state.fields) : [],
+        sourceReference: state?.sourceReference ? { ...state.sourceReference } : undefined
+    };
+    drafts.push(draft);
+    return draft;
+};
+
+/**
+ * Removes a draft. If it was the active draft, the next one (or the previous one) is activated,
+ * and an empty draft is created when no draft is left.
+ * 
+ * @param draft The draft to close
+ */
+export function closeDraft(draft: StructureDraft): void {
+    const index = drafts.indexOf(draft);
+    if (index === -1) {
+        return;
+    };
+
+    drafts.splice(index, 1);
+    if (drafts.length === 0) {
+        createDraft();
+    };
+
+    if (draft === activeDraft) {
+        activateDraft(drafts[Math.min(index, drafts.length - 1)]);
+    };
+};
+
+/**
+ * Replaces all drafts with copies of the given states (used to restore a previous session).
+ * 
+ * @param states The states of the drafts, at least one
+ * @param activeIndex Index of the draft to activate
+ */
+export function loadDrafts(states: StructureState[], activeIndex: number): void {
+    drafts.length = 0;
+    states.forEach(state => createDraft(state));
+    if (drafts.length === 0) {
+        createDraft();
+    };
+    activateDraft(drafts[activeIndex] ?? drafts[0]);
+};
+
+/**
+ * Finds an open draft by its identifier.
+ * 
+ * @param id The identifier of the draft
+ * @returns The draft, or undefined if it was closed
+ */
+export function findDraftById(id: number): StructureDraft | undefined {
+    return drafts.find(draft => draft.id === id);
+};
+
 /**
  * Resets the global fields array to an empty state.
  * Useful for clearing the structure and starting over.
@@ -269,6 +611,10 @@ export function clearHeader(): void {
     header.name = '';
     header.type = '';
     header.dimension = '0';
+    header.comment = undefined;
+    header.keywords = undefined;
+    header.external = undefined;
+    header.unqualified = undefined;
 };
 
 /**
@@ -299,6 +645,110 @@ export function createField(
     };
 };
 
+/**
+ * Creates a deep copy of a list of fields, keeping only the field properties.
+ * Fields added from the views are tree items, so copying them this way
+ * leaves out the tree item properties.
+ * 
+ * @param fieldList The fields to copy
+ * @returns A new list of plain Field objects
+ */
+export function cloneFields(fieldList: Field[]): Field[] {
+    return fieldList.map(field => ({
+        idNumber: field.idNumber,
+        name: field.name,
+        type: field.type,
+        length: field.length,
+        init: field.init,
+        dim: field.dim,
+        pos: field.pos,
+        overlay: field.overlay,
+        reference: field.reference,
+        extfld: field.extfld,
+        isStructure: field.isStructure,
+        fields: cloneFields(field.fields),
+        comment: field.comment
+    }));
+};
+
+/**
+ * Creates a copy of a header that does not share its keyword list.
+ * 
+ * @param source The header to copy
+ * @returns A new Header object
+ */
+export function cloneHeader(source: Header): Header {
+    return {
+        ...source,
+        keywords: source.keywords ? [...source.keywords] : undefined
+    };
+};
+
+/**
+ * Copies the header, fields and source reference of a draft.
+ * 
+ * @param draft The draft to copy (defaults to the active draft)
+ * @returns A state that does not share any object with the model
+ */
+export function getStructureState(draft: StructureDraft = activeDraft): StructureState {
+    return {
+        header: cloneHeader(draft.header),
+        fields: cloneFields(draft.fields),
+        sourceReference: draft.sourceReference ? { ...draft.sourceReference } : undefined
+    };
+};
+
+/**
+ * Replaces the header, fields and source reference of the active draft with a state.
+ * The global objects are updated in place, as the rest of the extension keeps references to them.
+ * 
+ * @param state The state to load
+ */
+export function setStructureState(state: StructureState): void {
+    const target = header as unknown as Record<string, unknown>;
+    for (const key of Object.keys(target)) {
+        delete target[key];
+    };
+    Object.assign(header, cloneHeader(state.header));
+
+    fields.length = 0;
+    fields.push(...cloneFields(state.fields));
+
+    setSourceReference(state.sourceReference ? { ...state.sourceReference } : undefined);
+};
+
+/**
+ * Checks that a value read from storage has the shape of a structure state.
+ * 
+ * @param value The value to check
+ * @returns True if the value can be loaded as a structure
+ */
+export function isStructureState(value: unknown): value is StructureState {
+    const state = value as StructureState | null | undefined;
+    return typeof state === 'object'
+        && state !== null
+        && typeof state.header === 'object'
+        && state.header !== null
+        && Array.isArray(state.fields)
+        && state.fields.every(isStoredField);
+};
+
+/**
+ * Checks that a stored field and its subfields have the required properties.
+ * 
+ * @param field The field to check
+ * @returns True if the field can be loaded
+ */
+function isStoredField(field: Field): boolean {
+    return typeof field === 'object'
+        && field !== null
+        && typeof field.name === 'string'
+        && typeof field.type === 'string'
+        && typeof field.isStructure === 'boolean'
+        && Array.isArray(field.fields)
+        && field.fields.every(isStoredField);
+};
+
 /**
  * Validates that a structure format is supported.
  * 
@@ -4,7 +4,8 @@
 	rpg-structure.parser.ts
 */
 
-import { Field, Header, StructureFormat, FORMAT_MAP, isValidStructureFormat } from './rpg-structure.model';
+import { Field, Header, StructureFormat, REFERENCE_KEYWORDS, isValidStructureFormat } from './rpg-structure.model';
+import { findDataTypeByKeyword, findDataTypeByFixedType, hasKeywordParameter } from './rpg-structure.types';
 
 /**
  * Interface for parsed RPG structure data
@@ -15,6 +16,50 @@ export interface ParsedStructure {
     format: StructureFormat;
     success: boolean;
     errors: string[];
+    /** Line where the dcl-ds declaration starts (0-based) */
+    startLine?: number;
+    /** Line where the matching end-ds is found (0-based) */
+    endLine?: number;
+}
+
+/**
+ * A fixed-form D-spec definition, including its name and keyword continuation lines
+ */
+interface FixedDefinition {
+    /** Full name, joined from "..." continuation lines */
+    name: string;
+    /** Definition type from columns 24-25 (DS, S, C, PR, PI or blank for subfields) */
+    definitionType: string;
+    /** From position, columns 26-32, or a special subfield such as *PROC in columns 26-39 */
+    from: string;
+    /** To position or length, columns 33-39 */
+    to: string;
+    /** Internal data type letter, column 40 */
+    dataType: string;
+    /** Decimal positions, columns 41-42 */
+    decimals: string;
+    /** Keywords from columns 44-80 of all lines of the definition */
+    keywords: string;
+    /** Comment from columns 81-100 or from the comment lines above the definition */
+    comment?: string;
+    /** Whether column 22 holds E (externally described structure or subfield) */
+    external: boolean;
+    /** Data structure type from column 23 (S for a program status DS, U for a data area DS) */
+    dsType: string;
+    /** First line of the definition (0-based) */
+    startLine: number;
+    /** Last line of the definition (0-based) */
+    endLine: number;
+}
+
+/**
+ * A fixed-form data structure found in the source
+ */
+interface FixedStructure {
+    definition: FixedDefinition;
+    subfields: FixedDefinition[];
+    startLine: number;
+    endLine: number;
 }
 
 /**
@@ -30,10 +75,60 @@ export class RpgStructureParser {
     ];
 
     private static readonly FIELD_PATTERN = 
-        /^\s*([a-zA-Z_][a-zA-Z0-9_@#]*)\s+([a-zA-Z]+)(?:\(([^)]+)\))?\s*(?:(inz|Inz|INZ)\(([^)]+)\))?\s*(?:(dim|Dim|DIM)\(([^)]+)\))?\s*;/i;
+        /^\s*([a-zA-Z_][a-zA-Z0-9_@#]*)\s+(\*?[a-zA-Z][a-zA-Z0-9]*)(?:\s*\(((?:[^()']|'[^']*'|\([^()]*\))+)\))?((?:\s*[a-zA-Z][a-zA-Z0-9-]*(?:\s*\((?:[^()']|'[^']*')*\))?)*)\s*;/i;
 
     private static readonly SUBSTRUCTURE_START_PATTERN = 
-        /^\s*([a-zA-Z_][a-zA-Z0-9_@#]*)\s+(likeds|LikeDs|LIKEDS|template|Template|TEMPLATE)\s*(?:\(([^)]+)\))?\s*;/i;
+        /^\s*([a-zA-Z_][a-zA-Z0-9_@#]*)\s+(template|Template|TEMPLATE)\s*(?:\(([^)]+)\))?\s*;/i;
+
+    /** Keywords of a structure declaration that is complete on one line (no subfields, no separate end-ds) */
+    private static readonly SINGLE_LINE_STRUCTURE_PATTERN = /(?:\bend-ds\s*$|\blike(?:ds|rec)\s*\()/i;
+
+    /** Structure keywords kept in the header, besides the type, dimension and qualified */
+    private static readonly HEADER_KEYWORDS = [
+        'BASED', 'INZ', 'ALIGN', 'EXPORT', 'IMPORT', 'STATIC', 'DTAARA', 'CCSID', 'LEN', 'PSDS', 'PREFIX', 'ALIAS', 'EXT'
+    ];
+
+    /** Structure keywords read into the type, dimension, qualified and external file of the header */
+    private static readonly HEADER_PROPERTY_KEYWORDS = ['QUALIFIED', 'TEMPLATE', 'DIM', 'EXTNAME', 'LIKEREC', 'END-DS'];
+
+    /** Keywords after the type of a free-form subfield that are kept on import */
+    private static readonly SUBFIELD_KEYWORDS = ['INZ', 'DIM', 'POS', 'OVERLAY'];
+
+    /** Keywords of a fixed-form subfield that are kept on import */
+    private static readonly FIXED_SUBFIELD_KEYWORDS = [
+        'INZ', 'DIM', 'POS', 'OVERLAY', 'EXTFLD', 'LIKE', 'LIKEDS', 'LIKEREC', 'VARYING', 'DATFMT', 'TIMFMT'
+    ];
+
+    /** Special subfields of a program status DS (*proc, *status...), with the subfield they stand for */
+    private static readonly PSDS_SUBFIELDS: Record<string, Pick<Field, 'type' | 'length' | 'pos'>> = {
+        '*PROC': { type: 'char', length: '10', pos: 1 },
+        '*STATUS': { type: 'zoned', length: '5:0', pos: 11 },
+        '*ROUTINE': { type: 'char', length: '8', pos: 29 },
+        '*PARMS': { type: 'zoned', length: '3:0', pos: 37 }
+    };
+
+    /** Special subfields of a file information DS, the only other structure that accepts them */
+    private static readonly INFDS_SUBFIELDS: Record<string, Pick<Field, 'type' | 'length' | 'pos'>> = {
+        '*FILE': { type: 'char', length: '8', pos: 1 },
+        '*STATUS': { type: 'zoned', length: '5:0', pos: 11 },
+        '*OPCODE': { type: 'char', length: '6', pos: 16 },
+        '*ROUTINE': { type: 'char', length: '8', pos: 22 },
+        '*RECORD': { type: 'char', length: '8', pos: 38 },
+        '*SIZE': { type: 'zoned', length: '4:0', pos: 67 },
+        '*INP': { type: 'zoned', length: '2:0', pos: 71 },
+        '*OUT': { type: 'zoned', length: '2:0', pos: 73 },
+        '*MODE': { type: 'zoned', length: '2:0', pos: 75 }
+    };
+
+    private static readonly FIXED_D_SPEC_PATTERN = /^.{5}[dD]/;
+
+    private static readonly FIXED_DEFINITION_TYPES = ['', 'DS', 'S', 'C', 'PR', 'PI'];
+
+    /** Storage size in bytes to number of digits, for I and U subfields with from/to positions */
+    private static readonly FIXED_INTEGER_DIGITS: Record<number, number> = { 1: 3, 2: 5, 4: 10, 8: 20 };
+
+    /** Storage size in bytes to number of digits, for B subfields with from/to positions */
+    private static readonly FIXED_BINARY_DIGITS: Record<number, number> = { 2: 4, 4: 9 };
 
     /**
      * Parses RPG structure from text content at specified cursor position
@@ -52,19 +147,35 @@ export class RpgStructureParser {
             // Find structure boundaries
             const boundaries = this.findStructureBoundaries(lines, cursorLine);
             if (!boundaries) {
+                // Legacy sources declare structures with fixed-form D-specs
+                const fixed = this.findFixedStructures(lines)
+                    .find(structure => cursorLine >= structure.startLine && cursorLine <= structure.endLine);
+                if (fixed) {
+                    return this.buildFixedStructure(fixed);
+                }
+
                 result.errors.push('No RPG structure found at cursor position');
                 return result;
             }
 
             const { startLine, endLine, headerMatch } = boundaries;
 
+            const unsupported = this.getUnsupportedReason(headerMatch[2], this.parseKeywords(headerMatch[3] ?? ''));
+            if (unsupported) {
+                result.errors.push(unsupported);
+                return result;
+            }
+
             // Parse header
             result.header = this.parseHeader(headerMatch);
             result.format = this.detectFormat(headerMatch[1]);
+            result.startLine = this.applyHeaderComment(result.header, lines, startLine);
+            result.endLine = endLine;
 
             // Parse fields
             const structureLines = lines.slice(startLine + 1, endLine);
             result.fields = this.parseFields(structureLines, result.format);
+            this.resolveSpecialSubfields(result.header, result.fields);
 
             result.success = true;
             return result;
@@ -103,6 +214,15 @@ export class RpgStructureParser {
             // Check for structure start
             for (const pattern of this.STRUCTURE_START_PATTERNS) {
                 const match = line.match(pattern);
+                if (match && this.SINGLE_LINE_STRUCTURE_PATTERN.test(match[3] ?? '')) {
+                    structures.push({
+                        startLine: i,
+                        endLine: i,
+                        headerMatch: match,
+                        level: structureStack.length
+                    });
+                    break;
+                }
                 if (match) {
                     structureStack.push({
                         startLine: i,
@@ -199,7 +319,77 @@ export class RpgStructureParser {
             }
         }
 
-        return { name, type, dimension };
+        // Externally described structures take their subfields from a file or record format
+        const keywords = this.parseKeywords(modifiers);
+        const external = this.readExtname(name, keywords) ?? keywords.get('LIKEREC');
+        if (external) {
+            type = keywords.has('EXTNAME') || keywords.has('EXT') ? 'extname' : 'likerec';
+        }
+
+        return {
+            name,
+            type,
+            dimension,
+            keywords: this.readHeaderKeywords(keywords),
+            external: external ? this.normalizeExternal(external) : undefined,
+            unqualified: this.isUnqualified(type, keywords)
+        };
+    }
+
+    /**
+     * Returns why a structure declaration cannot be imported, or undefined if it can.
+     * A likeds structure has the subfields of another structure and would be written back without them.
+     */
+    private static getUnsupportedReason(name: string, keywords: Map<string, string | undefined>): string | undefined {
+        const likeds = keywords.get('LIKEDS');
+        if (keywords.has('LIKEDS')) {
+            return `${name} is declared with likeds(${likeds ?? ''}) and has the subfields of ${likeds ?? 'another structure'}: import that structure instead`;
+        }
+        return undefined;
+    }
+
+    /**
+     * Reads the file of an externally described structure. ext, or extname without a file,
+     * uses the file named like the structure and keeps ext in the keywords to generate it again.
+     */
+    private static readExtname(name: string, keywords: Map<string, string | undefined>): string | undefined {
+        const extname = keywords.get('EXTNAME');
+        if (extname) {
+            return extname;
+        }
+        if (keywords.has('EXT') || keywords.has('EXTNAME')) {
+            keywords.set('EXT', undefined);
+            return name;
+        }
+        return undefined;
+    }
+
+    /**
+     * Checks whether a structure is declared without the qualified keyword (likerec structures are always qualified)
+     */
+    private static isUnqualified(type: string, keywords: Map<string, string | undefined>): true | undefined {
+        return type !== 'likerec' && !keywords.has('QUALIFIED') ? true : undefined;
+    }
+
+    /**
+     * Reads the structure keywords kept in the header (based, inz, psds, prefix...), in lowercase
+     */
+    private static readHeaderKeywords(keywords: Map<string, string | undefined>): string[] | undefined {
+        const kept = [...keywords.entries()]
+            .filter(([keyword]) => this.HEADER_KEYWORDS.includes(keyword))
+            .map(([keyword, parameter]) => parameter === undefined ? keyword.toLowerCase() : `${keyword.toLowerCase()}(${parameter})`);
+
+        return kept.length > 0 ? kept : undefined;
+    }
+
+    /**
+     * Removes the quotes and spaces of an extname or likerec parameter ('CUSTMAST' : *INPUT becomes CUSTMAST:*INPUT)
+     */
+    private static normalizeExternal(parameter: string): string {
+        return parameter
+            .split(':')
+            .map(part => part.trim().replace(/^'|'$/g, ''))
+            .join(':');
     }
 
     /**
@@ -219,20 +409,36 @@ export class RpgStructureParser {
         const fields: Field[] = [];
         let idCounter = 0;
         let i = 0;
+        // Comment lines directly above a declaration describe it
+        let pendingComment: string[] = [];
 
         while (i < lines.length) {
             const line = lines[i].trim();
             
-            if (!line || line.startsWith('//')) {
+            if (!line) {
+                pendingComment = [];
+                i++;
+                continue;
+            }
+
+            if (line.startsWith('//')) {
+                const text = line.substring(2).trim();
+                if (text) {
+                    pendingComment.push(text);
+                }
                 i++;
                 continue;
             }
 
+            const comment = this.extractComment(line) ?? (pendingComment.length > 0 ? pendingComment.join(' ') : undefined);
+            pendingComment = [];
+
             // Check for nested structure (dcl-ds inside another structure)
             const nestedStructMatch = line.match(/^\s*(dcl-ds|Dcl-ds|DCL-DS)\s+([a-zA-Z_][a-zA-Z0-9_@#]*)\s*(.*?);/i);
             if (nestedStructMatch) {
                 const nestedStruct = this.parseNestedStructure(lines, i, idCounter++, format);
                 if (nestedStruct.field) {
+                    nestedStruct.field.comment = comment;
                     fields.push(nestedStruct.field);
                     i = nestedStruct.nextLine;
                 } else {
@@ -241,11 +447,12 @@ export class RpgStructureParser {
                 continue;
             }
 
-            // Check for substructure (likeds/template without dcl-ds)
+            // Check for substructure (template without dcl-ds)
             const subStructMatch = line.match(this.SUBSTRUCTURE_START_PATTERN);
             if (subStructMatch) {
                 const subStruct = this.parseSubstructure(lines, i, idCounter++, format);
                 if (subStruct.field) {
+                    subStruct.field.comment = comment;
                     fields.push(subStruct.field);
                     i = subStruct.nextLine;
                 } else {
@@ -257,7 +464,8 @@ export class RpgStructureParser {
             // Parse regular field
             const fieldMatch = line.match(this.FIELD_PATTERN);
             if (fieldMatch) {
-                const field = this.parseFieldFromMatch(fieldMatch, idCounter++, format);
+                const field = this.parseFieldFromMatch(fieldMatch, idCounter++);
+                field.comment = comment;
                 fields.push(field);
             }
 
@@ -366,7 +574,7 @@ export class RpgStructureParser {
         const dimension = match[3] ? match[3].trim() : undefined;
         const baseIndent = this.getIndentLevel(line);
 
-        // For simple substructures (likeds/template), look for fields with deeper indentation
+        // For simple substructures (template), look for fields with deeper indentation
         // until we find a field at the same level or shallower, or another structure declaration
         let endIndex = startIndex + 1;
         
@@ -413,26 +621,61 @@ export class RpgStructureParser {
     /**
      * Parses a field from regex match
      */
-    private static parseFieldFromMatch(match: RegExpMatchArray, id: number, format: StructureFormat): Field {
+    private static parseFieldFromMatch(match: RegExpMatchArray, id: number): Field {
         const name = match[1].trim();
         const type = match[2].trim();
-        const length = match[3] ? match[3].trim() : undefined;
-        const init = match[5] ? match[5].trim() : undefined;
-        const dimStr = match[7] ? match[7].trim() : undefined;
+        let length = match[3] ? match[3].trim() : undefined;
+
+        // Keywords after the type may come in any order
+        const keywords = this.parseKeywords(match[4] ?? '');
+        const init = keywords.get('INZ')?.trim() || undefined;
+        const dimStr = keywords.get('DIM')?.trim();
         const dim = dimStr ? parseInt(dimStr, 10) : undefined;
 
-        // Reverse map type from format-specific to generic
-        const formatConfig = FORMAT_MAP[format];
-        let genericType = type;
-        
-        if (formatConfig?.typeMap) {
-            // Find generic type by looking up the value in typeMap
-            for (const [generic, formatted] of Object.entries(formatConfig.typeMap)) {
-                if (formatted.toLowerCase() === type.toLowerCase()) {
-                    genericType = generic;
-                    break;
-                }
-            }
+        // Reverse map the keyword to the type registry, in any case style
+        const definition = findDataTypeByKeyword(type, length);
+        const genericType = definition ? definition.name : type;
+
+        // Subfields of extname structures rename an external field, or only give it an initial value
+        const keyword = type.toLowerCase();
+        if (keyword === 'extfld') {
+            return {
+                idNumber: id,
+                name,
+                type: keyword,
+                length: undefined,
+                init,
+                dim: undefined,
+                extfld: length ? this.normalizeExternal(length).toUpperCase() : name.toUpperCase(),
+                isStructure: false,
+                fields: []
+            };
+        }
+
+        // likeds, likerec and like fields that are not type aliases refer to another definition
+        if (!definition && length && (REFERENCE_KEYWORDS as readonly string[]).includes(keyword)) {
+            return {
+                idNumber: id,
+                name,
+                type: keyword,
+                length: undefined,
+                init,
+                dim,
+                ...this.parsePlacement(keywords),
+                reference: length.replace(/\s+/g, ''),
+                isStructure: false,
+                fields: []
+            };
+        }
+
+        // Aliases such as like(custno_t) carry their parameter in the keyword
+        if (definition && hasKeywordParameter(definition)) {
+            length = undefined;
+        }
+
+        // Date and time formats are kept in lowercase, as *ymd/
+        if (length && (definition?.lengthSyntax === 'dateFormat' || definition?.lengthSyntax === 'timeFormat')) {
+            length = length.replace(/\s+/g, '').toLowerCase();
         }
 
         return {
@@ -442,11 +685,43 @@ export class RpgStructureParser {
             length,
             init,
             dim,
+            ...this.parsePlacement(keywords),
             isStructure: false,
             fields: []
         };
     }
 
+    /**
+     * Replaces the special subfields of a program status or file information DS (*proc, *status...)
+     * with the type, length and position they stand for. The positions of *routine differ between both.
+     */
+    private static resolveSpecialSubfields(header: Header, fields: Field[]): void {
+        const psds = (header.keywords ?? []).some(keyword => keyword.trim().toUpperCase() === 'PSDS');
+        const [primary, secondary] = psds
+            ? [this.PSDS_SUBFIELDS, this.INFDS_SUBFIELDS]
+            : [this.INFDS_SUBFIELDS, this.PSDS_SUBFIELDS];
+
+        for (const field of fields) {
+            const special = field.type.toUpperCase();
+            const subfield = special.startsWith('*') ? primary[special] ?? secondary[special] : undefined;
+            if (subfield) {
+                Object.assign(field, subfield);
+            }
+        }
+    }
+
+    /**
+     * Reads the POS and OVERLAY keywords of a subfield.
+     * Fixed-form subfields with from/to positions get their from position as pos.
+     */
+    private static parsePlacement(keywords: Map<string, string | undefined>, from?: string): Pick<Field, 'pos' | 'overlay'> {
+        const overlay = keywords.get('OVERLAY')?.replace(/\s+/g, '') || undefined;
+        const posValue = keywords.get('POS')?.trim() ?? from?.trim();
+        const pos = posValue && /^\d+$/.test(posValue) ? parseInt(posValue, 10) : undefined;
+
+        return overlay ? { overlay } : { pos };
+    }
+
     /**
      * Gets the indentation level of a line
      */
@@ -455,6 +730,76 @@ export class RpgStructureParser {
         return match ? match[1].length : 0;
     }
 
+    /**
+     * Extracts the trailing // comment of a free-form line, ignoring // inside quoted literals
+     */
+    private static extractComment(line: string): string | undefined {
+        let inQuote = false;
+
+        for (let i = 0; i < line.length - 1; i++) {
+            if (line[i] === "'") {
+                inQuote = !inQuote;
+            } else if (!inQuote && line[i] === '/' && line[i + 1] === '/') {
+                const text = line.substring(i + 2).trim();
+                return text ? text : undefined;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Collects the comment lines directly above a declaration
+     * @returns The joined comment text and the first comment line, or null if there are none
+     */
+    private static findLeadingComment(
+        lines: string[],
+        declarationLine: number,
+        commentText: (line: string) => string | undefined
+    ): { comment: string; startLine: number } | null {
+        const texts: string[] = [];
+        let startLine = declarationLine;
+
+        while (startLine > 0) {
+            const text = commentText(lines[startLine - 1]);
+            if (text === undefined) {
+                break;
+            }
+            texts.unshift(text);
+            startLine--;
+        }
+
+        return texts.length > 0 ? { comment: texts.join(' '), startLine } : null;
+    }
+
+    /**
+     * Returns the text of a free-form comment line, or undefined if the line is not a comment
+     */
+    private static freeCommentText(line: string): string | undefined {
+        const trimmed = line.trim();
+        return trimmed.startsWith('//') && trimmed.length > 2 ? trimmed.substring(2).trim() : undefined;
+    }
+
+    /**
+     * Sets the structure comment from the dcl-ds line or the comment lines above it
+     * @returns First line of the structure, including its leading comment lines
+     */
+    private static applyHeaderComment(header: Header, lines: string[], startLine: number): number {
+        const trailing = this.extractComment(lines[startLine]);
+        if (trailing) {
+            header.comment = trailing;
+            return startLine;
+        }
+
+        const leading = this.findLeadingComment(lines, startLine, line => this.freeCommentText(line));
+        if (!leading) {
+            return startLine;
+        }
+
+        header.comment = leading.comment;
+        return leading.startLine;
+    }
+
     /**
      * Extracts all structures from the entire document
      */
@@ -469,18 +814,26 @@ export class RpgStructureParser {
         const topLevelBoundaries = allBoundaries.filter(boundary => boundary.level === 0);
         
         for (const boundary of topLevelBoundaries) {
+            if (this.getUnsupportedReason(boundary.headerMatch[2], this.parseKeywords(boundary.headerMatch[3] ?? ''))) {
+                continue;
+            }
+
             try {
                 const result: ParsedStructure = {
                     header: this.parseHeader(boundary.headerMatch),
                     fields: [],
                     format: this.detectFormat(boundary.headerMatch[1]),
                     success: false,
-                    errors: []
+                    errors: [],
+                    startLine: boundary.startLine,
+                    endLine: boundary.endLine
                 };
+                result.startLine = this.applyHeaderComment(result.header, lines, boundary.startLine);
 
                 // Parse fields
                 const structureLines = lines.slice(boundary.startLine + 1, boundary.endLine);
                 result.fields = this.parseFields(structureLines, result.format);
+                this.resolveSpecialSubfields(result.header, result.fields);
                 result.success = true;
                 
                 structures.push(result);
@@ -488,8 +841,223 @@ export class RpgStructureParser {
                 console.warn(`Failed to parse structure starting at line ${boundary.startLine}:`, error);
             }
         }
+
+        // Add fixed-form structures, skipping unnamed ones that cannot be imported
+        for (const fixed of this.findFixedStructures(lines)) {
+            const parsed = this.buildFixedStructure(fixed);
+            if (parsed.success) {
+                structures.push(parsed);
+            }
+        }
         
-        return structures;
+        return structures.sort((a, b) => (a.startLine ?? 0) - (b.startLine ?? 0));
+    }
+
+    /**
+     * Finds the end-ds lines that do not close a dcl-ds (0-based line numbers)
+     */
+    public static findUnmatchedEndLines(content: string): number[] {
+        const unmatched: number[] = [];
+        let depth = 0;
+
+        content.split('\n').forEach((line, index) => {
+            const trimmedLine = line.trim();
+            if (trimmedLine.startsWith('//')) {
+                return;
+            }
+
+            const startMatch = this.STRUCTURE_START_PATTERNS
+                .map(pattern => trimmedLine.match(pattern))
+                .find(match => match !== null);
+            if (startMatch) {
+                // Structures complete on one line do not open a block
+                if (!this.SINGLE_LINE_STRUCTURE_PATTERN.test(startMatch[3] ?? '')) {
+                    depth++;
+                }
+                return;
+            }
+
+            // end-ds may repeat the name of the structure it closes
+            if (/^end-ds\b/i.test(trimmedLine)) {
+                if (depth === 0) {
+                    unmatched.push(index);
+                } else {
+                    depth--;
+                }
+            }
+        });
+
+        return unmatched;
+    }
+
+    /**
+     * Finds the dcl-ds lines that are not closed by an end-ds (0-based line numbers)
+     */
+    public static findUnclosedStructureLines(content: string): number[] {
+        const open: number[] = [];
+
+        content.split('\n').forEach((line, index) => {
+            const trimmedLine = line.trim();
+            if (trimmedLine.startsWith('//')) {
+                return;
+            }
+
+            const startMatch = this.STRUCTURE_START_PATTERNS
+                .map(pattern => trimmedLine.match(pattern))
+                .find(match => match !== null);
+            if (startMatch) {
+                if (!this.SINGLE_LINE_STRUCTURE_PATTERN.test(startMatch[3] ?? '')) {
+                    open.push(index);
+                }
+                return;
+            }
+
+            if (/^end-ds\b/i.test(trimmedLine)) {
+                open.pop();
+            }
+        });
+
+        return open;
+    }
+
+    /**
+     * Finds the last of the subfield lines that follow a dcl-ds line, stopping at the
+     * first line that is not a subfield (0-based line number, the dcl-ds line if none)
+     */
+    public static findSubfieldsEnd(content: string, startLine: number): number {
+        const lines = content.split('\n');
+        let lastLine = startLine;
+
+        for (let i = startLine + 1; i < lines.length; i++) {
+            const line = lines[i].trim();
+            if (line.startsWith('//')) {
+                continue;
+            }
+            if (!line || /^(?:dcl|end|ctl)-/i.test(line) || !this.FIELD_PATTERN.test(line)) {
+                break;
+            }
+            lastLine = i;
+        }
+
+        return lastLine;
+    }
+
+    /**
+     * Finds the lines of a free-form structure that are not recognized as subfields
+     * and are left out on import (0-based line numbers)
+     */
+    public static findUnparsedLines(content: string, structure: ParsedStructure): number[] {
+        if (structure.format === 'D-SPEC' || structure.startLine === undefined || structure.endLine === undefined) {
+            return [];
+        }
+
+        const lines = content.split('\n');
+        const unparsed: number[] = [];
+        let declarationFound = false;
+
+        for (let i = structure.startLine; i < structure.endLine && i < lines.length; i++) {
+            const line = lines[i].trim();
+
+            // Skip the comment lines above the declaration and the declaration itself
+            if (!declarationFound) {
+                declarationFound = this.STRUCTURE_START_PATTERNS.some(pattern => pattern.test(line));
+                continue;
+            }
+
+            if (!line || line.startsWith('//')) {
+                continue;
+            }
+
+            const isRecognized = this.FIELD_PATTERN.test(line) ||
+                this.SUBSTRUCTURE_START_PATTERN.test(line) ||
+                this.STRUCTURE_START_PATTERNS.some(pattern => pattern.test(line)) ||
+                /^end-ds\b/i.test(line);
+            if (!isRecognized) {
+                unparsed.push(i);
+            }
+        }
+
+        return unparsed;
+    }
+
+    /**
+     * Finds the keywords of a structure and its subfields that are left out on import,
+     * and would be lost if the structure were written back (uppercase names, without parameters)
+     */
+    public static findDroppedKeywords(content: string, structure: ParsedStructure): string[] {
+        if (structure.startLine === undefined || structure.endLine === undefined) {
+            return [];
+        }
+
+        const lines = content.split('\n');
+        const headerKeywords = [...this.HEADER_KEYWORDS, ...this.HEADER_PROPERTY_KEYWORDS];
+        const dropped = new Set<string>();
+        const collect = (text: string, kept: string[]): void => {
+            [...this.parseKeywords(text).keys()]
+                .filter(keyword => !kept.includes(keyword))
+                .forEach(keyword => dropped.add(keyword));
+        };
+
+        if (structure.format === 'D-SPEC') {
+            const fixed = this.findFixedStructures(lines).find(candidate => candidate.startLine === structure.startLine);
+            if (fixed) {
+                collect(fixed.definition.keywords, headerKeywords);
+                fixed.subfields.forEach(subfield => collect(subfield.keywords, this.FIXED_SUBFIELD_KEYWORDS));
+            }
+            return [...dropped];
+        }
+
+        for (let i = structure.startLine; i <= structure.endLine && i < lines.length; i++) {
+            const line = lines[i].trim();
+            if (line.startsWith('//')) {
+                continue;
+            }
+
+            const declaration = this.STRUCTURE_START_PATTERNS
+                .map(pattern => line.match(pattern))
+                .find(match => match !== null);
+            const field = declaration ? null : line.match(this.FIELD_PATTERN);
+            if (declaration) {
+                collect(declaration[3] ?? '', headerKeywords);
+            } else if (field) {
+                collect(field[4] ?? '', this.SUBFIELD_KEYWORDS);
+            }
+        }
+
+        return [...dropped];
+    }
+
+    /**
+     * Locates a top-level structure by name in the document.
+     * When several structures share the name, the one closest to the
+     * expected start line is returned.
+     */
+    public static findStructureRange(content: string, name: string, expectedStartLine: number = 0): {
+        startLine: number;
+        endLine: number;
+    } | null {
+        const lines = content.split('\n');
+        const candidates = [
+            ...this.findAllStructureBoundaries(lines)
+                .filter(boundary => boundary.level === 0)
+                .filter(boundary => boundary.headerMatch[2].toLowerCase() === name.toLowerCase())
+                .map(boundary => ({
+                    startLine: this.applyHeaderComment({ name, type: '' }, lines, boundary.startLine),
+                    endLine: boundary.endLine
+                })),
+            ...this.findFixedStructures(lines)
+                .filter(structure => structure.definition.name.toLowerCase() === name.toLowerCase())
+        ];
+
+        if (candidates.length === 0) {
+            return null;
+        }
+
+        const closest = candidates.reduce((best, current) =>
+            Math.abs(current.startLine - expectedStartLine) < Math.abs(best.startLine - expectedStartLine) ? current : best
+        );
+
+        return { startLine: closest.startLine, endLine: closest.endLine };
     }
 
     /**
@@ -520,6 +1088,15 @@ export class RpgStructureParser {
             // Check for structure start
             for (const pattern of this.STRUCTURE_START_PATTERNS) {
                 const match = line.match(pattern);
+                if (match && this.SINGLE_LINE_STRUCTURE_PATTERN.test(match[3] ?? '')) {
+                    structures.push({
+                        startLine: i,
+                        endLine: i,
+                        headerMatch: match,
+                        level: structureStack.length
+                    });
+                    break;
+                }
                 if (match) {
                     structureStack.push({
                         startLine: i,
@@ -550,6 +1127,469 @@ export class RpgStructureParser {
         return structures;
     }
 
+    /**
+     * Returns the text between two 1-based columns (inclusive) of a line
+     */
+    private static columns(line: string, from: number, to: number): string {
+        return line.substring(from - 1, to);
+    }
+
+    /**
+     * Checks whether a line is a fixed-form D-spec (comment lines excluded)
+     */
+    private static isFixedDefinitionLine(line: string): boolean {
+        if (!this.FIXED_D_SPEC_PATTERN.test(line)) {
+            return false;
+        }
+        if (this.isFixedCommentLine(line)) {
+            return false;
+        }
+
+        // Free-form statements end with a semicolon, fixed-form positions never contain one
+        if (this.columns(line, 1, 43).includes(';')) {
+            return false;
+        }
+
+        const definitionType = this.columns(line, 24, 25).trim().toUpperCase();
+        return this.FIXED_DEFINITION_TYPES.includes(definitionType);
+    }
+
+    /**
+     * Checks whether a line is a fixed-form name continuation line ("LongName...")
+     */
+    private static isFixedNameContinuation(line: string): boolean {
+        return this.FIXED_D_SPEC_PATTERN.test(line) &&
+            !this.isFixedCommentLine(line) &&
+            !line.includes(';') &&
+            this.columns(line, 7, 80).trim().endsWith('...');
+    }
+
+    /**
+     * Checks whether a line starts a fixed-form definition, including long name continuations
+     */
+    private static startsFixedDefinition(line: string): boolean {
+        return this.isFixedNameContinuation(line) || this.isFixedDefinitionLine(line);
+    }
+
+    /**
+     * Checks whether a line is a fixed-form comment, an empty specification or a blank line
+     */
+    private static isFixedCommentLine(line: string): boolean {
+        const content = this.columns(line, 7, 80);
+        return content.startsWith('*') || content.trim() === '' || content.trim().startsWith('//');
+    }
+
+    /**
+     * Returns the text of a fixed-form comment line, or undefined if the line
+     * is not a comment or only holds a separator such as "*-----"
+     */
+    private static fixedCommentText(line: string): string | undefined {
+        if (!this.FIXED_D_SPEC_PATTERN.test(line) && this.columns(line, 6, 6).trim() !== '') {
+            return undefined;
+        }
+
+        const content = this.columns(line, 7, 80).trim();
+        const match = content.match(/^(?:\*+|\/\/)\s*(.*)$/);
+        if (!match || !/[a-zA-Z0-9]/.test(match[1])) {
+            return undefined;
+        }
+
+        return match[1].trim();
+    }
+
+    /**
+     * Reads a fixed-form definition starting at the given line, joining
+     * "..." name continuation lines and keyword continuation lines
+     */
+    private static readFixedDefinition(lines: string[], startIndex: number): FixedDefinition | null {
+        let index = startIndex;
+        let namePrefix = '';
+
+        // Long names are split over lines ending with "..."
+        while (index < lines.length && this.isFixedNameContinuation(lines[index])) {
+            namePrefix += this.columns(lines[index], 7, 80).trim().slice(0, -3).trim();
+            index++;
+        }
+
+        if (index >= lines.length || !this.isFixedDefinitionLine(lines[index])) {
+            return null;
+        }
+
+        const line = lines[index];
+        // Special subfields such as *ROUTINE take the from and to positions together
+        const special = this.columns(line, 26, 39).trim();
+        const definition: FixedDefinition = {
+            name: namePrefix + this.columns(line, 7, 21).trim(),
+            definitionType: this.columns(line, 24, 25).trim().toUpperCase(),
+            from: special.startsWith('*') ? special : this.columns(line, 26, 32).trim(),
+            to: special.startsWith('*') ? '' : this.columns(line, 33, 39).trim(),
+            dataType: this.columns(line, 40, 40).trim().toUpperCase(),
+            decimals: this.columns(line, 41, 42).trim(),
+            keywords: this.columns(line, 44, 80).trim(),
+            comment: this.columns(line, 81, 100).trim() || undefined,
+            external: this.columns(line, 22, 22).toUpperCase() === 'E',
+            dsType: this.columns(line, 23, 23).toUpperCase(),
+            startLine: startIndex,
+            endLine: index
+        };
+
+        // Keyword continuation lines only have columns 44-80 filled
+        for (let i = index + 1; i < lines.length; i++) {
+            const next = lines[i];
+            if (!this.isFixedDefinitionLine(next) || this.columns(next, 7, 43).trim() !== '') {
+                break;
+            }
+            definition.keywords += ' ' + this.columns(next, 44, 80).trim();
+            definition.endLine = i;
+        }
+
+        return definition;
+    }
+
+    /**
+     * Finds all fixed-form data structures (DS definitions and their subfields)
+     */
+    private static findFixedStructures(lines: string[]): FixedStructure[] {
+        const structures: FixedStructure[] = [];
+        let i = 0;
+
+        while (i < lines.length) {
+            const definition = this.startsFixedDefinition(lines[i]) ? this.readFixedDefinition(lines, i) : null;
+
+            if (!definition) {
+                i++;
+                continue;
+            }
+
+            if (definition.definitionType !== 'DS') {
+                i = definition.endLine + 1;
+                continue;
+            }
+
+            const structure: FixedStructure = {
+                definition,
+                subfields: [],
+                startLine: definition.startLine,
+                endLine: definition.endLine
+            };
+
+            // Without a comment in columns 81-100, the comment lines above describe the structure
+            const leading = definition.comment
+                ? null
+                : this.findLeadingComment(lines, definition.startLine, line => this.fixedCommentText(line));
+            if (leading) {
+                definition.comment = leading.comment;
+                structure.startLine = leading.startLine;
+            }
+
+            // Subfields follow the DS line until another definition or specification starts
+            let j = definition.endLine + 1;
+            let pendingComment: string[] = [];
+            while (j < lines.length) {
+                if (this.isFixedCommentLine(lines[j])) {
+                    const text = this.fixedCommentText(lines[j]);
+                    pendingComment = text === undefined ? [] : [...pendingComment, text];
+                    j++;
+                    continue;
+                }
+
+                const subfield = this.startsFixedDefinition(lines[j]) ? this.readFixedDefinition(lines, j) : null;
+                if (!subfield || subfield.definitionType !== '') {
+                    break;
+                }
+
+                if (!subfield.comment && pendingComment.length > 0) {
+                    subfield.comment = pendingComment.join(' ');
+                }
+                pendingComment = [];
+
+                structure.subfields.push(subfield);
+                structure.endLine = subfield.endLine;
+                j = subfield.endLine + 1;
+            }
+
+            structures.push(structure);
+            i = structure.endLine + 1;
+        }
+
+        return structures;
+    }
+
+    /**
+     * Splits a keyword string into keyword names (uppercased) and their parameters.
+     * Quoted literals and nested parentheses are kept intact.
+     */
+    public static parseKeywords(text: string): Map<string, string | undefined> {
+        const keywords = new Map<string, string | undefined>();
+        let i = 0;
+
+        while (i < text.length) {
+            const nameMatch = text.slice(i).match(/^[a-zA-Z0-9_*@#-]+/);
+            if (!nameMatch) {
+                i++;
+                continue;
+            }
+
+            const name = nameMatch[0].toUpperCase();
+            i += nameMatch[0].length;
+
+            while (i < text.length && text[i] === ' ') {
+                i++;
+            }
+
+            if (text[i] !== '(') {
+                keywords.set(name, undefined);
+                continue;
+            }
+
+            // Read the parameter up to the matching parenthesis
+            let depth = 0;
+            let inQuote = false;
+            const start = i + 1;
+            for (; i < text.length; i++) {
+                const char = text[i];
+                if (char === "'") {
+                    inQuote = !inQuote;
+                } else if (!inQuote && char === '(') {
+                    depth++;
+                } else if (!inQuote && char === ')') {
+                    depth--;
+                    if (depth === 0) {
+                        break;
+                    }
+                }
+            }
+
+            keywords.set(name, text.slice(start, i).trim());
+            i++;
+        }
+
+        return keywords;
+    }
+
+    /**
+     * Converts a fixed-form structure into the common parsed structure model
+     */
+    private static buildFixedStructure(structure: FixedStructure): ParsedStructure {
+        const { definition } = structure;
+        const keywords = this.parseKeywords(definition.keywords);
+
+        // DIM(*VAR:n) and DIM(*AUTO:n) select the structure type, as in free-form
+        let type = keywords.has('TEMPLATE') ? 'template' : 'Default';
+        let dimension = keywords.get('DIM') ?? '0';
+        const varyingMatch = dimension.match(/^\*(var|auto)\s*:\s*(.+)$/i);
+        if (varyingMatch) {
+            type = `*${varyingMatch[1].toLowerCase()}`;
+            dimension = varyingMatch[2].trim();
+        }
+
+        // E in column 22 without EXTNAME uses the file named like the structure, as ext in free-form
+        if (definition.external && !keywords.has('EXTNAME')) {
+            keywords.set('EXT', undefined);
+        }
+        const extname = this.readExtname(definition.name, keywords);
+        const external = extname ?? keywords.get('LIKEREC');
+        if (external) {
+            type = extname ? 'extname' : 'likerec';
+        }
+
+        // S in column 23 marks a program status DS and U a data area DS
+        if (definition.dsType === 'S') {
+            keywords.set('PSDS', undefined);
+        } else if (definition.dsType === 'U' && !keywords.has('DTAARA')) {
+            keywords.set('DTAARA', '*AUTO');
+        }
+
+        const result: ParsedStructure = {
+            header: {
+                name: definition.name,
+                type,
+                dimension,
+                comment: definition.comment,
+                keywords: this.readHeaderKeywords(keywords),
+                external: external ? this.normalizeExternal(external) : undefined,
+                unqualified: this.isUnqualified(type, keywords)
+            },
+            fields: structure.subfields.map((subfield, index) => this.buildFixedField(subfield, index)),
+            format: 'D-SPEC',
+            success: false,
+            errors: [],
+            startLine: structure.startLine,
+            endLine: structure.endLine
+        };
+
+        if (!definition.name) {
+            result.errors.push('Unnamed data structures cannot be imported');
+            return result;
+        }
+
+        this.resolveSpecialSubfields(result.header, result.fields);
+
+        const unsupported = this.getUnsupportedReason(definition.name, keywords);
+        if (unsupported) {
+            result.errors.push(unsupported);
+            return result;
+        }
+
+        result.success = true;
+        return result;
+    }
+
+    /**
+     * Converts a fixed-form subfield definition into a field
+     */
+    private static buildFixedField(definition: FixedDefinition, id: number): Field {
+        const keywords = this.parseKeywords(definition.keywords);
+        const dimValue = keywords.get('DIM');
+        const dim = dimValue && /^\d+$/.test(dimValue) ? parseInt(dimValue, 10) : undefined;
+        const placement = this.parsePlacement(keywords, /^\d+$/.test(definition.from) ? definition.from : undefined);
+
+        const init = keywords.get('INZ');
+
+        // Special subfields (*PROC, *STATUS...) are given in the from position and resolved with the structure
+        if (definition.from.startsWith('*')) {
+            return {
+                idNumber: id,
+                name: definition.name,
+                type: definition.from.toLowerCase(),
+                length: undefined,
+                init: undefined,
+                dim: undefined,
+                isStructure: false,
+                fields: [],
+                comment: definition.comment
+            };
+        }
+
+        // Subfields marked with E rename an external field (EXTFLD), or only give it an initial value
+        if (definition.external || keywords.has('EXTFLD')) {
+            const extfld = keywords.get('EXTFLD');
+            return {
+                idNumber: id,
+                name: definition.name,
+                type: 'extfld',
+                length: undefined,
+                init: init ? init : undefined,
+                dim: undefined,
+                extfld: extfld ? this.normalizeExternal(extfld).toUpperCase() : definition.name.toUpperCase(),
+                isStructure: false,
+                fields: [],
+                comment: definition.comment
+            };
+        }
+
+        // LIKE(...) subfields map back to the type aliases of the registry
+        const likeValue = keywords.get('LIKE');
+        const alias = likeValue !== undefined ? findDataTypeByKeyword('like', likeValue) : undefined;
+
+        // LIKEDS, LIKEREC and the other LIKE subfields refer to another definition
+        const referenceKeyword = ['LIKEDS', 'LIKEREC', 'LIKE']
+            .find(keyword => keywords.get(keyword) && !(keyword === 'LIKE' && alias && hasKeywordParameter(alias)));
+        if (referenceKeyword) {
+            return {
+                idNumber: id,
+                name: definition.name,
+                type: referenceKeyword.toLowerCase(),
+                length: undefined,
+                init: init ? init : undefined,
+                dim,
+                ...placement,
+                reference: keywords.get(referenceKeyword)!.replace(/\s+/g, ''),
+                isStructure: false,
+                fields: [],
+                comment: definition.comment
+            };
+        }
+
+        if (alias && hasKeywordParameter(alias)) {
+            return {
+                idNumber: id,
+                name: definition.name,
+                type: alias.name,
+                length: undefined,
+                init: init ? init : undefined,
+                dim,
+                ...placement,
+                isStructure: false,
+                fields: [],
+                comment: definition.comment
+            };
+        }
+
+        const decimals = /^\d+$/.test(definition.decimals) ? parseInt(definition.decimals, 10) : undefined;
+
+        // Without a data type letter, subfields with decimals are zoned, others are character
+        let dataType = definition.dataType;
+        if (!dataType) {
+            dataType = decimals !== undefined ? 'S' : 'A';
+        }
+
+        // The type registry maps the letter back, VARYING selects the varying-length type
+        const varying = keywords.has('VARYING');
+        const dataTypeDefinition = findDataTypeByFixedType(dataType, varying);
+        const type = dataTypeDefinition?.name ?? dataType.toLowerCase();
+
+        // With from/to positions the length is given in bytes, otherwise in digits or characters
+        const hasPositions = /^\d+$/.test(definition.from) && /^\d+$/.test(definition.to);
+        const bytes = hasPositions ? parseInt(definition.to, 10) - parseInt(definition.from, 10) + 1 : undefined;
+        let size = /^\d+$/.test(definition.to) ? parseInt(definition.to, 10) : undefined;
+
+        if (bytes !== undefined) {
+            switch (dataType) {
+                case 'P':
+                    size = bytes * 2 - 1;
+                    break;
+                case 'I':
+                case 'U':
+                    size = this.FIXED_INTEGER_DIGITS[bytes];
+                    break;
+                case 'B':
+                    size = this.FIXED_BINARY_DIGITS[bytes];
+                    break;
+                case 'A':
+                    size = varying ? bytes - 2 : bytes;
+                    break;
+                case 'G':
+                case 'C':
+                    size = (varying ? bytes - 2 : bytes) / 2;
+                    break;
+                default:
+                    size = bytes;
+            }
+        }
+
+        let length: string | undefined;
+        if (dataTypeDefinition?.lengthSyntax === 'decimals' && size !== undefined) {
+            length = decimals ? `${size}:${decimals}` : size.toString();
+        } else if (dataTypeDefinition?.lengthSyntax === 'varying' && size !== undefined) {
+            // VARYING(2) or VARYING(4) sets the size of the length prefix
+            const prefix = keywords.get('VARYING');
+            length = prefix === '2' || prefix === '4' ? `${size}:${prefix}` : size.toString();
+        } else if (dataTypeDefinition?.lengthSyntax === 'dateFormat' || dataTypeDefinition?.lengthSyntax === 'timeFormat') {
+            // DATFMT and TIMFMT give the format, the length follows from it
+            const format = keywords.get(dataTypeDefinition.lengthSyntax === 'dateFormat' ? 'DATFMT' : 'TIMFMT');
+            length = format?.replace(/\s+/g, '').toLowerCase() || undefined;
+        } else if (dataTypeDefinition?.lengthSyntax === 'fraction') {
+            // The length of a timestamp is 19 without fractional seconds, 20 plus the digits otherwise (26 by default)
+            length = size !== undefined && size !== 26 ? Math.max(size - 20, 0).toString() : undefined;
+        } else if (dataTypeDefinition && dataTypeDefinition.lengthSyntax !== 'none') {
+            length = size?.toString();
+        }
+
+        return {
+            idNumber: id,
+            name: definition.name,
+            type,
+            length,
+            init: init ? init : undefined,
+            dim,
+            ...placement,
+            isStructure: false,
+            fields: [],
+            comment: definition.comment
+        };
+    }
+
     /**
      * Validates if the parsed structure is complete and valid
      */
@@ -0,0 +1,71 @@
+/*
+	Christian Larsen, 2025
+	"RPG structure"
+	rpg-structure.persistence.ts
+*/
+
+import * as vscode from 'vscode';
+import { drafts, activeDraft, getStructureState, loadDrafts, isStructureState, StructureState } from './rpg-structure.model';
+import { reassignIdNumbers } from './rpg-structure.utils';
+
+/**
+ * Persistence of the structures being edited.
+ * The drafts are saved in the workspace state on every change and restored on activation,
+ * so a reload of the window does not lose the work in progress.
+ */
+
+// INTERFACES
+
+/**
+ * Drafts saved in the workspace state.
+ */
+interface SavedDrafts {
+    drafts: StructureState[];
+    activeIndex: number;
+};
+
+// CONSTANTS
+
+/** Workspace state key of the structures being edited */
+const STORAGE_KEY = 'rpgStructure.structures';
+
+// PERSISTENCE
+
+/**
+ * Restores the drafts saved in the workspace state, if any.
+ * Ids are reassigned, so new fields continue the sequence of the restored ones.
+ * @param context - VS Code extension context
+ * @returns True if the drafts were restored
+ */
+export function restoreStructures(context: vscode.ExtensionContext): boolean {
+    const saved = context.workspaceState.get<SavedDrafts>(STORAGE_KEY);
+    if (!saved || !Array.isArray(saved.drafts) || saved.drafts.length === 0 || !saved.drafts.every(isStructureState)) {
+        return false;
+    };
+
+    try {
+        loadDrafts(saved.drafts, saved.activeIndex);
+        drafts.forEach(draft => reassignIdNumbers(draft.fields));
+        return true;
+    } catch (error) {
+        console.error('Error restoring structures:', error);
+        return false;
+    };
+};
+
+/**
+ * Saves the drafts being edited in the workspace state
+ * @param context - VS Code extension context
+ */
+export async function saveStructures(context: vscode.ExtensionContext): Promise<void> {
+    const saved: SavedDrafts = {
+        drafts: drafts.map(draft => getStructureState(draft)),
+        activeIndex: drafts.indexOf(activeDraft)
+    };
+
+    try {
+        await context.workspaceState.update(STORAGE_KEY, saved);
+    } catch (error) {
+        console.error('Error saving structures:', error);
+    };
+};
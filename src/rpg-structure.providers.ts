@@ -5,9 +5,80 @@
 */
 
 import * as vscode from 'vscode';
-import { Field, fields, header } from './rpg-structure.model';
-import { reassignIdNumbers, findFieldById } from './rpg-structure.utils';
+import { Field, fields, header, drafts, activeDraft, StructureDraft } from './rpg-structure.model';
+import { reassignIdNumbers, findFieldById, moveFields } from './rpg-structure.utils';
 import { getConfiguration } from './rpg-structure.configuration';
+import { calculateLayout, formatPositions, FieldLayout } from './rpg-structure.layout';
+import { trackChanges } from './rpg-structure.history';
+import { loadLibrary, LibraryLocation, LibraryStructure } from './rpg-structure.library';
+import { findExternalTarget, findReferenceTarget, getReferenceName, resolveExternalFields, ReferenceTarget } from './rpg-structure.references';
+import { getEffectiveKeywords } from './rpg-structure.helper';
+
+/** MIME type of the fields dragged inside the fields view */
+const FIELDS_MIME_TYPE = 'application/vnd.code.tree.rpg-structure-fields';
+
+/**
+ * Tree data provider for displaying the structure drafts open in the session.
+ * Clicking a draft makes it the active structure shown in the other views.
+ */
+export class StructuresTreeDataProvider implements vscode.TreeDataProvider<DraftItem> {
+    private readonly _onDidChangeTreeData: vscode.EventEmitter<DraftItem | undefined> = 
+        new vscode.EventEmitter<DraftItem | undefined>();
+    
+    readonly onDidChangeTreeData: vscode.Event<DraftItem | undefined> = 
+        this._onDidChangeTreeData.event;
+
+    /**
+     * Returns the tree item representation of the given element.
+     * @param element The draft item to convert to a tree item
+     * @returns The tree item representation
+     */
+    getTreeItem(element: DraftItem): vscode.TreeItem {
+        return element;
+    };
+
+    /**
+     * Gets one item for every open draft.
+     * @returns Promise resolving to an array of draft items
+     */
+    getChildren(): Thenable<DraftItem[]> {
+        return Promise.resolve(drafts.map(draft => new DraftItem(draft, draft === activeDraft)));
+    };
+
+    /**
+     * Refreshes the tree view by firing the change event.
+     */
+    refresh(): void {
+        this._onDidChangeTreeData.fire(undefined);
+    };
+};
+
+/**
+ * Represents a structure draft in the structures tree view.
+ */
+export class DraftItem extends vscode.TreeItem {
+    constructor(
+        public readonly draft: StructureDraft,
+        public readonly isActive: boolean
+    ) {
+        super(draft.header.name || '(Unnamed)', vscode.TreeItemCollapsibleState.None);
+
+        const count = draft.fields.length;
+        this.description = [
+            draft.header.type,
+            `${count} ${count === 1 ? 'field' : 'fields'}`,
+            isActive ? 'active' : ''
+        ].filter(Boolean).join(' · ');
+        this.tooltip = draft.header.comment;
+        this.iconPath = new vscode.ThemeIcon(isActive ? 'check' : 'symbol-structure');
+        this.contextValue = 'rpg-structure-draftItem';
+        this.command = {
+            command: 'rpgStructure.selectStructure',
+            title: 'Select Structure',
+            arguments: [this]
+        };
+    };
+};
 
 /**
  * Tree data provider for displaying and managing RPG structure header information.
@@ -49,6 +120,21 @@ export class HeaderTreeDataProvider implements vscode.TreeDataProvider<Structure
             ),
         ];
 
+        // Externally described structures name their file or record format
+        if (header.type === 'extname' || header.type === 'likerec') {
+            const target = findExternalTarget(header);
+            const externalItem = new StructureItem(
+                `${header.type.toUpperCase()}: ${header.external || '(Required)'}`,
+                'external',
+                'file-symlink-file',
+                vscode.TreeItemCollapsibleState.None
+            );
+            externalItem.tooltip = target
+                ? `Fields from ${target.name} (${target.source})`
+                : 'The source of the file or record format was not found in the workspace';
+            items.push(externalItem);
+        };
+
         // Determine dimension label based on structure type
         let dimensionLabel: string;
         if (header.type === 'template') {
@@ -66,6 +152,35 @@ export class HeaderTreeDataProvider implements vscode.TreeDataProvider<Structure
             vscode.TreeItemCollapsibleState.None
         ));
 
+        items.push(new StructureItem(
+            `COMMENT: ${header.comment || '(None)'}`, 
+            'comment', 
+            'comment', 
+            vscode.TreeItemCollapsibleState.None
+        ));
+
+        const keywords = getEffectiveKeywords(header);
+        const keywordsItem = new StructureItem(
+            `KEYWORDS: ${keywords.length ? keywords.join(' ') : '(None)'}`,
+            'keywords',
+            'symbol-key',
+            vscode.TreeItemCollapsibleState.None
+        );
+        keywordsItem.tooltip = 'Click to select the keywords of the structure';
+        items.push(keywordsItem);
+
+        // Total length is informative only, so it has no click command
+        const { length } = calculateLayout(resolveExternalFields(header, fields)?.fields ?? fields);
+        const lengthItem = new StructureItem(
+            `LENGTH: ${length === undefined ? '(Unknown)' : `${length} bytes`}`,
+            'length',
+            'symbol-ruler',
+            vscode.TreeItemCollapsibleState.None
+        );
+        lengthItem.command = undefined;
+        lengthItem.tooltip = 'Total length of one occurrence of the structure';
+        items.push(lengthItem);
+
         return Promise.resolve(items);
     };
 
@@ -103,13 +218,16 @@ export class StructureItem extends vscode.TreeItem {
  * Tree data provider for displaying and managing RPG structure fields.
  * Handles both regular fields and nested structure fields.
  */
-export class FieldsTreeDataProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+export class FieldsTreeDataProvider implements vscode.TreeDataProvider<vscode.TreeItem>, vscode.TreeDragAndDropController<vscode.TreeItem> {
     private readonly _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null | void> = 
         new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>();
     
     readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null | void> = 
         this._onDidChangeTreeData.event;
 
+    readonly dragMimeTypes: readonly string[] = [FIELDS_MIME_TYPE];
+    readonly dropMimeTypes: readonly string[] = [FIELDS_MIME_TYPE];
+
     /**
      * Returns the tree item representation of the given element.
      * @param element The tree item element
@@ -125,42 +243,85 @@ export class FieldsTreeDataProvider implements vscode.TreeDataProvider<vscode.Tr
      * @returns Promise resolving to an array of tree items
      */
     getChildren(element?: vscode.TreeItem): Thenable<vscode.TreeItem[]> {
+        const external = resolveExternalFields(header, fields);
+        const layout = calculateLayout(external?.fields ?? fields).fields;
+
+        if (!element && external) {
+            // Fields inherited from the file or record format are shown read-only, in file order
+            const declared = new Map(fields.map(field => [field.idNumber, field]));
+            return Promise.resolve(external.fields.map(field => {
+                const subfield = declared.get(field.idNumber);
+                return subfield
+                    ? this.createFieldItem(subfield, layout)
+                    : new ReferencedFieldItem(field, layout, 0, external.target.source, [], 'Inherited field');
+            }));
+        };
+
         if (!element) {
             // Return root level fields
-            return Promise.resolve(fields.map(field =>
-                new FieldItem(
-                    field.idNumber, 
-                    field.name, 
-                    field.type, 
-                    field.length, 
-                    field.init, 
-                    field.dim, 
-                    field.isStructure, 
-                    field.fields
-                )
-            ));
+            return Promise.resolve(fields.map(field => this.createFieldItem(field, layout)));
         };
 
         // Return children of structure fields
         if (element instanceof FieldItem && element.isStructure) {
-            const children = element.fields.map(field =>
-                new FieldItem(
-                    field.idNumber, 
-                    field.name, 
-                    field.type, 
-                    field.length, 
-                    field.init, 
-                    field.dim, 
-                    field.isStructure, 
-                    field.fields
-                )
-            );
+            const children = element.fields.map(field => this.createFieldItem(field, layout));
             return Promise.resolve(children);
         };
 
+        // Return the fields of the structure or record format a field refers to (read-only)
+        if (element instanceof FieldItem && element.referenceTarget?.fields) {
+            const from = layout.get(element.idNumber)?.from;
+            const offset = from === undefined ? undefined : from - 1;
+            return Promise.resolve(this.createReferencedItems(element.referenceTarget, offset, [element.referenceTarget.name.toLowerCase()]));
+        };
+
+        if (element instanceof ReferencedFieldItem) {
+            return Promise.resolve(element.getChildren());
+        };
+
         return Promise.resolve([]);
     };
 
+    /**
+     * Creates the read-only items of the fields of a referenced structure or record format.
+     * @param target The referenced structure or record format
+     * @param offset Bytes before the referencing field, undefined if its position is unknown
+     * @param chain Lowercase names of the targets already expanded, to stop circular references
+     * @returns The referenced field items
+     */
+    private createReferencedItems(target: ReferenceTarget, offset: number | undefined, chain: string[]): ReferencedFieldItem[] {
+        const layout = calculateLayout(target.fields ?? []).fields;
+        return (target.fields ?? []).map(field => new ReferencedFieldItem(field, layout, offset, target.source, chain));
+    };
+
+    /**
+     * Creates the tree item for a field, including its byte positions.
+     * @param field The field to display
+     * @param layout Layout of all fields in the structure
+     * @returns The field tree item
+     */
+    private createFieldItem(field: Field, layout: Map<number, FieldLayout>): FieldItem {
+        const item = new FieldItem(
+            field.idNumber, 
+            field.name, 
+            field.type, 
+            field.length, 
+            field.init, 
+            field.dim, 
+            field.isStructure, 
+            field.fields,
+            field.comment
+        );
+        item.pos = field.pos;
+        item.overlay = field.overlay;
+        item.extfld = field.extfld;
+        if (field.reference !== undefined) {
+            item.setReference(field.reference, findReferenceTarget(field));
+        };
+        item.updateLayout(layout.get(field.idNumber));
+        return item;
+    };
+
     /**
      * Adds a new field to the end of the fields array.
      * @param field The field item to add
@@ -207,6 +368,38 @@ export class FieldsTreeDataProvider implements vscode.TreeDataProvider<vscode.Tr
         this.refresh();
     };
 
+    /**
+     * Stores the ID numbers of the dragged fields in the data transfer.
+     * @param source The selected tree items being dragged
+     * @param dataTransfer The data transfer of the drag operation
+     */
+    handleDrag(source: readonly vscode.TreeItem[], dataTransfer: vscode.DataTransfer): void {
+        const ids = source
+            .filter((item): item is FieldItem => item instanceof FieldItem)
+            .map(item => item.idNumber);
+        dataTransfer.set(FIELDS_MIME_TYPE, new vscode.DataTransferItem(ids));
+    };
+
+    /**
+     * Moves the dragged fields to the drop target.
+     * @param target The tree item dropped on, or undefined for the empty area of the view
+     * @param dataTransfer The data transfer of the drag operation
+     */
+    async handleDrop(target: vscode.TreeItem | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+        const transferItem = dataTransfer.get(FIELDS_MIME_TYPE);
+        if (!transferItem) {
+            return;
+        };
+
+        // Other views or sources may use the same MIME type, only field ids are moved
+        const ids: unknown = transferItem.value;
+        if (!Array.isArray(ids) || !ids.every(id => typeof id === 'number')) {
+            return;
+        };
+
+        await trackChanges(() => moveFields(ids, target instanceof FieldItem ? target.idNumber : undefined, this));
+    };
+
     /**
      * Refreshes the tree view by firing the change event.
      */
@@ -228,6 +421,20 @@ export class FieldsTreeDataProvider implements vscode.TreeDataProvider<vscode.Tr
  * Can be either a regular field or a structure containing nested fields.
  */
 export class FieldItem extends vscode.TreeItem {
+    private positions: string = '';
+    private warning: string | undefined;
+
+    /** Starting position of the field, generated as pos(n) */
+    public pos?: number;
+    /** Subfield overlaid by the field, generated as overlay(...) */
+    public overlay?: string;
+    /** Definition a likeds, like or likerec field refers to */
+    public reference?: string;
+    /** Referenced structure, field or record format, when it is found */
+    public referenceTarget?: ReferenceTarget;
+    /** External field renamed by a subfield of an extname structure */
+    public extfld?: string;
+
     constructor(
         public readonly idNumber: number,
         public name: string,
@@ -236,7 +443,8 @@ export class FieldItem extends vscode.TreeItem {
         public init: string | undefined,
         public dim: number | undefined,
         public readonly isStructure: boolean,
-        public readonly fields: Field[]
+        public readonly fields: Field[],
+        public comment?: string
     ) {
         const collapsibleState = isStructure
             ? vscode.TreeItemCollapsibleState.Collapsed
@@ -244,6 +452,11 @@ export class FieldItem extends vscode.TreeItem {
 
         super(name, collapsibleState);
 
+        this.command = {
+            command: 'rpgStructure.editField',
+            title: 'Edit Field',
+            arguments: [this]
+        };
         this.updateDisplayProperties();
 
     };
@@ -256,21 +469,100 @@ export class FieldItem extends vscode.TreeItem {
         if (this.isStructure) {
             this.contextValue = 'rpg-structure-structureItem';
             this.iconPath = new vscode.ThemeIcon('symbol-structure');
-            this.tooltip = `Substructure: ${this.name}`;
+            this.tooltip = this.buildTooltip('Substructure');
             this.description = this.length ? `dim(${this.length})` : '';
+            this.description += this.formatPlacement();
+            if (this.positions) {
+                this.description += ` [${this.positions}]`;
+            };
         } else {
             this.contextValue = 'rpg-structure-fieldItem';
-            this.iconPath = new vscode.ThemeIcon('symbol-field');
-            this.tooltip = `Field: ${this.name}`;
+            this.iconPath = new vscode.ThemeIcon(this.reference !== undefined ? 'references' : 'symbol-field');
+            this.tooltip = this.buildTooltip('Field');
             
             // Build description with type, length, dimension, and initialization
             let description = this.type;
+            if (this.reference !== undefined) {
+                description += `(${this.reference})`;
+            };
+            if (this.extfld !== undefined) {
+                description += `(${this.extfld})`;
+            };
             if (this.length) description += `(${this.length})`;
             if (this.dim) description += ` dim(${this.dim})`;
             if (this.init) description += ` inz(${this.init})`;
+            description += this.formatPlacement();
+            if (this.positions) {
+                description += ` [${this.positions}]`;
+            };
             
             this.description = description;
         };
+
+        // Layout problems replace the icon, so they stand out in the tree
+        if (this.warning) {
+            this.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+        };
+    };
+
+    /**
+     * Formats the pos() or overlay() keyword of the field for the description
+     * @returns Text such as " pos(11)", or an empty string
+     */
+    private formatPlacement(): string {
+        if (this.overlay) {
+            return ` overlay(${this.overlay})`;
+        };
+        return this.pos ? ` pos(${this.pos})` : '';
+    };
+
+    /**
+     * Builds the tooltip, including the comment when there is one
+     * @param kind Kind of item shown in the tooltip
+     * @returns Tooltip text
+     */
+    private buildTooltip(kind: string): string {
+        const tooltip = `${kind}: ${this.name}`;
+        const details = [this.comment, this.describeReference(), this.warning ? `⚠ ${this.warning}` : undefined].filter(Boolean);
+        return details.length > 0 ? `${tooltip}\n${details.join('\n')}` : tooltip;
+    };
+
+    /**
+     * Describes where the referenced definition was found, for the tooltip
+     * @returns Description of the reference, or undefined if the field is not a reference
+     */
+    private describeReference(): string | undefined {
+        if (this.reference === undefined) {
+            return undefined;
+        };
+        return this.referenceTarget
+            ? `Refers to ${this.referenceTarget.name} (${this.referenceTarget.source})`
+            : `${this.reference} was not found in the open documents or the workspace`;
+    };
+
+    /**
+     * Sets the definition the field refers to. The item can be expanded when the
+     * referenced structure or record format is found.
+     * @param reference Referenced definition, as generated in the keyword
+     * @param target Referenced structure, field or record format, undefined if not found
+     */
+    public setReference(reference: string, target: ReferenceTarget | undefined): void {
+        this.reference = reference;
+        this.referenceTarget = target;
+        if (target?.fields && target.fields.length > 0) {
+            this.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+        };
+        this.updateDisplayProperties();
+    };
+
+    /**
+     * Updates the byte positions and the layout warning shown for the field
+     * @param layout Layout of the field, undefined if unknown
+     */
+    public updateLayout(layout: FieldLayout | undefined): void {
+        this.positions = formatPositions(layout);
+        this.warning = layout?.warning;
+        this.updateDisplayProperties();
     };
 
     /**
@@ -309,6 +601,94 @@ export class FieldItem extends vscode.TreeItem {
 
 };
 
+/**
+ * Represents a field of a referenced structure or record format.
+ * The item is read-only: it is edited in the structure or source that declares it.
+ */
+export class ReferencedFieldItem extends vscode.TreeItem {
+    private readonly target: ReferenceTarget | undefined;
+
+    constructor(
+        private readonly field: Field,
+        private readonly layout: Map<number, FieldLayout>,
+        private readonly offset: number | undefined,
+        private readonly source: string,
+        private readonly chain: string[],
+        private readonly kind: string = 'Referenced field'
+    ) {
+        super(field.name, vscode.TreeItemCollapsibleState.None);
+
+        // Nested references are expanded too, unless they lead back to a structure already shown
+        const target = field.reference !== undefined ? findReferenceTarget(field) : undefined;
+        const name = getReferenceName(field)?.toLowerCase();
+        this.target = target?.fields && name && !chain.includes(name) ? target : undefined;
+
+        if ((field.isStructure && field.fields.length > 0) || this.target) {
+            this.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+        };
+
+        this.contextValue = 'rpg-structure-referencedItem';
+        this.iconPath = new vscode.ThemeIcon(field.isStructure ? 'symbol-structure' : field.reference !== undefined ? 'references' : 'symbol-field');
+        this.tooltip = [`${kind}: ${field.name} (${source})`, field.comment].filter(Boolean).join('\n');
+        this.description = this.buildDescription();
+    };
+
+    /**
+     * Builds the description with the definition and the byte positions of the field
+     * @returns Description text
+     */
+    private buildDescription(): string {
+        let description = this.field.isStructure ? '' : this.field.type;
+        if (this.field.reference !== undefined) {
+            description += `(${this.field.reference})`;
+        };
+        if (this.field.length) {
+            description += this.field.isStructure ? `dim(${this.field.length})` : `(${this.field.length})`;
+        };
+        if (this.field.dim) {
+            description += ` dim(${this.field.dim})`;
+        };
+
+        const positions = this.getLayout();
+        if (positions) {
+            description += ` [${formatPositions(positions)}]`;
+        };
+        return description.trim();
+    };
+
+    /**
+     * Returns the layout of the field, moved after the bytes before the referencing field
+     * @returns The layout, or undefined if the positions are unknown
+     */
+    private getLayout(): FieldLayout | undefined {
+        const layout = this.layout.get(this.field.idNumber);
+        if (!layout || layout.from === undefined || layout.to === undefined || this.offset === undefined) {
+            return undefined;
+        };
+        return { ...layout, from: layout.from + this.offset, to: layout.to + this.offset };
+    };
+
+    /**
+     * Returns the subfields of a substructure, or the fields of the structure the field refers to
+     * @returns The child items
+     */
+    public getChildren(): ReferencedFieldItem[] {
+        if (this.field.isStructure) {
+            return this.field.fields.map(field => new ReferencedFieldItem(field, this.layout, this.offset, this.source, this.chain, this.kind));
+        };
+
+        const target = this.target;
+        if (target?.fields) {
+            const from = this.getLayout()?.from;
+            const layout = calculateLayout(target.fields).fields;
+            const chain = [...this.chain, target.name.toLowerCase()];
+            return target.fields.map(field => new ReferencedFieldItem(field, layout, from === undefined ? undefined : from - 1, target.source, chain));
+        };
+
+        return [];
+    };
+};
+
 /**
  * Represents a detail item for field properties.
  * Used for displaying additional field information.
@@ -388,9 +768,107 @@ export class ConfigProvider implements vscode.TreeDataProvider<ConfigItem> {
 
         const items: ConfigItem[] = [
             new ConfigItem(`STRUCTURE FORMAT: ${cfg.structureFormat}`, 'structureFormat'),
-            new ConfigItem(`INDENTATION: ${cfg.indentation?.toString()}`, 'structureIndentation')
+            new ConfigItem(`INDENTATION: ${cfg.indentation?.toString()}`, 'structureIndentation'),
+            new ConfigItem(`SQL SUBFIELD PREFIX: ${cfg.sqlPrefixSubfields ? 'Yes' : 'No'}`, 'sqlPrefixSubfields'),
+            new ConfigItem(`SQL INDICATOR TYPE: ${cfg.sqlIndicatorType}`, 'sqlIndicatorType'),
+            new ConfigItem(`COMMENT STYLE: ${cfg.commentStyle}`, 'commentStyle'),
+            new ConfigItem(`DATA TYPES: ${cfg.dataTypes?.length ? `${cfg.dataTypes.length} custom` : 'Built-in'}`, 'dataTypes'),
+            new ConfigItem(`DIAGNOSTICS: ${Object.values(cfg.diagnostics ?? {}).filter(level => level !== 'off').length} checks on`, 'diagnostics')
         ];
 
         return Promise.resolve(items);
     };
 };
+
+/**
+ * Tree data provider for browsing the structure library.
+ * Structures are grouped by library (user and workspace) and read again on every refresh.
+ */
+export class LibraryTreeDataProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+    private readonly _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | void> = 
+        new vscode.EventEmitter<vscode.TreeItem | undefined | void>();
+    
+    readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | void> = 
+        this._onDidChangeTreeData.event;
+
+    /**
+     * Refreshes the library tree view by firing the change event.
+     */
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    };
+
+    /**
+     * Returns the tree item representation of the given element.
+     * @param element The tree item element
+     * @returns The tree item representation
+     */
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+        return element;
+    };
+
+    /**
+     * Gets the library groups, or the structures of a group.
+     * @param element Optional group to get the structures for
+     * @returns Promise resolving to an array of tree items
+     */
+    async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+        if (element instanceof LibraryGroupItem) {
+            return element.structures.map(structure => new LibraryStructureItem(structure));
+        };
+
+        if (element) {
+            return [];
+        };
+
+        // Groups without structures are hidden, so an empty library shows the welcome content
+        const structures = await loadLibrary();
+        const locations: LibraryLocation[] = ['user', 'workspace'];
+        return locations
+            .map(location => new LibraryGroupItem(location, structures.filter(structure => structure.location === location)))
+            .filter(group => group.structures.length > 0);
+    };
+};
+
+/**
+ * Represents a library (user or workspace) in the library tree view.
+ */
+export class LibraryGroupItem extends vscode.TreeItem {
+    constructor(
+        public readonly location: LibraryLocation,
+        public readonly structures: LibraryStructure[]
+    ) {
+        super(location === 'user' ? 'User library' : 'Workspace library', vscode.TreeItemCollapsibleState.Expanded);
+
+        this.description = `${structures.length}`;
+        this.tooltip = location === 'user'
+            ? 'Personal structures, available in every workspace'
+            : 'Team structures in .vscode/rpg-structures';
+        this.iconPath = new vscode.ThemeIcon(location === 'user' ? 'account' : 'repo');
+    };
+};
+
+/**
+ * Represents a saved structure in the library tree view.
+ * Clicking it previews the generated code.
+ */
+export class LibraryStructureItem extends vscode.TreeItem {
+    constructor(public readonly structure: LibraryStructure) {
+        super(structure.name, vscode.TreeItemCollapsibleState.None);
+
+        this.description = structure.tags.map(tag => `#${tag}`).join(' ');
+        this.tooltip = new vscode.MarkdownString(
+            `**${structure.header.name || structure.name}** (${structure.header.type || 'no type'})\n\n` +
+            `${structure.fields.length} fields` +
+            (structure.header.comment ? `\n\n${structure.header.comment}` : '') +
+            (structure.tags.length > 0 ? `\n\nTags: ${structure.tags.join(', ')}` : '')
+        );
+        this.iconPath = new vscode.ThemeIcon('symbol-structure');
+        this.contextValue = 'rpg-structure-libraryItem';
+        this.command = {
+            command: 'rpgStructure.previewLibraryStructure',
+            title: 'Preview Structure',
+            arguments: [this]
+        };
+    };
+};
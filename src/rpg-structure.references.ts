@@ -0,0 +1,397 @@
+/*
+	Christian Larsen, 2025
+	"RPG structure"
+	rpg-structure.references.ts
+*/
+
+import * as vscode from 'vscode';
+import { drafts, Field, Header, DDS_EXTENSIONS, RPG_EXTENSIONS, SQL_EXTENSIONS } from './rpg-structure.model';
+import { RpgStructureParser } from './rpg-structure.parser';
+import { parseDdsSource } from './rpg-structure.dds';
+import { findCreateStatementAt, parseCreateStatement, sqlColumnsToFields } from './rpg-structure.sql';
+import { findDataTypeByKeyword, hasKeywordParameter } from './rpg-structure.types';
+import { reassignIdNumbers } from './rpg-structure.utils';
+
+/**
+ * Resolution of likeds, like and likerec fields, and of the subfields of extname and likerec structures.
+ * The structures being edited are looked up first, then an index of the structures,
+ * standalone fields, record formats and files declared in the open documents and workspace sources.
+ */
+
+// INTERFACES
+
+/**
+ * Structure, standalone field or record format a field refers to.
+ */
+export interface ReferenceTarget {
+    /** Name of the target, as declared */
+    name: string;
+    /** Fields of a structure or record format */
+    fields?: Field[];
+    /** Definition of a standalone field */
+    field?: Field;
+    /** Fields of an SQL table or view with their SQL names, used by extname with alias */
+    aliasFields?: Field[];
+    /** Key fields of a file or record format, used by *KEY */
+    keys?: string[];
+    /** Header of a structure, to resolve the subfields of extname and likerec structures */
+    header?: Header;
+    /** Where the target was found, shown in tooltips */
+    source: string;
+};
+
+/**
+ * Subfields of an extname or likerec structure, resolved from its file or record format.
+ */
+export interface ExternalFields {
+    /** File or record format the subfields come from */
+    target: ReferenceTarget;
+    /** All subfields in order: inherited fields, renamed by the extfld subfields, then the other subfields */
+    fields: Field[];
+    /** Inherited fields that no subfield of the structure renames, shown read-only */
+    inherited: Field[];
+};
+
+/**
+ * Declarations found in one source.
+ */
+interface SourceIndex {
+    /** Data structures, by lowercase name */
+    structures: Map<string, ReferenceTarget>;
+    /** Standalone fields, by lowercase name */
+    standalone: Map<string, ReferenceTarget>;
+    /** DDS record formats, by lowercase name */
+    formats: Map<string, ReferenceTarget>;
+    /** DDS files and SQL tables and views, by uppercase name (and system name) */
+    files: Map<string, ReferenceTarget>;
+};
+
+// CONSTANTS
+
+/** Maximum number of workspace files read when the index is built */
+const MAX_INDEXED_FILES = 2000;
+
+/** Start of the CREATE TABLE and CREATE VIEW statements of an SQL source */
+const CREATE_PATTERN = /CREATE\s+(?:OR\s+REPLACE\s+)?(?:TABLE|VIEW)\b/gi;
+
+/** System name of an SQL table or view */
+const SYSTEM_NAME_PATTERN = /FOR\s+SYSTEM\s+NAME\s+"?([a-zA-Z0-9_@#$]+)"?/i;
+
+/** Free-form standalone field declaration */
+const STANDALONE_PATTERN = /^\s*dcl-s\s+([a-zA-Z_@#$][a-zA-Z0-9_@#$]*)\s+([a-zA-Z][a-zA-Z0-9]*)(?:\(([^)]*)\))?/gim;
+
+// STATE
+
+/** Declarations of the indexed sources, by URI */
+const index = new Map<string, SourceIndex>();
+
+// INDEX
+
+/**
+ * Indexes the RPG, DDS and SQL sources of the workspace. Open documents are read from the editor,
+ * so unsaved changes are included.
+ */
+export async function indexWorkspaceReferences(): Promise<void> {
+    const extensions = [...RPG_EXTENSIONS, ...DDS_EXTENSIONS, ...SQL_EXTENSIONS].flatMap(extension => [extension, extension.toUpperCase()]);
+    const uris = await vscode.workspace.findFiles(`**/*.{${extensions.join(',')}}`, '**/node_modules/**', MAX_INDEXED_FILES);
+
+    index.clear();
+    for (const uri of uris) {
+        try {
+            const document = vscode.workspace.textDocuments.find(open => open.uri.toString() === uri.toString());
+            const content = document
+                ? document.getText()
+                : Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+            indexSource(uri, content);
+        } catch (error) {
+            console.warn(`Failed to index ${uri.toString()}:`, error);
+        };
+    };
+
+    // Open documents outside the workspace (or not saved yet) are indexed as well
+    for (const document of vscode.workspace.textDocuments) {
+        if (!index.has(document.uri.toString())) {
+            indexDocument(document);
+        };
+    };
+};
+
+/**
+ * Indexes (again) an RPG, DDS or SQL document
+ * @param document - Document opened or saved in the editor
+ * @returns True if the document is an RPG, DDS or SQL source and was indexed
+ */
+export function indexDocument(document: vscode.TextDocument): boolean {
+    if (!isIndexedSource(document.uri) && !['rpgle', 'sqlrpgle'].includes(document.languageId)) {
+        return false;
+    };
+
+    indexSource(document.uri, document.getText());
+    return true;
+};
+
+/**
+ * Checks whether the extension of a file is an RPG, DDS or SQL source extension
+ * @param uri - URI of the file
+ * @returns True if the file is indexed
+ */
+function isIndexedSource(uri: vscode.Uri): boolean {
+    const extension = uri.path.split('.').pop()?.toLowerCase() ?? '';
+    return [...RPG_EXTENSIONS, ...DDS_EXTENSIONS, ...SQL_EXTENSIONS].some(indexed => indexed === extension);
+};
+
+/**
+ * Reads the declarations of a source into the index
+ * @param uri - URI of the source
+ * @param content - Text of the source
+ */
+function indexSource(uri: vscode.Uri, content: string): void {
+    const source = uri.path.split('/').pop() ?? uri.toString();
+    const entry: SourceIndex = { structures: new Map(), standalone: new Map(), formats: new Map(), files: new Map() };
+    const extension = uri.path.split('.').pop()?.toLowerCase() ?? '';
+
+    if ((DDS_EXTENSIONS as readonly string[]).includes(extension)) {
+        const formats = parseDdsSource(content).formats;
+        for (const format of formats) {
+            reassignIdNumbers(format.fields);
+            entry.formats.set(format.name.toLowerCase(), { name: format.name, fields: format.fields, keys: format.keys, source });
+        };
+
+        // The file is named after its source member, and extname uses its first record format
+        const fileName = source.replace(/\.[^.]*$/, '').toUpperCase();
+        if (formats.length > 0) {
+            entry.files.set(fileName, { name: fileName, fields: formats[0].fields, keys: formats[0].keys, source });
+        };
+    } else if ((SQL_EXTENSIONS as readonly string[]).includes(extension)) {
+        indexSqlSource(content, source, entry);
+    } else {
+        for (const structure of RpgStructureParser.extractAllStructures(content)) {
+            if (structure.success && structure.header.name) {
+                reassignIdNumbers(structure.fields);
+                entry.structures.set(structure.header.name.toLowerCase(), {
+                    name: structure.header.name,
+                    fields: structure.fields,
+                    header: structure.header,
+                    source
+                });
+            };
+        };
+
+        for (const match of content.matchAll(STANDALONE_PATTERN)) {
+            const [, name, keyword, parameter] = match;
+            const definition = findDataTypeByKeyword(keyword, parameter);
+            if (!definition) {
+                continue;
+            };
+
+            const field: Field = {
+                idNumber: 0,
+                name,
+                type: definition.name,
+                length: hasKeywordParameter(definition) ? undefined : parameter?.trim() || undefined,
+                isStructure: false,
+                fields: []
+            };
+            entry.standalone.set(name.toLowerCase(), { name, field, source });
+        };
+    };
+
+    index.set(uri.toString(), entry);
+};
+
+/**
+ * Reads the tables and views created in an SQL source into the index.
+ * Statements that cannot be converted are skipped.
+ * @param content - Text of the source
+ * @param source - File name of the source, shown in tooltips
+ * @param entry - Declarations of the source
+ */
+function indexSqlSource(content: string, source: string, entry: SourceIndex): void {
+    for (const match of content.matchAll(CREATE_PATTERN)) {
+        const statement = findCreateStatementAt(content, match.index ?? 0);
+        if (!statement) {
+            continue;
+        };
+
+        try {
+            const parsed = parseCreateStatement(statement);
+            const target: ReferenceTarget = {
+                name: parsed.name.toUpperCase(),
+                fields: sqlColumnsToFields(parsed.columns, true),
+                aliasFields: sqlColumnsToFields(parsed.columns, false),
+                source
+            };
+
+            entry.files.set(target.name, target);
+            const systemName = statement.match(SYSTEM_NAME_PATTERN)?.[1];
+            if (systemName) {
+                entry.files.set(systemName.toUpperCase(), target);
+            };
+        } catch (error) {
+            console.warn(`Skipping a CREATE statement of ${source}:`, error);
+        };
+    };
+};
+
+// RESOLUTION
+
+/**
+ * Returns the name a likeds, like or likerec field refers to, without the
+ * second parameter of likerec (*ALL, *KEY...)
+ * @param field - Field to check
+ * @returns Referenced name, or undefined if the field is not a reference
+ */
+export function getReferenceName(field: Field): string | undefined {
+    const name = field.reference?.split(':')[0].trim();
+    return name ? name : undefined;
+};
+
+/**
+ * Finds the structure, standalone field or record format a field refers to.
+ * likeds and like look in the structures being edited first, then in the index;
+ * like also accepts standalone fields and likerec only record formats.
+ * @param field - likeds, like or likerec field
+ * @returns The target, or undefined if it is not found
+ */
+export function findReferenceTarget(field: Field): ReferenceTarget | undefined {
+    const name = getReferenceName(field);
+    if (!name) {
+        return undefined;
+    };
+
+    const key = name.toLowerCase();
+    const keyword = field.type.toLowerCase();
+
+    if (keyword === 'likerec') {
+        return findIndexed(entry => entry.formats.get(key));
+    };
+
+    const draft = drafts.find(open => open.header.name.toLowerCase() === key);
+    const target = draft
+        ? { name: draft.header.name, fields: draft.fields, header: draft.header, source: 'Structures view' }
+        : findIndexed(entry => entry.structures.get(key) ?? (keyword === 'like' ? entry.standalone.get(key) : undefined));
+
+    // Structures based on a file or record format have the subfields of their target
+    const external = target?.header ? resolveExternalFields(target.header, target.fields ?? []) : undefined;
+    return external && target ? { ...target, fields: external.fields } : target;
+};
+
+/**
+ * Finds the file of an extname structure, or the record format of a likerec structure
+ * @param structureHeader - Header of the structure
+ * @returns The file or record format, or undefined if the structure is not externally described or its target is not found
+ */
+export function findExternalTarget(structureHeader: Header): ReferenceTarget | undefined {
+    const [name] = parseExternal(structureHeader.external);
+    if (!name) {
+        return undefined;
+    };
+
+    if (structureHeader.type === 'likerec') {
+        return findIndexed(entry => entry.formats.get(name.toLowerCase()));
+    };
+    if (structureHeader.type === 'extname') {
+        // Library-qualified names (MYLIB/CUSTMAST) are looked up by file name
+        const fileName = name.split('/').pop()?.toUpperCase() ?? '';
+        return findIndexed(entry => entry.files.get(fileName));
+    };
+    return undefined;
+};
+
+/**
+ * Resolves the subfields of an extname or likerec structure from its file or record format.
+ * The prefix and alias keywords of the structure rename the inherited fields, and the
+ * extfld subfields rename them again or give them an initial value.
+ * @param structureHeader - Header of the structure
+ * @param fieldList - Subfields declared in the structure
+ * @returns The resolved subfields, or undefined if the structure is not externally described or its target is not found
+ */
+export function resolveExternalFields(structureHeader: Header, fieldList: Field[]): ExternalFields | undefined {
+    const target = findExternalTarget(structureHeader);
+    if (!target?.fields) {
+        return undefined;
+    };
+
+    const keywords = RpgStructureParser.parseKeywords((structureHeader.keywords ?? []).join(' '));
+    const [, usage] = parseExternal(structureHeader.external);
+    let source = keywords.has('ALIAS') && target.aliasFields ? target.aliasFields : target.fields;
+
+    // *KEY only keeps the key fields, in key order
+    if (usage?.toUpperCase() === '*KEY') {
+        if (!target.keys) {
+            return undefined;
+        };
+        const keys = target.keys.map(key => key.toUpperCase());
+        source = keys
+            .map(key => source.find(field => field.name.toUpperCase() === key))
+            .filter((field): field is Field => field !== undefined);
+    };
+
+    const prefix = structureHeader.type === 'extname' ? parsePrefix(keywords.get('PREFIX')) : undefined;
+    const renames = new Map(fieldList
+        .filter(field => field.extfld !== undefined)
+        .map(field => [field.extfld!.toUpperCase(), field] as const));
+    const nextId = fieldList.reduce((max, field) => Math.max(max, field.idNumber), -1) + 1;
+
+    const fields: Field[] = [];
+    const inherited: Field[] = [];
+    source.forEach((field, position) => {
+        const renamed = renames.get(field.name.toUpperCase());
+        if (renamed) {
+            // The subfield keeps its own id, so its byte positions are shown on it
+            fields.push({ ...field, idNumber: renamed.idNumber, name: renamed.name, init: renamed.init ?? field.init, fields: [] });
+            return;
+        };
+
+        const name = prefix ? (prefix.text + field.name.slice(prefix.replaced)).toUpperCase() : field.name;
+        const copy: Field = { ...field, idNumber: nextId + position, name, fields: [] };
+        fields.push(copy);
+        inherited.push(copy);
+    });
+
+    // Subfields that are not renamed external fields follow the external ones
+    fields.push(...fieldList.filter(field => field.extfld === undefined || !source.some(external => external.name.toUpperCase() === field.extfld!.toUpperCase())));
+
+    return { target, fields, inherited };
+};
+
+/**
+ * Splits the external file or record format of a structure from its second parameter
+ * @param external - File or record format, as CUSTMAST:*INPUT
+ * @returns Name without quotes, and second parameter if there is one
+ */
+function parseExternal(external: string | undefined): [string | undefined, string | undefined] {
+    const [name, usage] = (external ?? '').split(':').map(part => part.trim().replace(/^'|'$/g, ''));
+    return [name || undefined, usage || undefined];
+};
+
+/**
+ * Reads the parameter of a prefix keyword
+ * @param parameter - Parameter, as cm_ or 'CM_':2
+ * @returns Prefix text and number of replaced characters, or undefined if there is no prefix
+ */
+function parsePrefix(parameter: string | undefined): { text: string; replaced: number } | undefined {
+    if (!parameter) {
+        return undefined;
+    };
+    const [text, replaced] = parameter.split(':').map(part => part.trim());
+    return {
+        text: text.replace(/^'|'$/g, ''),
+        replaced: replaced && /^\d+$/.test(replaced) ? parseInt(replaced, 10) : 0
+    };
+};
+
+/**
+ * Returns the first declaration of the index found by a lookup
+ * @param lookup - Lookup in the declarations of one source
+ * @returns The declaration, or undefined if no source has it
+ */
+function findIndexed(lookup: (entry: SourceIndex) => ReferenceTarget | undefined): ReferenceTarget | undefined {
+    for (const entry of index.values()) {
+        const target = lookup(entry);
+        if (target) {
+            return target;
+        };
+    };
+    return undefined;
+};
@@ -0,0 +1,694 @@
+/*
+	Christian Larsen, 2025
+	"RPG structure"
+	rpg-structure.sql.ts
+*/
+
+import { Field, Header } from './rpg-structure.model';
+
+/**
+ * SQL support for RPG Structure extension.
+ * Converts the structure model into Db2 for i table definitions,
+ * and table or view definitions back into the structure model.
+ */
+
+// TYPES
+
+/**
+ * SQL type used for indicator (ind) fields.
+ */
+export type SqlIndicatorType = 'CHAR(1)' | 'BOOLEAN';
+
+/**
+ * Options for generating a CREATE TABLE statement.
+ */
+export interface SqlTableOptions {
+    /** Generate CREATE OR REPLACE TABLE instead of CREATE TABLE */
+    replace: boolean;
+    /** Prefix subfields of substructures with the substructure name */
+    prefixSubfields: boolean;
+    /** SQL type used for indicator fields */
+    indicatorType: SqlIndicatorType;
+};
+
+/**
+ * A single flattened table column.
+ */
+interface SqlColumn {
+    name: string;
+    definition: string;
+};
+
+/**
+ * A column read from a CREATE TABLE or CREATE VIEW statement.
+ */
+export interface SqlColumnDefinition {
+    /** SQL column name */
+    name: string;
+    /** System column name from FOR COLUMN, if any */
+    systemName?: string;
+    /** RPG data type */
+    type: string;
+    /** RPG length specification */
+    length?: string;
+    /** RPG initialization value derived from the DEFAULT clause */
+    init?: string;
+    /** Whether the column was declared NOT NULL, undefined when it is not known (view columns) */
+    notNull?: boolean;
+};
+
+/**
+ * Result of parsing a CREATE TABLE or CREATE VIEW statement.
+ */
+export interface SqlParseResult {
+    /** Table or view name, without schema */
+    name: string;
+    /** Columns that could be converted */
+    columns: SqlColumnDefinition[];
+    /** Problems found while parsing (columns that were skipped) */
+    errors: string[];
+};
+
+// CONSTANTS
+
+const SQL_INDENT = '    ';
+const PREFIX_SEPARATOR = '_';
+
+/** CCSID of UTF-16 graphic columns, which map to ucs2 fields */
+const UCS2_CCSID = '1200';
+
+/** Comment of the fields of NULL-capable columns, which need a null indicator when fetched */
+const NULL_CAPABLE_COMMENT = 'NULL-capable';
+
+/** SQL types for int fields, by number of digits */
+const INT_SQL_TYPES: Readonly<Record<string, string>> = {
+    '3': 'SMALLINT',
+    '5': 'SMALLINT',
+    '10': 'INTEGER',
+    '20': 'BIGINT'
+};
+
+/** SQL types for uns fields, by number of digits (SQL has no unsigned types) */
+const UNS_SQL_TYPES: Readonly<Record<string, string>> = {
+    '3': 'SMALLINT',
+    '5': 'INTEGER',
+    '10': 'BIGINT',
+    '20': 'DECIMAL(20, 0)'
+};
+
+// TYPE MAPPING
+
+/**
+ * Maps an RPG field to its SQL data type
+ * @param field - Field to map
+ * @param options - Generation options
+ * @returns SQL data type
+ * @throws Error if the field type has no SQL equivalent
+ */
+function mapSqlType(field: Field, options: SqlTableOptions): string {
+    const [size, decimals] = (field.length?.toString().trim() ?? '').split(':');
+    const scale = decimals ?? '0';
+
+    switch (field.type.toLowerCase()) {
+        case 'char':
+            return `CHAR(${size})`;
+        case 'varchar':
+            return `VARCHAR(${size})`;
+        case 'packed':
+            return `DECIMAL(${size}, ${scale})`;
+        case 'zoned':
+            return `NUMERIC(${size}, ${scale})`;
+        case 'int':
+            return INT_SQL_TYPES[size] ?? 'INTEGER';
+        case 'uns':
+            return UNS_SQL_TYPES[size] ?? 'BIGINT';
+        case 'bin':
+        case 'bindec': {
+            if (scale !== '0') {
+                return `DECIMAL(${size}, ${scale})`;
+            };
+            const digits = parseInt(size, 10);
+            return digits <= 4 ? 'SMALLINT' : digits <= 9 ? 'INTEGER' : 'BIGINT';
+        }
+        case 'date':
+            return 'DATE';
+        case 'time':
+            return 'TIME';
+        case 'timestamp':
+            return size ? `TIMESTAMP(${size})` : 'TIMESTAMP';
+        case 'ind':
+            return options.indicatorType;
+        case 'float':
+            return size === '4' ? 'REAL' : 'DOUBLE';
+        case 'graph':
+            return `GRAPHIC(${size})`;
+        case 'vargraph':
+            return `VARGRAPHIC(${size})`;
+        case 'ucs2':
+            return `GRAPHIC(${size}) CCSID ${UCS2_CCSID}`;
+        case 'varucs2':
+            return `VARGRAPHIC(${size}) CCSID ${UCS2_CCSID}`;
+        case 'pointer':
+        case 'object':
+            throw new Error(`Field "${field.name}" is a ${field.type.toLowerCase()}, which cannot be stored in an SQL table.`);
+        default:
+            throw new Error(`Field "${field.name}" has type "${field.type}", which has no SQL equivalent.`);
+    };
+};
+
+/**
+ * Converts an RPG initialization value into an SQL default, when representable
+ * @param field - Field with the initialization value
+ * @param options - Generation options
+ * @returns SQL default expression, or undefined if none applies
+ */
+function mapSqlDefault(field: Field, options: SqlTableOptions): string | undefined {
+    const init = field.init?.trim();
+    if (!init) {
+        return undefined;
+    };
+
+    const type = field.type.toLowerCase();
+
+    if (type === 'ind') {
+        const isOn = ['1', "'1'", '*on'].includes(init.toLowerCase());
+        if (options.indicatorType === 'BOOLEAN') {
+            return isOn ? 'TRUE' : 'FALSE';
+        };
+        return isOn ? "'1'" : "'0'";
+    };
+
+    if (/^'.*'$/.test(init) || /^-?\d+(\.\d+)?$/.test(init)) {
+        return init;
+    };
+
+    return undefined;
+};
+
+// GENERATION
+
+/**
+ * Flattens fields into table columns, expanding dimensions and substructures
+ * @param fieldList - Fields to flatten
+ * @param prefix - Prefix for the column names
+ * @param options - Generation options
+ * @returns Flattened columns
+ */
+function flattenColumns(fieldList: Field[], prefix: string, options: SqlTableOptions): SqlColumn[] {
+    const columns: SqlColumn[] = [];
+
+    for (const field of fieldList) {
+        const baseName = `${prefix}${field.name.trim()}`;
+
+        // Substructures keep their dimension in the length property
+        const occurrences = field.isStructure
+            ? parseInt(field.length ?? '', 10) || 1
+            : field.dim ?? 1;
+
+        for (let occurrence = 1; occurrence <= occurrences; occurrence++) {
+            const name = occurrences > 1 ? `${baseName}${PREFIX_SEPARATOR}${occurrence}` : baseName;
+
+            if (field.isStructure) {
+                const subPrefix = options.prefixSubfields || occurrences > 1 ? `${name}${PREFIX_SEPARATOR}` : prefix;
+                columns.push(...flattenColumns(field.fields, subPrefix, options));
+                continue;
+            };
+
+            let definition = `${mapSqlType(field, options)} NOT NULL`;
+            const defaultValue = mapSqlDefault(field, options);
+            if (defaultValue !== undefined) {
+                definition += ` DEFAULT ${defaultValue}`;
+            };
+
+            columns.push({ name, definition });
+        };
+    };
+
+    return columns;
+};
+
+/**
+ * Generates a CREATE TABLE statement for the structure
+ * @param structureHeader - Header of the structure (its name is used as table name)
+ * @param fieldList - Fields of the structure
+ * @param options - Generation options
+ * @returns SQL statement
+ * @throws Error if a field cannot be mapped or column names collide
+ */
+export function generateCreateTable(structureHeader: Header, fieldList: Field[], options: SqlTableOptions): string {
+    if (!structureHeader.name.trim()) {
+        throw new Error('Structure name is required to generate the table.');
+    };
+
+    const columns = flattenColumns(fieldList, '', options);
+
+    if (columns.length === 0) {
+        throw new Error('The structure has no fields to convert into columns.');
+    };
+
+    // Flattening without prefixes may produce duplicates
+    const seen = new Set<string>();
+    for (const column of columns) {
+        const key = column.name.toUpperCase();
+        if (seen.has(key)) {
+            throw new Error(`Column "${column.name}" appears more than once. Enable subfield prefixing or rename the field.`);
+        };
+        seen.add(key);
+    };
+
+    const statement = options.replace ? 'CREATE OR REPLACE TABLE' : 'CREATE TABLE';
+    const body = columns.map(column => `${SQL_INDENT}${column.name} ${column.definition}`).join(',\n');
+
+    return `${statement} ${structureHeader.name.trim()} (\n${body}\n);\n`;
+};
+
+// PARSING
+
+/** RPG names are limited to these characters */
+const RPG_NAME_REGEX = /^[a-zA-Z_][a-zA-Z0-9_@#]*$/;
+
+/** Table-level constraints that do not define columns */
+const CONSTRAINT_KEYWORDS = ['CONSTRAINT', 'PRIMARY', 'FOREIGN', 'UNIQUE', 'CHECK', 'PERIOD'];
+
+/**
+ * Removes SQL comments from a statement
+ * @param sql - SQL text
+ * @returns SQL text without comments
+ */
+function stripComments(sql: string): string {
+    return sql
+        .replace(/\/\*[\s\S]*?\*\//g, ' ')
+        .split('\n')
+        .map(line => {
+            const index = line.indexOf('--');
+            return index >= 0 && (line.slice(0, index).split("'").length - 1) % 2 === 0 ? line.slice(0, index) : line;
+        })
+        .join('\n');
+};
+
+/**
+ * Splits text on a separator that is not inside parentheses or quotes
+ * @param text - Text to split
+ * @param separator - Separator character
+ * @returns Trimmed, non-empty parts
+ */
+function splitTopLevel(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let inQuote = false;
+    let current = '';
+
+    for (const char of text) {
+        if (char === "'") {
+            inQuote = !inQuote;
+        } else if (!inQuote && char === '(') {
+            depth++;
+        } else if (!inQuote && char === ')') {
+            depth--;
+        } else if (!inQuote && depth === 0 && char === separator) {
+            parts.push(current.trim());
+            current = '';
+            continue;
+        };
+        current += char;
+    };
+
+    parts.push(current.trim());
+    return parts.filter(part => part !== '');
+};
+
+/**
+ * Finds the text between the parenthesis at the given index and its match
+ * @param text - Text to search
+ * @param openIndex - Index of the opening parenthesis
+ * @returns Index of the matching closing parenthesis, or -1
+ */
+function findClosingParenthesis(text: string, openIndex: number): number {
+    let depth = 0;
+    let inQuote = false;
+
+    for (let i = openIndex; i < text.length; i++) {
+        const char = text[i];
+        if (char === "'") {
+            inQuote = !inQuote;
+        } else if (!inQuote && char === '(') {
+            depth++;
+        } else if (!inQuote && char === ')') {
+            depth--;
+            if (depth === 0) {
+                return i;
+            };
+        };
+    };
+
+    return -1;
+};
+
+/**
+ * Removes quotes and schema qualifiers from an SQL name
+ * @param name - SQL name, possibly qualified (schema.name or schema/name)
+ * @returns Unqualified name
+ */
+function unqualifyName(name: string): string {
+    const parts = name.trim().split(/[./]/);
+    return parts[parts.length - 1].replace(/^"(.*)"$/, '$1');
+};
+
+/**
+ * Maps an SQL data type to the RPG type and length
+ * @param sqlType - SQL data type, including its parameters
+ * @returns RPG type and length, or undefined if the type is not supported
+ */
+function mapRpgType(sqlType: string): { type: string; length?: string } | undefined {
+    const match = sqlType.trim().match(/^([a-zA-Z][a-zA-Z ]*?)\s*(?:\(\s*([^)]*)\))?$/);
+    if (!match) {
+        return undefined;
+    };
+
+    const name = match[1].toUpperCase().replace(/\s+/g, ' ');
+    const params = (match[2] ?? '').split(',').map(param => param.trim()).filter(param => param !== '');
+    const [first, second] = params;
+
+    switch (name) {
+        case 'CHAR':
+        case 'CHARACTER':
+        case 'BINARY':
+            return { type: 'char', length: first ?? '1' };
+        case 'VARCHAR':
+        case 'CHAR VARYING':
+        case 'CHARACTER VARYING':
+        case 'VARBINARY':
+            return first ? { type: 'varchar', length: first } : undefined;
+        case 'DECIMAL':
+        case 'DEC':
+            return { type: 'packed', length: `${first ?? '5'}:${second ?? '0'}` };
+        case 'NUMERIC':
+            return { type: 'zoned', length: `${first ?? '5'}:${second ?? '0'}` };
+        case 'SMALLINT':
+            return { type: 'int', length: '5' };
+        case 'INTEGER':
+        case 'INT':
+            return { type: 'int', length: '10' };
+        case 'BIGINT':
+            return { type: 'int', length: '20' };
+        case 'DATE':
+            return { type: 'date' };
+        case 'TIME':
+            return { type: 'time' };
+        case 'TIMESTAMP':
+            return first && first !== '6' ? { type: 'timestamp', length: first } : { type: 'timestamp' };
+        case 'BOOLEAN':
+            return { type: 'ind' };
+        case 'GRAPHIC':
+            return { type: 'graph', length: first ?? '1' };
+        case 'VARGRAPHIC':
+        case 'GRAPHIC VARYING':
+            return first ? { type: 'vargraph', length: first } : undefined;
+        case 'REAL':
+            return { type: 'float', length: '4' };
+        case 'DOUBLE':
+        case 'DOUBLE PRECISION':
+        case 'FLOAT':
+            return { type: 'float', length: '8' };
+        default:
+            return undefined;
+    };
+};
+
+/**
+ * Converts an SQL DEFAULT value into an RPG initialization value, when representable
+ * @param value - SQL default expression
+ * @param type - RPG type of the column
+ * @returns RPG initialization value, or undefined
+ */
+function mapRpgInit(value: string, type: string): string | undefined {
+    const trimmed = value.trim();
+
+    if (type === 'ind') {
+        if (/^(true|'1')$/i.test(trimmed)) {
+            return '*on';
+        };
+        return /^(false|'0')$/i.test(trimmed) ? '*off' : undefined;
+    };
+
+    // Date, time and timestamp literals become typed RPG literals
+    const typedPrefixes: Record<string, string> = { date: 'd', time: 't', timestamp: 'z' };
+    if (typedPrefixes[type] && /^'.*'$/.test(trimmed)) {
+        return `${typedPrefixes[type]}${trimmed}`;
+    };
+
+    if (/^'.*'$/.test(trimmed) || /^-?\d+(\.\d+)?$/.test(trimmed)) {
+        return trimmed;
+    };
+
+    // CURRENT_DATE, NULL and other expressions have no RPG equivalent
+    return undefined;
+};
+
+/**
+ * Reads the data type from the start of a column definition
+ * @param text - Column definition after the column name
+ * @returns The data type text and the remaining clauses
+ */
+function readDataType(text: string): { dataType: string; rest: string } {
+    const nameMatch = text.match(/^([a-zA-Z]+(?:\s+(?:VARYING|PRECISION))?)\s*/i);
+    if (!nameMatch) {
+        return { dataType: '', rest: text };
+    };
+
+    let end = nameMatch[0].length;
+    if (text[end] === '(') {
+        const close = findClosingParenthesis(text, end);
+        end = close >= 0 ? close + 1 : text.length;
+    };
+
+    return { dataType: text.slice(0, end).trim(), rest: text.slice(end).trim() };
+};
+
+/**
+ * Parses a single column definition of a CREATE TABLE statement
+ * @param definition - Column definition text
+ * @returns The parsed column, or an error message
+ */
+function parseColumnDefinition(definition: string): SqlColumnDefinition | string {
+    const nameMatch = definition.match(/^("[^"]+"|[a-zA-Z_][a-zA-Z0-9_@#$]*)\s+/);
+    if (!nameMatch) {
+        return `Unrecognized column definition: ${definition}`;
+    };
+
+    const name = unqualifyName(nameMatch[1]);
+    let rest = definition.slice(nameMatch[0].length).trim();
+
+    let systemName: string | undefined;
+    const systemMatch = rest.match(/^FOR\s+(?:COLUMN\s+)?("[^"]+"|[a-zA-Z_][a-zA-Z0-9_@#$]*)\s+/i);
+    if (systemMatch) {
+        systemName = unqualifyName(systemMatch[1]);
+        rest = rest.slice(systemMatch[0].length).trim();
+    };
+
+    const dataType = readDataType(rest);
+    const rpgType = mapRpgType(dataType.dataType);
+    if (!rpgType) {
+        return `Column "${name}" has type "${dataType.dataType}", which has no RPG equivalent.`;
+    };
+
+    const clauses = dataType.rest;
+
+    // Graphic columns in UTF-16 are UCS-2 fields in RPG
+    if (new RegExp(`\\bCCSID\\s+${UCS2_CCSID}\\b`, 'i').test(clauses)) {
+        if (rpgType.type === 'graph') {
+            rpgType.type = 'ucs2';
+        } else if (rpgType.type === 'vargraph') {
+            rpgType.type = 'varucs2';
+        };
+    };
+    const defaultMatch = clauses.match(/\bDEFAULT\s+('(?:[^']|'')*'|[^\s,]+)/i);
+
+    return {
+        name,
+        systemName,
+        type: rpgType.type,
+        length: rpgType.length,
+        init: defaultMatch ? mapRpgInit(defaultMatch[1], rpgType.type) : undefined,
+        notNull: /\bNOT\s+NULL\b/i.test(clauses)
+    };
+};
+
+/**
+ * Parses the select list of a view, using CAST(... AS type) to know the column types
+ * @param selectList - Text between SELECT and FROM
+ * @param columnNames - Column names from the view header, if declared
+ * @param result - Parse result to fill
+ */
+function parseViewColumns(selectList: string, columnNames: string[], result: SqlParseResult): void {
+    splitTopLevel(selectList, ',').forEach((item, index) => {
+        const castMatch = item.match(/^CAST\s*\(/i);
+        const close = castMatch ? findClosingParenthesis(item, castMatch[0].length - 1) : -1;
+        const cast = close >= 0 ? item.slice(castMatch![0].length, close) : '';
+        const asIndex = cast.search(/\sAS\s+[a-zA-Z][^']*$/i);
+        const alias = close >= 0 ? item.slice(close + 1).trim().replace(/^AS\s+/i, '') : '';
+        const name = columnNames[index] ?? unqualifyName(alias);
+
+        if (asIndex < 0 || !name) {
+            result.errors.push(`View column ${index + 1} has no CAST(... AS type) to know its type and was skipped.`);
+            return;
+        };
+
+        const sqlType = cast.slice(asIndex).trim().replace(/^AS\s+/i, '');
+        const rpgType = mapRpgType(sqlType);
+        if (!rpgType) {
+            result.errors.push(`Column "${name}" has type "${sqlType}", which has no RPG equivalent.`);
+            return;
+        };
+
+        result.columns.push({ name, type: rpgType.type, length: rpgType.length });
+    });
+};
+
+/**
+ * Parses a CREATE TABLE or CREATE VIEW statement
+ * @param sql - SQL statement text
+ * @returns Table name, converted columns and problems found
+ * @throws Error if the text is not a CREATE TABLE or CREATE VIEW statement
+ */
+export function parseCreateStatement(sql: string): SqlParseResult {
+    const text = stripComments(sql).replace(/;\s*$/, '').trim();
+    const header = text.match(/^CREATE\s+(?:OR\s+REPLACE\s+)?(TABLE|VIEW)\s+("[^"]+"|[^\s(]+)\s*(?:FOR\s+SYSTEM\s+NAME\s+\S+\s*)?/i);
+
+    if (!header) {
+        throw new Error('The selected text is not a CREATE TABLE or CREATE VIEW statement.');
+    };
+
+    const result: SqlParseResult = { name: unqualifyName(header[2]), columns: [], errors: [] };
+    let rest = text.slice(header[0].length);
+
+    // Optional column list: CREATE TABLE t (...) or CREATE VIEW v (a, b) AS ...
+    let columnList: string[] = [];
+    if (rest.startsWith('(')) {
+        const close = findClosingParenthesis(rest, 0);
+        if (close < 0) {
+            throw new Error('Unbalanced parentheses in the column list.');
+        };
+        columnList = splitTopLevel(rest.slice(1, close), ',');
+        rest = rest.slice(close + 1).trim();
+    };
+
+    if (header[1].toUpperCase() === 'TABLE') {
+        if (columnList.length === 0) {
+            throw new Error('CREATE TABLE ... AS or LIKE statements do not declare their columns.');
+        };
+
+        for (const definition of columnList) {
+            const keyword = definition.split(/\s+/)[0].toUpperCase();
+            if (CONSTRAINT_KEYWORDS.includes(keyword)) {
+                continue;
+            };
+
+            const column = parseColumnDefinition(definition);
+            if (typeof column === 'string') {
+                result.errors.push(column);
+            } else {
+                result.columns.push(column);
+            };
+        };
+
+        return result;
+    };
+
+    // Views only know their column types through CAST expressions
+    const select = rest.match(/^AS\s+SELECT\s+([\s\S]*?)\s+FROM\s/i);
+    if (!select) {
+        throw new Error('The view has no SELECT list to read its columns from.');
+    };
+
+    parseViewColumns(select[1], columnList.map(unqualifyName), result);
+    return result;
+};
+
+/**
+ * Converts parsed SQL columns into structure fields.
+ * Fields of NULL-capable columns are marked with a comment.
+ * @param columns - Columns to convert
+ * @param useSystemNames - Use the FOR COLUMN system names when available
+ * @returns Fields with sequential id numbers
+ */
+export function sqlColumnsToFields(columns: SqlColumnDefinition[], useSystemNames: boolean): Field[] {
+    return columns.map((column, index) => {
+        // Delimited SQL names may not be valid RPG names
+        const preferred = useSystemNames && column.systemName ? column.systemName : column.name;
+        const name = RPG_NAME_REGEX.test(preferred) ? preferred : column.systemName ?? preferred.replace(/[^a-zA-Z0-9_@#]/g, '_');
+
+        return {
+            idNumber: index,
+            name,
+            type: column.type,
+            length: column.length,
+            init: column.init,
+            dim: undefined,
+            isStructure: false,
+            fields: [],
+            comment: column.notNull === false ? NULL_CAPABLE_COMMENT : undefined
+        };
+    });
+};
+
+/**
+ * Counts the columns declared without NOT NULL
+ * @param columns - Parsed columns
+ * @returns Number of NULL-capable columns
+ */
+export function countNullCapableColumns(columns: SqlColumnDefinition[]): number {
+    return columns.filter(column => column.notNull === false).length;
+};
+
+/**
+ * Finds the CREATE statement that contains the given offset
+ * @param text - Document text
+ * @param offset - Offset of the cursor
+ * @returns The statement text, or undefined if the cursor is not inside one
+ */
+export function findCreateStatementAt(text: string, offset: number): string | undefined {
+    const pattern = /CREATE\s+(?:OR\s+REPLACE\s+)?(?:TABLE|VIEW)\b/gi;
+    let match: RegExpExecArray | null;
+    let found: string | undefined;
+
+    while ((match = pattern.exec(text)) !== null && match.index <= offset) {
+        const end = findStatementEnd(text, match.index);
+        const statementEnd = end < 0 ? text.length : end + 1;
+        found = offset <= statementEnd ? text.slice(match.index, statementEnd) : undefined;
+    };
+
+    return found;
+};
+
+/**
+ * Finds the semicolon that ends a statement, skipping string literals, delimited names and comments
+ * @param text - Document text
+ * @param start - Offset where the statement starts
+ * @returns Offset of the semicolon, or -1 if the statement is not terminated
+ */
+function findStatementEnd(text: string, start: number): number {
+    let i = start;
+
+    while (i < text.length) {
+        const char = text[i];
+
+        if (char === "'" || char === '"') {
+            // Quotes inside a literal or name are doubled, which reads as two adjacent literals
+            const close = text.indexOf(char, i + 1);
+            i = close < 0 ? text.length : close + 1;
+        } else if (text.startsWith('--', i)) {
+            const lineEnd = text.indexOf('\n', i);
+            i = lineEnd < 0 ? text.length : lineEnd + 1;
+        } else if (text.startsWith('/*', i)) {
+            const commentEnd = text.indexOf('*/', i + 2);
+            i = commentEnd < 0 ? text.length : commentEnd + 2;
+        } else if (char === ';') {
+            return i;
+        } else {
+            i++;
+        };
+    };
+
+    return -1;
+};
@@ -0,0 +1,378 @@
+/*
+	Christian Larsen, 2025
+	"RPG structure"
+	rpg-structure.types.ts
+*/
+
+import { currentConfiguration } from './rpg-structure.configuration';
+import { DataTypeDefinition, KeywordCase } from './rpg-structure.model';
+
+/**
+ * Registry of the data types available for fields.
+ * Every type declares its keyword, length rules, initialization rules and byte size,
+ * so the type picker, validation, code generation, import and layout share one definition.
+ */
+
+// INTERFACES
+
+/**
+ * Length and separators of a date or time format.
+ */
+interface DateTimeFormat {
+    /** Length in bytes, with separators */
+    length: number;
+    /** Number of separators */
+    separators: number;
+    /** Whether a separator can follow the format */
+    separatorChoice: boolean;
+};
+
+// CONSTANTS
+
+/** Maximum length of character fields */
+const MAX_CHAR_LENGTH = 16773104;
+
+/** Maximum length of graphic and UCS-2 fields */
+const MAX_GRAPHIC_LENGTH = 8386552;
+
+/** Maximum number of digits of packed and zoned fields */
+const MAX_DECIMAL_DIGITS = 63;
+
+/** Storage size of integer types by number of digits */
+const INTEGER_SIZES: Readonly<Record<string, number>> = {
+    '3': 1,
+    '5': 2,
+    '10': 4,
+    '20': 8
+};
+
+/** Varying-length fields with more characters than this need a 4-byte length prefix */
+const VARYING_2_BYTE_MAX = 65535;
+
+/** Maximum number of fractional seconds digits of timestamps */
+const MAX_TIMESTAMP_FRACTION = 12;
+
+/** Fractional seconds digits of timestamps declared without a parameter */
+const DEFAULT_TIMESTAMP_FRACTION = 6;
+
+/**
+ * Date formats, with their length including separators, their number of separators
+ * and whether the separator can be chosen (the *ISO family has fixed separators)
+ */
+export const DATE_FORMATS: Readonly<Record<string, DateTimeFormat>> = {
+    '*iso': { length: 10, separators: 2, separatorChoice: false },
+    '*usa': { length: 10, separators: 2, separatorChoice: false },
+    '*eur': { length: 10, separators: 2, separatorChoice: false },
+    '*jis': { length: 10, separators: 2, separatorChoice: false },
+    '*mdy': { length: 8, separators: 2, separatorChoice: true },
+    '*dmy': { length: 8, separators: 2, separatorChoice: true },
+    '*ymd': { length: 8, separators: 2, separatorChoice: true },
+    '*jul': { length: 6, separators: 1, separatorChoice: true },
+    '*cymd': { length: 9, separators: 2, separatorChoice: true },
+    '*cmdy': { length: 9, separators: 2, separatorChoice: true },
+    '*cdmy': { length: 9, separators: 2, separatorChoice: true },
+    '*longjul': { length: 8, separators: 1, separatorChoice: true }
+};
+
+/** Time formats, as DATE_FORMATS */
+export const TIME_FORMATS: Readonly<Record<string, DateTimeFormat>> = {
+    '*iso': { length: 8, separators: 2, separatorChoice: false },
+    '*usa': { length: 8, separators: 2, separatorChoice: false },
+    '*eur': { length: 8, separators: 2, separatorChoice: false },
+    '*jis': { length: 8, separators: 2, separatorChoice: false },
+    '*hms': { length: 8, separators: 2, separatorChoice: true }
+};
+
+/** Separators of date formats; & is a blank and 0 means no separator */
+const DATE_SEPARATORS = ['/', '-', '.', ',', '&', '0'];
+
+/** Separators of time formats */
+const TIME_SEPARATORS = [':', '.', ',', '&', '0'];
+
+/**
+ * Data types supported out of the box, in the order shown in the type picker.
+ */
+export const BUILT_IN_DATA_TYPES: ReadonlyArray<DataTypeDefinition> = [
+    { name: 'char', keyword: 'char', lengthRequired: true, lengthSyntax: 'digits', maxLength: MAX_CHAR_LENGTH, initRule: 'string', byteSize: 'length', fixedType: 'A' },
+    { name: 'varchar', keyword: 'varchar', lengthRequired: true, lengthSyntax: 'varying', maxLength: MAX_CHAR_LENGTH - 4, initRule: 'string', byteSize: 'varying', fixedType: 'A' },
+    { name: 'int', keyword: 'int', lengthRequired: true, lengthSyntax: 'values', lengthValues: [3, 5, 10, 20], initRule: 'integer', byteSize: 'integer', fixedType: 'I', fixedDecimals: true },
+    { name: 'packed', keyword: 'packed', lengthRequired: true, lengthSyntax: 'decimals', maxLength: MAX_DECIMAL_DIGITS, initRule: 'numeric', byteSize: 'packed', fixedType: 'P', fixedDecimals: true },
+    { name: 'zoned', keyword: 'zoned', lengthRequired: true, lengthSyntax: 'decimals', maxLength: MAX_DECIMAL_DIGITS, initRule: 'numeric', byteSize: 'length', fixedType: 'S', fixedDecimals: true },
+    { name: 'uns', keyword: 'uns', lengthRequired: true, lengthSyntax: 'values', lengthValues: [3, 5, 10, 20], initRule: 'integer', byteSize: 'integer', fixedType: 'U', fixedDecimals: true },
+    { name: 'date', keyword: 'date', lengthRequired: false, lengthSyntax: 'dateFormat', initRule: 'date', byteSize: 'date', fixedType: 'D' },
+    { name: 'time', keyword: 'time', lengthRequired: false, lengthSyntax: 'timeFormat', initRule: 'time', byteSize: 'time', fixedType: 'T' },
+    { name: 'timestamp', keyword: 'timestamp', lengthRequired: false, lengthSyntax: 'fraction', maxLength: MAX_TIMESTAMP_FRACTION, initRule: 'timestamp', byteSize: 'timestamp', fixedType: 'Z' },
+    { name: 'bin', keyword: 'bin', lengthRequired: true, lengthSyntax: 'decimals', maxLength: 9, initRule: 'integer', byteSize: 'binary', fixedType: 'B', fixedDecimals: true },
+    { name: 'ind', keyword: 'ind', lengthRequired: false, lengthSyntax: 'none', initRule: 'indicator', byteSize: 1, fixedType: 'N' },
+    { name: 'pointer', keyword: 'pointer', lengthRequired: false, lengthSyntax: 'none', initRule: 'pointer', byteSize: 16, alignment: 16, fixedType: '*' },
+    { name: 'float', keyword: 'float', lengthRequired: true, lengthSyntax: 'values', lengthValues: [4, 8], initRule: 'numeric', byteSize: 'length', fixedType: 'F' },
+    { name: 'graph', keyword: 'graph', lengthRequired: true, lengthSyntax: 'digits', maxLength: MAX_GRAPHIC_LENGTH, initRule: 'string', byteSize: 'double', fixedType: 'G' },
+    { name: 'vargraph', keyword: 'vargraph', lengthRequired: true, lengthSyntax: 'varying', maxLength: MAX_GRAPHIC_LENGTH - 2, initRule: 'string', byteSize: 'varyingDouble', fixedType: 'G' },
+    { name: 'ucs2', keyword: 'ucs2', lengthRequired: true, lengthSyntax: 'digits', maxLength: MAX_GRAPHIC_LENGTH, initRule: 'string', byteSize: 'double', fixedType: 'C' },
+    { name: 'varucs2', keyword: 'varucs2', lengthRequired: true, lengthSyntax: 'varying', maxLength: MAX_GRAPHIC_LENGTH - 2, initRule: 'string', byteSize: 'varyingDouble', fixedType: 'C' },
+    { name: 'object', keyword: 'object', lengthRequired: false, lengthSyntax: 'none', initRule: 'any', byteSize: 16, alignment: 16, fixedType: 'O' },
+    { name: 'bindec', keyword: 'bindec', lengthRequired: true, lengthSyntax: 'decimals', maxLength: 9, initRule: 'numeric', byteSize: 'binary', fixedType: 'B', fixedDecimals: true }
+];
+
+// REGISTRY
+
+/**
+ * Returns all data types: the built-in types, overridden by the user-defined
+ * types with the same name, followed by the other user-defined types
+ * @returns Data type definitions
+ */
+export function getDataTypes(): DataTypeDefinition[] {
+    const custom = currentConfiguration?.dataTypes ?? [];
+    const isSameName = (a: DataTypeDefinition, b: DataTypeDefinition): boolean =>
+        a.name.toLowerCase() === b.name.toLowerCase();
+
+    return [
+        ...BUILT_IN_DATA_TYPES.map(builtIn => custom.find(type => isSameName(type, builtIn)) ?? builtIn),
+        ...custom.filter(type => !BUILT_IN_DATA_TYPES.some(builtIn => isSameName(type, builtIn)))
+    ];
+};
+
+/**
+ * Returns the names of the data types offered in the type picker
+ * @returns Names of the types that are not hidden
+ */
+export function getSelectableDataTypes(): string[] {
+    return getDataTypes()
+        .filter(type => !type.hidden)
+        .map(type => type.name);
+};
+
+/**
+ * Finds a data type by name (case-insensitive)
+ * @param name - Name of the type
+ * @returns The type definition, or undefined if the type is unknown
+ */
+export function findDataType(name: string): DataTypeDefinition | undefined {
+    const lowerName = name.toLowerCase();
+    return getDataTypes().find(type => type.name.toLowerCase() === lowerName);
+};
+
+/**
+ * Finds the data type declared in free-form code with the given keyword.
+ * Aliases such as like(custno_t) are matched with their parameter first.
+ * @param keyword - Keyword as written in the source (any case)
+ * @param parameter - Parameter between parentheses (optional)
+ * @returns The type definition, or undefined if no type uses the keyword
+ */
+export function findDataTypeByKeyword(keyword: string, parameter?: string): DataTypeDefinition | undefined {
+    const types = getDataTypes();
+    const lowerKeyword = keyword.toLowerCase();
+
+    if (parameter !== undefined) {
+        const declaration = `${lowerKeyword}(${parameter.replace(/\s+/g, '').toLowerCase()})`;
+        const alias = types.find(type => type.keyword.replace(/\s+/g, '').toLowerCase() === declaration);
+        if (alias) {
+            return alias;
+        };
+    };
+
+    return types.find(type => type.keyword.toLowerCase() === lowerKeyword);
+};
+
+/**
+ * Finds the data type of a fixed-form definition from its internal data type letter
+ * @param fixedType - Data type letter from column 40
+ * @param varying - Whether the definition has the VARYING keyword
+ * @returns The type definition, or undefined if no type uses the letter
+ */
+export function findDataTypeByFixedType(fixedType: string, varying: boolean): DataTypeDefinition | undefined {
+    const candidates = getDataTypes().filter(type => type.fixedType?.toUpperCase() === fixedType.toUpperCase());
+    return candidates.find(type => (type.lengthSyntax === 'varying') === varying) ?? candidates[0];
+};
+
+// FORMATTING
+
+/**
+ * Applies the keyword case of a format to a data type keyword.
+ * Only the keyword itself changes, the parameter of aliases is kept as entered.
+ * @param keyword - Keyword from the type definition
+ * @param keywordCase - Case of the format
+ * @returns Keyword in the requested case
+ */
+export function formatTypeKeyword(keyword: string, keywordCase: KeywordCase): string {
+    const match = keyword.match(/^([a-zA-Z0-9-]+)(.*)$/);
+    if (!match) {
+        return keyword;
+    };
+
+    const [, word, rest] = match;
+    switch (keywordCase) {
+        case 'upper':
+            return word.toUpperCase() + rest;
+        case 'title':
+            return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase() + rest;
+        default:
+            return word.toLowerCase() + rest;
+    };
+};
+
+/**
+ * Checks whether the keyword of a type already carries its parameter (aliases such as like(x)),
+ * in which case no length is added to the declaration
+ * @param type - Type definition
+ * @returns True if the keyword includes a parameter
+ */
+export function hasKeywordParameter(type: DataTypeDefinition): boolean {
+    return type.keyword.includes('(');
+};
+
+// DATE AND TIME FORMATS
+
+/**
+ * Splits the format parameter of a date or time field (*iso, *ymd/, *hms:) into its format and separator
+ * @param lengthSyntax - 'dateFormat' or 'timeFormat'
+ * @param parameter - Format parameter, in any case
+ * @returns The format in lowercase with its separator, or undefined if the combination is not valid
+ */
+export function parseDateTimeFormat(
+    lengthSyntax: 'dateFormat' | 'timeFormat',
+    parameter: string
+): { format: string; separator?: string } | undefined {
+    const match = parameter.trim().toLowerCase().match(/^(\*[a-z]+)(.?)$/);
+    if (!match) {
+        return undefined;
+    };
+
+    const [, format, separator] = match;
+    const definition = (lengthSyntax === 'dateFormat' ? DATE_FORMATS : TIME_FORMATS)[format];
+    const separators = lengthSyntax === 'dateFormat' ? DATE_SEPARATORS : TIME_SEPARATORS;
+    if (!definition || (separator && (!definition.separatorChoice || !separators.includes(separator)))) {
+        return undefined;
+    };
+
+    return { format, separator: separator || undefined };
+};
+
+/**
+ * Calculates the length of a date or time field from its format parameter
+ * @param lengthSyntax - 'dateFormat' or 'timeFormat'
+ * @param parameter - Format parameter, *ISO when undefined
+ * @returns Size in bytes, or undefined if the format is not valid
+ */
+function dateTimeSize(lengthSyntax: 'dateFormat' | 'timeFormat', parameter: string | undefined): number | undefined {
+    const parsed = parseDateTimeFormat(lengthSyntax, parameter?.trim() || '*iso');
+    if (!parsed) {
+        return undefined;
+    };
+
+    const definition = (lengthSyntax === 'dateFormat' ? DATE_FORMATS : TIME_FORMATS)[parsed.format];
+    return parsed.separator === '0' ? definition.length - definition.separators : definition.length;
+};
+
+/**
+ * Calculates the length of a timestamp from its fractional seconds digits
+ * @param fraction - Number of fractional seconds digits, 6 when undefined
+ * @returns Size in bytes, or undefined if the number is out of range
+ */
+export function timestampSize(fraction: number = DEFAULT_TIMESTAMP_FRACTION): number | undefined {
+    if (!Number.isInteger(fraction) || fraction < 0 || fraction > MAX_TIMESTAMP_FRACTION) {
+        return undefined;
+    };
+    return fraction > 0 ? 20 + fraction : 19;
+};
+
+// SIZE CALCULATION
+
+/**
+ * Splits a length specification ("10", "13:2", "100:4") into its numeric parts
+ * @param length - Length specification
+ * @returns Array with the parsed numbers, empty if the length is not numeric
+ */
+export function parseLength(length: string | undefined): number[] {
+    if (!length || !/^\d+(:\d+)?$/.test(length.trim())) {
+        return [];
+    };
+    return length.trim().split(':').map(part => parseInt(part, 10));
+};
+
+/**
+ * Calculates the number of bytes of a varying-length field
+ * @param characters - Number of characters
+ * @param characterSize - Bytes per character
+ * @param prefix - Prefix size given in the length (2 or 4), if any
+ * @returns Size in bytes, including the length prefix
+ */
+function varyingSize(characters: number, characterSize: number, prefix: number | undefined): number {
+    // varchar(n:2) or varchar(n:4) sets the prefix explicitly
+    if (prefix === 2 || prefix === 4) {
+        return characters * characterSize + prefix;
+    };
+    // The prefix follows the number of characters, not bytes, so vargraph(40000) still has a 2-byte prefix
+    return characters * characterSize + (characters > VARYING_2_BYTE_MAX ? 4 : 2);
+};
+
+/**
+ * Calculates the number of bytes used by a single element of a data type
+ * @param type - Type definition
+ * @param length - Length specification of the field
+ * @returns Size in bytes, or undefined if it cannot be determined
+ */
+export function calculateByteSize(type: DataTypeDefinition, length: string | undefined): number | undefined {
+    if (typeof type.byteSize === 'number') {
+        return type.byteSize;
+    };
+
+    // Date, time and timestamp lengths come from their format or precision, and have a default
+    switch (type.byteSize) {
+        case 'date':
+            return dateTimeSize('dateFormat', length);
+        case 'time':
+            return dateTimeSize('timeFormat', length);
+        case 'timestamp':
+            return length?.trim() ? timestampSize(parseLength(length)[0] ?? NaN) : timestampSize();
+        default:
+            break;
+    };
+
+    const [digits, extra] = parseLength(length);
+    if (digits === undefined) {
+        return undefined;
+    };
+
+    switch (type.byteSize) {
+        case 'length':
+            return digits;
+        case 'double':
+            return digits * 2;
+        case 'packed':
+            return Math.floor(digits / 2) + 1;
+        case 'integer':
+            return INTEGER_SIZES[digits.toString()];
+        case 'binary':
+            if (digits < 1 || digits > 9) {
+                return undefined;
+            };
+            return digits <= 4 ? 2 : 4;
+        case 'varying':
+            return varyingSize(digits, 1, extra);
+        case 'varyingDouble':
+            return varyingSize(digits, 2, extra);
+        default:
+            return undefined;
+    };
+};
+
+// LITERALS
+
+/**
+ * Returns the number of characters of a character or hexadecimal literal
+ * @param init - Init value of a field
+ * @returns Number of characters, or undefined if the value is not a literal
+ */
+export function getLiteralLength(init: string | undefined): number | undefined {
+    const value = init?.trim() ?? '';
+
+    // Hexadecimal literals take one character per pair of digits
+    const hexMatch = value.match(/^x'([0-9a-f]*)'$/i);
+    if (hexMatch) {
+        return hexMatch[1].length / 2;
+    };
+
+    // Quotes inside a literal are doubled
+    return /^'.*'$/.test(value) ? value.slice(1, -1).replace(/''/g, "'").length : undefined;
+};
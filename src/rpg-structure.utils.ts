@@ -6,37 +6,22 @@
 
 import * as vscode from 'vscode';
 import { generateRpgCode } from './rpg-structure.code';
-import { fields, header, Field } from './rpg-structure.model';
+import { fields, header, Field, DataTypeDefinition, InitRule, StructureState, REFERENCE_KEYWORDS } from './rpg-structure.model';
 import { FieldItem, FieldsTreeDataProvider } from './rpg-structure.providers';
 import { RpgStructureParser } from './rpg-structure.parser';
+import { findDataType, getSelectableDataTypes, parseDateTimeFormat, getLiteralLength, DATE_FORMATS, TIME_FORMATS } from './rpg-structure.types';
+import { findExternalTarget, getReferenceName } from './rpg-structure.references';
 
 // Types
-type FieldType = 
-	'char' | 
-	'varchar' | 
-	'int' | 
-	'packed' | 
-	'zoned' | 
-	'uns' | 
-    'date' | 
-	'time' | 
-	'timestamp' | 
-	'bin' | 
-	'ind' | 
-	'pointer';
-
 type StructureType = 
 	'Default' | 
 	'template' | 
 	'*var' | 
-	'*auto';
+	'*auto' | 
+	'extname' | 
+	'likerec';
 
 // Constants
-const FIELD_TYPES: FieldType[] = [
-    'char', 'varchar', 'int', 'packed', 'zoned', 'uns',
-    'date', 'time', 'timestamp', 'bin', 'ind', 'pointer'
-];
-
 const CONTEXT_COMMANDS = {
     SHOW_CONTAINER: 'rpgstructure.showContainer',
     HAS_FIELDS: 'rpgStructure.hasFields'
@@ -44,19 +29,81 @@ const CONTEXT_COMMANDS = {
 
 const SUPPORTED_LANGUAGES = ['rpgle', 'sqlrpgle'] as const;
 
+/** Placeholder of the position prompt, for pos() and overlay() */
+const PLACEMENT_PLACEHOLDER = 'e.g. 11 for pos(11), or date, date:5 or date:*next to overlay a subfield';
+
 // Regular expressions for validation
 const FIELD_NAME_REGEX = /^[a-zA-ZÑñ_][a-zA-ZÑñ0-9_@#]*$/;
 const INTEGER_REGEX = /^\d+$/;
 const DECIMAL_REGEX = /^\d+:\d+$/;
-const NUMERIC_VALUE_REGEX = /^\d+(\.\d+)?$/;
+const VARYING_REGEX = /^\d+:[24]$/;
+const NUMERIC_VALUE_REGEX = /^[+-]?(\d+(\.\d*)?|\.\d+)$/;
+const SIGNED_INTEGER_REGEX = /^[+-]?\d+$/;
 const QUOTED_STRING_REGEX = /^'.*'$/;
+const HEX_LITERAL_REGEX = /^x'((?:[0-9a-f]{2})+)'$/i;
+const ALL_LITERAL_REGEX = /^\*all(x?)'(.+)'$/i;
+const DATE_LITERAL_REGEX = /^d'[0-9][0-9\/\-.,&]*'$/i;
+const TIME_LITERAL_REGEX = /^t'[0-9][0-9:.,&]*'$/i;
+const TIMESTAMP_LITERAL_REGEX = /^z'[0-9][0-9\-.:]*'$/i;
+const ADDRESS_REGEX = /^%addr\(\s*[a-zA-ZÑñ_@#$][a-zA-ZÑñ0-9_@#$.]*\s*\)$/i;
+const EXTFLD_TYPE = 'extfld';
+const REFERENCE_REGEX = /^[a-zA-ZÑñ_@#$][a-zA-ZÑñ0-9_@#$]*(?:\.[a-zA-ZÑñ_@#$][a-zA-ZÑñ0-9_@#$]*)*(?::\*[a-zA-Z]+)?$/;
+const OVERLAY_REGEX = /^([a-zA-ZÑñ_][a-zA-ZÑñ0-9_@#]*)(?::(\d+|\*next))?$/i;
+const REFERENCE_KEYWORD_REGEX = /^(?:likeds|likerec|like)\(\s*([a-zA-Z_@#$][a-zA-Z0-9_@#$]*)/i;
+
+/**
+ * Figurative constants offered in the init value picker, by initialization rule
+ */
+const FIGURATIVE_CONSTANTS: Readonly<Record<InitRule, ReadonlyArray<{ value: string; description: string }>>> = {
+    'string': [
+        { value: '*blanks', description: 'All blanks' },
+        { value: '*zeros', description: 'All zeros' },
+        { value: '*hival', description: 'Highest value (all x\'FF\')' },
+        { value: '*loval', description: 'Lowest value (all x\'00\')' },
+        { value: '*user', description: 'Name of the current user profile (10 characters or more)' }
+    ],
+    'numeric': [
+        { value: '*zeros', description: 'Zero' },
+        { value: '*hival', description: 'Highest value of the type' },
+        { value: '*loval', description: 'Lowest value of the type' }
+    ],
+    'integer': [
+        { value: '*zeros', description: 'Zero' },
+        { value: '*hival', description: 'Highest value of the type' },
+        { value: '*loval', description: 'Lowest value of the type' }
+    ],
+    'indicator': [
+        { value: '*on', description: "'1'" },
+        { value: '*off', description: "'0'" }
+    ],
+    'date': [
+        { value: '*sys', description: 'System date at initialization' },
+        { value: '*job', description: 'Job date' },
+        { value: '*hival', description: 'Highest date' },
+        { value: '*loval', description: 'Lowest date' }
+    ],
+    'time': [
+        { value: '*sys', description: 'System time at initialization' },
+        { value: '*hival', description: 'Highest time' },
+        { value: '*loval', description: 'Lowest time' }
+    ],
+    'timestamp': [
+        { value: '*sys', description: 'System timestamp at initialization' },
+        { value: '*hival', description: 'Highest timestamp' },
+        { value: '*loval', description: 'Lowest timestamp' }
+    ],
+    'pointer': [
+        { value: '*null', description: 'Null pointer' }
+    ],
+    'any': []
+};
 
 /**
  * Interface for field creation parameters
  */
 interface FieldCreationParams {
     name: string;
-    type: FieldType;
+    type: string;
     length?: string;
     init?: string;
     dim?: number;
@@ -80,6 +127,10 @@ interface ValidationResult {
  * @param structureType - Type of the structure
  * @param dimension - Dimension of the structure (optional)
  * @param fields - Array of field objects
+ * @param comment - Comment of the structure (optional)
+ * @param keywords - Additional keywords of the structure (optional)
+ * @param external - File or record format of an externally described structure (optional)
+ * @param unqualified - Whether the qualified keyword is left out (optional)
  */
 export function handleInsert(
     editor: vscode.TextEditor,
@@ -87,7 +138,11 @@ export function handleInsert(
     structureName: string,
     structureType: string,
     dimension: string | undefined,
-    fields: Field[]
+    fields: Field[],
+    comment?: string,
+    keywords?: string[],
+    external?: string,
+    unqualified?: boolean
 ): void {
     try {
         // Calculate base indentation from current line
@@ -104,66 +159,353 @@ export function handleInsert(
             fields,
             line: 0,
             level: 0,
-            baseIndent
+            baseIndent,
+            comment,
+            keywords,
+            external,
+            unqualified
         });
 
-        // Get document info
-        const uri = editor.document.uri;
-        const viewColumn = editor.viewColumn ?? vscode.ViewColumn.One;
-
-        // Insert the code
-        vscode.window.showTextDocument(uri, { viewColumn, preserveFocus: false }).then(
-            (docEditor) => {
-                docEditor.edit((editBuilder) => {
-                    const lineRange = editor.document.lineAt(position.line).range;
-                    editBuilder.replace(lineRange, code);
-                }).then(
-                    (success) => {
-                        if (!success) {
-                            vscode.window.showErrorMessage('Failed to insert the RPG structure code.');
-                        } else {
-                            vscode.window.showInformationMessage('RPG structure inserted successfully!');
-                        };
-                    },
-                    (error) => {
-                        console.error('Error during code insertion:', error);
-                        vscode.window.showErrorMessage(`Error during insertion: ${error}`);
-                    }
-                );
-            },
-            (error) => {
-                console.error('Failed to show text document:', error);
-                vscode.window.showErrorMessage('Failed to open document for code insertion.');
-            }
-        );
+        insertCode(editor, position, code);
     } catch (error) {
         console.error('Error in handleInsert:', error);
         vscode.window.showErrorMessage(`Failed to generate or insert code: ${error instanceof Error ? error.message : String(error)}`);
     };
 };
 
+/**
+ * Handles the insertion of several structures into the active editor, separated by a blank line
+ * @param editor - The VS Code text editor
+ * @param position - Position where to insert the code
+ * @param structures - Structures to generate, in the order they are inserted
+ */
+export function handleInsertStructures(
+    editor: vscode.TextEditor,
+    position: vscode.Position,
+    structures: StructureState[]
+): void {
+    try {
+        // Calculate base indentation from current line
+        const lineText = editor.document.lineAt(editor.selection.active.line).text;
+        const indentMatch = lineText.match(/^(\s*)/);
+        const baseIndent = indentMatch ? indentMatch[1] : '';
+
+        const code = structures.map(structure => generateStructureCode(structure, baseIndent)).join('\n\n');
+
+        insertCode(editor, position, code);
+    } catch (error) {
+        console.error('Error in handleInsertStructures:', error);
+        vscode.window.showErrorMessage(`Failed to generate or insert code: ${error instanceof Error ? error.message : String(error)}`);
+    };
+};
+
+/**
+ * Generates the RPG code of a structure
+ * @param structure - Structure to generate
+ * @param baseIndent - Indentation of the declaration (optional)
+ * @returns Generated RPG code
+ */
+export function generateStructureCode(structure: StructureState, baseIndent: string = ''): string {
+    return generateRpgCode({
+        name: structure.header.name,
+        type: structure.header.type as StructureType,
+        dimension: structure.header.dimension,
+        fields: structure.fields,
+        line: 0,
+        level: 0,
+        baseIndent,
+        comment: structure.header.comment,
+        keywords: structure.header.keywords,
+        external: structure.header.external,
+        unqualified: structure.header.unqualified
+    });
+};
+
+/**
+ * Replaces the line at the given position with generated code
+ * @param editor - The VS Code text editor
+ * @param position - Position of the line to replace
+ * @param code - Generated RPG code
+ */
+function insertCode(editor: vscode.TextEditor, position: vscode.Position, code: string): void {
+    // Get document info
+    const uri = editor.document.uri;
+    const viewColumn = editor.viewColumn ?? vscode.ViewColumn.One;
+
+    // Insert the code
+    vscode.window.showTextDocument(uri, { viewColumn, preserveFocus: false }).then(
+        (docEditor) => {
+            docEditor.edit((editBuilder) => {
+                const lineRange = editor.document.lineAt(position.line).range;
+                editBuilder.replace(lineRange, code);
+            }).then(
+                (success) => {
+                    if (!success) {
+                        vscode.window.showErrorMessage('Failed to insert the RPG structure code.');
+                    } else {
+                        vscode.window.showInformationMessage('RPG structure inserted successfully!');
+                    };
+                },
+                (error) => {
+                    console.error('Error during code insertion:', error);
+                    vscode.window.showErrorMessage(`Error during insertion: ${error}`);
+                }
+            );
+        },
+        (error) => {
+            console.error('Failed to show text document:', error);
+            vscode.window.showErrorMessage('Failed to open document for code insertion.');
+        }
+    );
+};
+
+/**
+ * Sorts structures so that every structure comes after the structures it references
+ * (like, likeds or likerec types). Structures in a reference cycle keep their order.
+ * @param structures - Structures to sort
+ * @returns The structures in dependency order
+ */
+export function orderByDependency<T extends StructureState>(structures: T[]): T[] {
+    const ordered: T[] = [];
+    const visiting = new Set<T>();
+
+    const visit = (structure: T): void => {
+        if (ordered.includes(structure) || visiting.has(structure)) {
+            return;
+        };
+
+        visiting.add(structure);
+        for (const name of getReferencedNames(structure.fields)) {
+            const dependency = structures.find(other =>
+                other !== structure && other.header.name.toLowerCase() === name.toLowerCase());
+            if (dependency) {
+                visit(dependency);
+            };
+        };
+        visiting.delete(structure);
+        ordered.push(structure);
+    };
+
+    structures.forEach(visit);
+    return ordered;
+};
+
+/**
+ * Collects the names referenced by the likeds, like and likerec fields and types of the fields
+ * @param fieldList - Fields to search, including subfields
+ * @returns Referenced names
+ */
+function getReferencedNames(fieldList: Field[]): string[] {
+    const names: string[] = [];
+
+    for (const field of fieldList) {
+        if (field.isStructure) {
+            names.push(...getReferencedNames(field.fields));
+            continue;
+        };
+
+        const referenced = getReferenceName(field);
+        if (referenced) {
+            names.push(referenced);
+            continue;
+        };
+
+        const keyword = findDataType(field.type)?.keyword ?? '';
+        const match = keyword.match(REFERENCE_KEYWORD_REGEX);
+        if (match) {
+            names.push(match[1]);
+        };
+    };
+
+    return names;
+};
+
+/**
+ * Replaces a block of lines in a document with freshly generated RPG code
+ * @param document - The document that contains the block
+ * @param startLine - First line of the block to replace (0-based)
+ * @param endLine - Last line of the block to replace (0-based)
+ * @param structureName - Name of the structure
+ * @param structureType - Type of the structure
+ * @param dimension - Dimension of the structure (optional)
+ * @param fields - Array of field objects
+ * @param comment - Comment of the structure (optional)
+ * @param keywords - Additional keywords of the structure (optional)
+ * @param external - File or record format of an externally described structure (optional)
+ * @param unqualified - Whether the qualified keyword is left out (optional)
+ * @returns Number of lines written, or undefined if the edit was not applied
+ */
+export async function replaceStructureBlock(
+    document: vscode.TextDocument,
+    startLine: number,
+    endLine: number,
+    structureName: string,
+    structureType: string,
+    dimension: string | undefined,
+    fields: Field[],
+    comment?: string,
+    keywords?: string[],
+    external?: string,
+    unqualified?: boolean
+): Promise<number | undefined> {
+    // Keep the indentation of the original declaration
+    const lineText = document.lineAt(startLine).text;
+    const indentMatch = lineText.match(/^(\s*)/);
+    const baseIndent = indentMatch ? indentMatch[1] : '';
+
+    const code = generateRpgCode({
+        name: structureName,
+        type: structureType as StructureType,
+        dimension,
+        fields,
+        line: 0,
+        level: 0,
+        baseIndent,
+        comment,
+        keywords,
+        external,
+        unqualified
+    });
+
+    const range = new vscode.Range(
+        document.lineAt(startLine).range.start,
+        document.lineAt(endLine).range.end
+    );
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(document.uri, range, code);
+
+    const success = await vscode.workspace.applyEdit(edit);
+    return success ? code.split('\n').length : undefined;
+};
+
+/**
+ * Reads workspace source files whose base name (without extension) matches one of the given names
+ * @param names - File names to look for (case-insensitive, without extension)
+ * @param extensions - File extensions to consider (without dot)
+ * @returns Map of uppercased file name to file content, for the files found
+ */
+export async function findWorkspaceSources(names: string[], extensions: string[]): Promise<Map<string, string>> {
+    const sources = new Map<string, string>();
+    const wanted = new Set(names.map(name => name.toUpperCase()));
+
+    if (wanted.size === 0) {
+        return sources;
+    };
+
+    const patterns = extensions.flatMap(extension => [extension.toLowerCase(), extension.toUpperCase()]);
+    const uris = await vscode.workspace.findFiles(`**/*.{${patterns.join(',')}}`, '**/node_modules/**');
+
+    for (const uri of uris) {
+        const baseName = uri.path.split('/').pop()!.replace(/\.[^.]*$/, '').toUpperCase();
+        if (!wanted.has(baseName) || sources.has(baseName)) {
+            continue;
+        };
+
+        try {
+            const content = await vscode.workspace.fs.readFile(uri);
+            sources.set(baseName, Buffer.from(content).toString('utf8'));
+        } catch (error) {
+            console.warn(`Failed to read ${uri.toString()}:`, error);
+        };
+    };
+
+    return sources;
+};
+
 /**
  * Returns placeholder text for different field types to help users with initialization values
  * @param type - The field type
  * @returns Placeholder string for the given type
  */
-export function getInitPlaceholder(type: FieldType): string {
-    const placeholders: Record<FieldType, string> = {
-        'char': "'ABC'",
-        'varchar': "'ABC'",
-        'ind': "1, 0, *on, *off",
-        'zoned': "123 or 45.67",
-        'packed': "123 or 45.67",
-        'int': "123",
-        'uns': "123",
-        'bin': "123",
-        'date': "",
-        'time': "",
-        'timestamp': "",
-        'pointer': ""
+export function getInitPlaceholder(type: string): string {
+    const placeholders: Record<InitRule, string> = {
+        'string': "'ABC', x'40', *blanks, *all'-' or *user",
+        'indicator': "1, 0, *on, *off",
+        'numeric': "123, -45.67, *zeros or *hival",
+        'integer': "123, -1, *zeros or *loval",
+        'date': "d'2025-01-01' (*ISO), *sys or *job",
+        'time': "t'13.30.00' (*ISO) or *sys",
+        'timestamp': "z'2025-01-01-13.30.00.000000' or *sys",
+        'pointer': "*null or %addr(name)",
+        'any': ""
+    };
+
+    const definition = findDataType(type);
+    return definition ? placeholders[definition.initRule] : "";
+};
+
+/**
+ * Returns the figurative constants that can initialize a field of the given type
+ * @param type - The field type
+ * @returns Constants with their description, empty for unknown types
+ */
+function getFigurativeConstants(type: string): ReadonlyArray<{ value: string; description: string }> {
+    const definition = findDataType(type);
+    return definition ? FIGURATIVE_CONSTANTS[definition.initRule] : [];
+};
+
+/**
+ * Prompts for the initialization value of a field. Types with figurative constants
+ * first offer them in a picker, next to entering a value.
+ * @param type - The field type
+ * @param length - Field length (for validation)
+ * @param isReference - Whether the field is a likeds, like or likerec reference
+ * @param current - Current initialization value (optional)
+ * @returns The entered value, or undefined if the user cancelled
+ */
+async function promptInitValue(type: string, length: string | undefined, isReference: boolean, current?: string): Promise<string | undefined> {
+    const constants = isReference ? [] : getFigurativeConstants(type);
+
+    if (constants.length > 0) {
+        const enterValue = 'Enter a value';
+        const selected = await vscode.window.showQuickPick([
+            { label: enterValue, description: current ? `Current: ${current}` : `e.g. ${getInitPlaceholder(type)}` },
+            ...constants.map(constant => ({ label: constant.value, description: constant.description }))
+        ], {
+            placeHolder: 'Init value (optional): enter a value or select a figurative constant'
+        });
+        if (!selected) {
+            return undefined;
+        };
+        if (selected.label !== enterValue) {
+            return selected.label;
+        };
     };
 
-    return placeholders[type] || "";
+    return vscode.window.showInputBox({
+        prompt: 'Init value (optional)',
+        placeHolder: isReference ? `e.g. *${type}` : getInitPlaceholder(type),
+        value: current ?? '',
+        validateInput: (input) => {
+            const validation = validateInitValue(type, input, length);
+            return validation.isValid ? undefined : validation.errorMessage;
+        }
+    });
+};
+
+/**
+ * Returns placeholder text for the length of a data type
+ * @param definition - Data type definition
+ * @returns Placeholder string for the length syntax of the type
+ */
+function getLengthPlaceholder(definition: DataTypeDefinition): string {
+    switch (definition.lengthSyntax) {
+        case 'decimals':
+            return 'e.g. 5 or 13:2';
+        case 'varying':
+            return 'e.g. 100 or 100:4';
+        case 'values':
+            return `e.g. ${(definition.lengthValues ?? []).join(', ')}`;
+        case 'dateFormat':
+            return 'e.g. *usa, *eur, *ymd/ or *dmy0 (empty for *iso)';
+        case 'timeFormat':
+            return 'e.g. *usa, *eur or *hms: (empty for *iso)';
+        case 'fraction':
+            return `Fractional seconds, 0 to ${definition.maxLength ?? 12} (empty for 6)`;
+        default:
+            return 'e.g. 10';
+    };
 };
 
 /**
@@ -204,31 +546,101 @@ function validateFieldName(name: string): ValidationResult {
  * @param length - Length string to validate
  * @returns Validation result
  */
-function validateFieldLength(type: FieldType, length: string): ValidationResult {
+function validateFieldLength(type: string, length: string): ValidationResult {
+    const definition = findDataType(type);
+
     if (!length || length.trim() === '') {
-        return { isValid: false, errorMessage: 'Length is required for this field type.' };
+        return definition?.lengthRequired === false
+            ? { isValid: true }
+            : { isValid: false, errorMessage: 'Length is required for this field type.' };
     };
 
     const trimmedLength = length.trim();
 
-    // Simple integer validation
-    if (INTEGER_REGEX.test(trimmedLength)) {
+    if (!definition) {
         return { isValid: true };
     };
 
-    // Format N:N validation for zoned/packed only
-    if ((type === 'packed' || type === 'zoned') && DECIMAL_REGEX.test(trimmedLength)) {
-        const [whole, decimal] = trimmedLength.split(':').map(Number);
-        if (decimal >= whole) {
-            return { 
-                isValid: false, 
-                errorMessage: 'Decimal part must be smaller than total length.' 
+    switch (definition.lengthSyntax) {
+        case 'none':
+            return { isValid: false, errorMessage: `Type "${definition.name}" does not take a length.` };
+
+        case 'dateFormat':
+        case 'timeFormat': {
+            if (parseDateTimeFormat(definition.lengthSyntax, trimmedLength)) {
+                return { isValid: true };
+            };
+            const formats = Object.keys(definition.lengthSyntax === 'dateFormat' ? DATE_FORMATS : TIME_FORMATS).join(', ');
+            return {
+                isValid: false,
+                errorMessage: `Format must be one of: ${formats}, optionally followed by a separator (not allowed for *iso, *usa, *eur and *jis).`
             };
         };
-        return { isValid: true };
+
+        case 'fraction':
+            if (!INTEGER_REGEX.test(trimmedLength) || parseInt(trimmedLength, 10) > (definition.maxLength ?? 12)) {
+                return { isValid: false, errorMessage: `Fractional seconds must be between 0 and ${definition.maxLength ?? 12}.` };
+            };
+            return { isValid: true };
+
+        case 'values':
+            if (!definition.lengthValues?.includes(parseInt(trimmedLength, 10)) || !INTEGER_REGEX.test(trimmedLength)) {
+                return { 
+                    isValid: false, 
+                    errorMessage: `Length must be one of: ${(definition.lengthValues ?? []).join(', ')}.` 
+                };
+            };
+            return { isValid: true };
+
+        case 'decimals':
+            // Format N:N validation for types with decimal positions
+            if (DECIMAL_REGEX.test(trimmedLength)) {
+                const [whole, decimal] = trimmedLength.split(':').map(Number);
+                if (decimal >= whole) {
+                    return { 
+                        isValid: false, 
+                        errorMessage: 'Decimal part must be smaller than total length.' 
+                    };
+                };
+                return validateMaxLength(definition, whole);
+            };
+            break;
+
+        case 'varying':
+            // Format N:2 or N:4 sets the size of the length prefix
+            if (VARYING_REGEX.test(trimmedLength)) {
+                return validateMaxLength(definition, parseInt(trimmedLength, 10));
+            };
+            break;
+
+        default:
+            break;
+    };
+
+    // Simple integer validation
+    if (INTEGER_REGEX.test(trimmedLength) && parseInt(trimmedLength, 10) > 0) {
+        return validateMaxLength(definition, parseInt(trimmedLength, 10));
+    };
+
+    const formats: Record<string, string> = {
+        'decimals': 'Use integer or N:N format.',
+        'varying': 'Use integer, N:2 or N:4 format.'
     };
 
-    return { isValid: false, errorMessage: 'Invalid format. Use integer or N:N format for packed/zoned.' };
+    return { isValid: false, errorMessage: `Invalid format. ${formats[definition.lengthSyntax] ?? 'Use a positive integer.'}` };
+};
+
+/**
+ * Validates that a length does not exceed the maximum of its data type
+ * @param definition - Data type definition
+ * @param length - Length (characters or digits)
+ * @returns Validation result
+ */
+function validateMaxLength(definition: DataTypeDefinition, length: number): ValidationResult {
+    if (definition.maxLength !== undefined && length > definition.maxLength) {
+        return { isValid: false, errorMessage: `Length too large (max ${definition.maxLength}).` };
+    };
+    return { isValid: true };
 };
 
 /**
@@ -262,56 +674,151 @@ function validateDimension(input: string): ValidationResult {
  * @param length - Field length (for validation)
  * @returns Validation result
  */
-function validateInitValue(type: FieldType, init: string, length?: string): ValidationResult {
+function validateInitValue(type: string, init: string, length?: string): ValidationResult {
     if (!init || init.trim() === '') {
         return { isValid: true }; // Empty is allowed
     };
 
     const trimmedInit = init.trim();
+    const definition = findDataType(type);
+    if (!definition) {
+        return { isValid: true };
+    };
 
-    switch (type) {
-        case 'char':
-        case 'varchar':
-            if (!QUOTED_STRING_REGEX.test(trimmedInit)) {
-                return { isValid: false, errorMessage: 'String must be enclosed in single quotes.' };
+    // *blank and *zero are the singular forms of *blanks and *zeros
+    const constant = trimmedInit.toLowerCase().replace(/^\*(blank|zero)$/, '*$1s');
+    const isConstant = FIGURATIVE_CONSTANTS[definition.initRule].some(({ value }) => value === constant);
+    const maxLength = length ? parseInt(length.split(':')[0], 10) : undefined;
+
+    switch (definition.initRule) {
+        case 'string': {
+            if (constant === '*user') {
+                return maxLength !== undefined && maxLength < 10
+                    ? { isValid: false, errorMessage: '*user needs a field of 10 characters or more.' }
+                    : { isValid: true };
             };
-            
-            if (length) {
-                const content = trimmedInit.slice(1, -1); // Remove quotes
-                const maxLength = parseInt(length.split(':')[0], 10);
-                if (content.length > maxLength) {
-                    return { isValid: false, errorMessage: `String too long (max ${maxLength} chars).` };
-                };
+            if (isConstant) {
+                return { isValid: true };
+            };
+
+            const allMatch = trimmedInit.match(ALL_LITERAL_REGEX);
+            if (allMatch) {
+                return allMatch[1] && !/^(?:[0-9a-f]{2})+$/i.test(allMatch[2])
+                    ? { isValid: false, errorMessage: "*allx must repeat pairs of hexadecimal digits (e.g. *allx'40')." }
+                    : { isValid: true };
+            };
+
+            if (!HEX_LITERAL_REGEX.test(trimmedInit) && !QUOTED_STRING_REGEX.test(trimmedInit)) {
+                return { isValid: false, errorMessage: "String must be enclosed in single quotes, a hexadecimal literal (x'40') or a figurative constant (*blanks, *all'-'...)." };
+            };
+
+            const contentLength = getLiteralLength(trimmedInit);
+            if (maxLength !== undefined && contentLength !== undefined && contentLength > maxLength) {
+                return { isValid: false, errorMessage: `String too long (max ${maxLength} chars).` };
             };
             return { isValid: true };
+        };
 
-        case 'ind':
-            const validIndValues = ['1', '0', '*on', '*off'];
-            if (!validIndValues.includes(trimmedInit.toLowerCase())) {
+        case 'indicator': {
+            const validIndValues = ['1', '0', "'1'", "'0'", '*on', '*off'];
+            if (!validIndValues.includes(constant)) {
                 return { isValid: false, errorMessage: "Must be '1', '0', '*on', or '*off'." };
             };
             return { isValid: true };
+        };
 
-        case 'zoned':
-        case 'packed':
+        case 'numeric':
+            if (isConstant || /^\*all'\d'$/i.test(trimmedInit)) {
+                return { isValid: true };
+            };
             if (!NUMERIC_VALUE_REGEX.test(trimmedInit)) {
-                return { isValid: false, errorMessage: 'Must be a numeric value (e.g., 42 or 13.5).' };
+                return { isValid: false, errorMessage: 'Must be a numeric value (e.g., 42, -13.5 or *zeros).' };
             };
             return { isValid: true };
 
-        case 'uns':
-        case 'int':
-        case 'bin':
-            if (!INTEGER_REGEX.test(trimmedInit)) {
-                return { isValid: false, errorMessage: 'Must be a whole number (e.g., 10).' };
+        case 'integer':
+            if (isConstant) {
+                return { isValid: true };
+            };
+            if (!SIGNED_INTEGER_REGEX.test(trimmedInit)) {
+                return { isValid: false, errorMessage: 'Must be a whole number (e.g., 10, -1 or *zeros).' };
+            };
+            if (trimmedInit.startsWith('-') && definition.keyword === 'uns') {
+                return { isValid: false, errorMessage: 'Unsigned fields cannot be negative.' };
             };
             return { isValid: true };
 
+        case 'date':
+            return isConstant || DATE_LITERAL_REGEX.test(trimmedInit)
+                ? { isValid: true }
+                : { isValid: false, errorMessage: "Must be a date literal (e.g., d'2025-01-01'), *sys, *job, *hival or *loval." };
+
+        case 'time':
+            return isConstant || TIME_LITERAL_REGEX.test(trimmedInit)
+                ? { isValid: true }
+                : { isValid: false, errorMessage: "Must be a time literal (e.g., t'13.30.00'), *sys, *hival or *loval." };
+
+        case 'timestamp':
+            return isConstant || TIMESTAMP_LITERAL_REGEX.test(trimmedInit)
+                ? { isValid: true }
+                : { isValid: false, errorMessage: "Must be a timestamp literal (e.g., z'2025-01-01-13.30.00.000000'), *sys, *hival or *loval." };
+
+        case 'pointer':
+            return isConstant || ADDRESS_REGEX.test(trimmedInit)
+                ? { isValid: true }
+                : { isValid: false, errorMessage: 'Must be *null or %addr(name).' };
+
         default:
             return { isValid: true };
     };
 };
 
+/**
+ * Validates the position of a field: a starting position for pos(),
+ * or the overlaid subfield for overlay() (name, name:position or name:*next)
+ * @param input - Position input string
+ * @returns Validation result
+ */
+function validatePlacement(input: string): ValidationResult {
+    const trimmed = input.trim();
+
+    if (trimmed === '') {
+        return { isValid: true }; // Empty is allowed
+    };
+
+    if (INTEGER_REGEX.test(trimmed)) {
+        return parseInt(trimmed, 10) > 0
+            ? { isValid: true }
+            : { isValid: false, errorMessage: 'Position must be greater than 0.' };
+    };
+
+    const match = trimmed.match(OVERLAY_REGEX);
+    if (!match) {
+        return { isValid: false, errorMessage: 'Enter a position (e.g. 11) or the subfield to overlay (e.g. date, date:5 or date:*next).' };
+    };
+
+    if (match[2] && INTEGER_REGEX.test(match[2]) && parseInt(match[2], 10) <= 0) {
+        return { isValid: false, errorMessage: 'Overlay position must be greater than 0.' };
+    };
+
+    return { isValid: true };
+};
+
+/**
+ * Converts a validated position input into the pos and overlay properties of a field
+ * @param input - Position input string
+ * @returns The pos and overlay properties, both undefined if the input is empty
+ */
+function parsePlacement(input: string): Pick<Field, 'pos' | 'overlay'> {
+    const trimmed = input.trim();
+
+    if (INTEGER_REGEX.test(trimmed)) {
+        return { pos: parseInt(trimmed, 10), overlay: undefined };
+    };
+
+    return { pos: undefined, overlay: trimmed || undefined };
+};
+
 /**
  * Checks if a field name already exists in the fields array
  * @param name - Field name to check
@@ -341,6 +848,12 @@ export async function insertField(
     provider: FieldsTreeDataProvider
 ): Promise<void> {
     try {
+        // likerec structures only have the fields of their record format
+        if (header.type === 'likerec') {
+            vscode.window.showWarningMessage('A structure defined with likerec has the fields of its record format and cannot have other subfields.');
+            return;
+        };
+
         // Get field name
         const name = await vscode.window.showInputBox({
             prompt: 'Field name',
@@ -352,22 +865,36 @@ export async function insertField(
 
         if (!name) return; 
 
-        // Get field type
-        const typeSelected = await vscode.window.showQuickPick(FIELD_TYPES, {
+        // Get field type, or the keyword of a field defined like another definition;
+        // subfields of extname structures can also rename a field of the file
+        const externalTypes = header.type === 'extname' && !isSubstructure ? [EXTFLD_TYPE] : [];
+        const type = await vscode.window.showQuickPick([...externalTypes, ...getSelectableDataTypes(), ...REFERENCE_KEYWORDS], {
             placeHolder: 'Choose field type'
         });
-        if (!typeSelected) return; // User cancelled
+        if (!type) return; // User cancelled
 
-        const type = typeSelected as FieldType;
+        if (type === EXTFLD_TYPE) {
+            await insertExternalField(name, position, provider);
+            return;
+        };
 
-        // Get field length (if required)
+        // Get the referenced definition of likeds, like and likerec fields
+        let reference: string | undefined;
+        if (isReferenceKeyword(type)) {
+            reference = await promptReference(type);
+            if (!reference) {
+                return; // User cancelled
+            };
+        };
+
+        // Get field length (if the type takes one)
         let length: string | undefined;
-        const lengthRequiredTypes: FieldType[] = ['char', 'varchar', 'int', 'packed', 'zoned', 'uns', 'bin'];
+        const definition = reference === undefined ? findDataType(type) : undefined;
         
-        if (lengthRequiredTypes.includes(type)) {
+        if (definition && definition.lengthSyntax !== 'none') {
             const lengthInput = await vscode.window.showInputBox({
-                prompt: 'Field length',
-                placeHolder: type === 'packed' || type === 'zoned' ? 'e.g. 5 or 13:2' : 'e.g. 10',
+                prompt: definition.lengthRequired ? 'Field length' : 'Field length (optional)',
+                placeHolder: getLengthPlaceholder(definition),
                 validateInput: (input) => {
                     const validation = validateFieldLength(type, input);
                     return validation.isValid ? undefined : validation.errorMessage;
@@ -375,23 +902,33 @@ export async function insertField(
             });
 
             if (lengthInput !== undefined) {
-                length = lengthInput.trim();
+                length = lengthInput.trim() || undefined;
             }
         }
 
         // Get initialization value (optional) - NO DIMENSION PROMPT HERE
-        const init = await vscode.window.showInputBox({
-            prompt: 'Init value (optional)',
-            placeHolder: getInitPlaceholder(type),
+        const init = await promptInitValue(type, length, reference !== undefined);
+
+        // Get position or overlaid subfield (optional)
+        const placement = await vscode.window.showInputBox({
+            prompt: 'Position or overlaid subfield (optional)',
+            placeHolder: PLACEMENT_PLACEHOLDER,
             validateInput: (input) => {
-                const validation = validateInitValue(type, input, length);
+                const validation = validatePlacement(input);
                 return validation.isValid ? undefined : validation.errorMessage;
             }
         });
 
+        // Get comment (optional)
+        const comment = await vscode.window.showInputBox({
+            prompt: 'Comment (optional)',
+            placeHolder: 'e.g. Customer number'
+        });
+
         // Create and add the field WITHOUT dimension
         const newId = getNextIdNumber(fields);
-        const newField = new FieldItem(newId, name, type, length, init?.trim(), undefined, false, []); // dim = undefined
+        const newField = new FieldItem(newId, name, type, length, init?.trim(), undefined, false, [], comment?.trim() || undefined); // dim = undefined
+        Object.assign(newField, parsePlacement(placement ?? ''), { reference });
 
         if (!isSubstructure) {
             provider.addFieldBefore(newField, position);
@@ -417,6 +954,69 @@ export async function insertField(
     };
 };
 
+/**
+ * Adds a subfield renaming a field of the file of an extname structure,
+ * or giving it an initial value
+ * @param name - Name of the subfield
+ * @param position - Position of the new subfield
+ * @param provider - Fields tree data provider
+ */
+async function insertExternalField(name: string, position: number, provider: FieldsTreeDataProvider): Promise<void> {
+    const extfld = await promptExternalField(name);
+    if (!extfld) {
+        return; // User cancelled
+    };
+
+    const init = await vscode.window.showInputBox({
+        prompt: 'Init value (optional)',
+        placeHolder: "e.g. 'ABC' or *extdft"
+    });
+
+    const comment = await vscode.window.showInputBox({
+        prompt: 'Comment (optional)',
+        placeHolder: 'e.g. Customer name'
+    });
+
+    const newField = new FieldItem(getNextIdNumber(fields), name, EXTFLD_TYPE, undefined, init?.trim() || undefined, undefined, false, [], comment?.trim() || undefined);
+    newField.extfld = extfld;
+
+    provider.addFieldBefore(newField, position);
+    updateFieldsContext();
+};
+
+/**
+ * Prompts for the field of the file of the extname structure that a subfield renames.
+ * The fields of the file are listed when its source is found in the workspace.
+ * @param current - Current external field, or the name of the subfield
+ * @returns The external field name in uppercase, or undefined if the user cancelled
+ */
+async function promptExternalField(current: string): Promise<string | undefined> {
+    const target = findExternalTarget(header);
+
+    if (target?.fields?.length) {
+        const picked = await vscode.window.showQuickPick(
+            target.fields.map(field => ({
+                label: field.name.toUpperCase(),
+                description: field.length ? `${field.type}(${field.length})` : field.type,
+                picked: field.name.toUpperCase() === current.toUpperCase()
+            })),
+            { placeHolder: `Field of ${target.name} (${target.source})` }
+        );
+        return picked?.label;
+    };
+
+    const input = await vscode.window.showInputBox({
+        prompt: 'External field',
+        placeHolder: 'e.g. CUSTNAME',
+        value: current.toUpperCase(),
+        validateInput: (value: string) => {
+            const validation = validateFieldName(value);
+            return validation.isValid ? undefined : validation.errorMessage;
+        }
+    });
+    return input?.trim().toUpperCase() || undefined;
+};
+
 /**
  * Creates a new substructure and adds it to the fields
  * @param provider - Fields tree data provider
@@ -464,9 +1064,15 @@ export async function insertSubstructure(provider: FieldsTreeDataProvider): Prom
             length = lengthInput.trim();
         };
 
+        // Get comment (optional)
+        const comment = await vscode.window.showInputBox({
+            prompt: 'Comment (optional)',
+            placeHolder: 'e.g. Delivery address'
+        });
+
         // Create and add the substructure
         const newId = getNextIdNumber(fields);
-        const newField = new FieldItem(newId, name, '', length, undefined, undefined, true, []);
+        const newField = new FieldItem(newId, name, '', length, undefined, undefined, true, [], comment?.trim() || undefined);
         provider.addField(newField);
 
         updateFieldsContext();
@@ -482,8 +1088,8 @@ export async function insertSubstructure(provider: FieldsTreeDataProvider): Prom
  * @param idNumber - ID number of the parent substructure
  * @param provider - Fields tree data provider
  */
-export function insertFieldSubstructure(idNumber: number, provider: FieldsTreeDataProvider): void {
-    insertField(true, idNumber, provider);
+export function insertFieldSubstructure(idNumber: number, provider: FieldsTreeDataProvider): Promise<void> {
+    return insertField(true, idNumber, provider);
 };
 
 /**
@@ -491,22 +1097,21 @@ export function insertFieldSubstructure(idNumber: number, provider: FieldsTreeDa
  * @param item - Field item to delete
  * @param provider - Fields tree data provider
  */
-export function deleteField(item: Field, provider: FieldsTreeDataProvider): void {
+export async function deleteField(item: Field, provider: FieldsTreeDataProvider): Promise<void> {
     if (item.isStructure && item.fields.length > 0) {
         // Confirm deletion of structure with subfields
-        vscode.window.showWarningMessage(
+        const selection = await vscode.window.showWarningMessage(
             `The structure "${item.name}" has ${item.fields.length} subfields. Are you sure you want to delete it?`,
             { modal: true },
             'Delete'
-        ).then(selection => {
-            if (selection === 'Delete') {
-                performDeletion();
-            };
-        });
-    } else {
-        performDeletion();
+        );
+        if (selection !== 'Delete') {
+            return;
+        };
     };
 
+    performDeletion();
+
     /**
      * Performs the actual deletion operation
      */
@@ -734,3 +1339,354 @@ export async function addDimensionToField(fieldId: number, provider: FieldsTreeD
         vscode.window.showErrorMessage(`Failed to modify dimension: ${error instanceof Error ? error.message : String(error)}`);
     };
 };
+
+/**
+ * Finds the list (root fields or subfields of a substructure) that contains a field
+ * @param fieldList - List of fields to search in
+ * @param id - ID number of the field
+ * @returns The list that contains the field, or null if not found
+ */
+function findContainingList(fieldList: Field[], id: number): Field[] | null {
+    for (const field of fieldList) {
+        if (field.idNumber === id) {
+            return fieldList;
+        };
+        
+        if (field.isStructure && field.fields.length > 0) {
+            const found = findContainingList(field.fields, id);
+            if (found) {
+                return found;
+            };
+        };
+    };
+    
+    return null;
+};
+
+/**
+ * Edits an existing field or substructure, prompting for every property
+ * pre-filled with its current value. Cancelling any prompt leaves the field unchanged.
+ * @param fieldId - ID of the field to edit
+ * @param provider - Fields tree data provider
+ */
+export async function editField(fieldId: number, provider: FieldsTreeDataProvider): Promise<void> {
+    const field = findFieldById(fields, fieldId);
+    if (!field) {
+        vscode.window.showErrorMessage('Field not found.');
+        return;
+    };
+
+    try {
+        // Names must stay unique among the fields at the same level
+        const siblings = (findContainingList(fields, fieldId) ?? fields).filter(sibling => sibling.idNumber !== fieldId);
+        const kind = field.isStructure ? 'Substructure' : 'Field';
+
+        const name = await vscode.window.showInputBox({
+            prompt: `${kind} name`,
+            value: field.name,
+            validateInput: (value: string) => {
+                const validation = validateFieldName(value);
+                if (!validation.isValid) {
+                    return validation.errorMessage;
+                };
+                
+                if (fieldNameExists(value, siblings)) {
+                    return `A field named "${value}" already exists.`;
+                };
+                
+                return undefined;
+            }
+        });
+        if (name === undefined) {
+            return; // User cancelled
+        };
+
+        const updated = field.isStructure
+            ? await promptSubstructureProperties(field)
+            : field.extfld !== undefined
+                ? await promptExternalFieldProperties(field)
+                : await promptFieldProperties(field);
+        if (!updated) {
+            return; // User cancelled
+        };
+
+        const comment = await vscode.window.showInputBox({
+            prompt: 'Comment (optional)',
+            value: field.comment ?? ''
+        });
+        if (comment === undefined) {
+            return; // User cancelled
+        };
+
+        Object.assign(field, updated, {
+            name: name.trim(),
+            comment: comment.trim() || undefined
+        });
+
+        provider.refresh();
+        vscode.window.showInformationMessage(`${kind} "${field.name}" updated successfully.`);
+
+    } catch (error) {
+        console.error('Error editing field:', error);
+        vscode.window.showErrorMessage(`Failed to edit field: ${error instanceof Error ? error.message : String(error)}`);
+    };
+};
+
+/**
+ * Prompts for the external field and initialization value of a subfield of an extname structure
+ * @param field - Field being edited
+ * @returns The new properties, or undefined if the user cancelled
+ */
+async function promptExternalFieldProperties(field: Field): Promise<Partial<Field> | undefined> {
+    const extfld = await promptExternalField(field.extfld ?? field.name);
+    if (!extfld) {
+        return undefined;
+    };
+
+    const init = await vscode.window.showInputBox({
+        prompt: 'Init value (optional)',
+        placeHolder: "e.g. 'ABC' or *extdft",
+        value: field.init ?? ''
+    });
+    if (init === undefined) {
+        return undefined;
+    };
+
+    return { extfld, init: init.trim() || undefined };
+};
+
+/**
+ * Prompts for the type, length, initialization value and dimension of a field,
+ * validating the length and initialization value against the selected type
+ * @param field - Field being edited
+ * @returns The new properties, or undefined if the user cancelled
+ */
+async function promptFieldProperties(field: Field): Promise<Partial<Field> | undefined> {
+    // Keep the current type first, even if it is hidden or not in the registry
+    const types = [field.type, ...[...getSelectableDataTypes(), ...REFERENCE_KEYWORDS].filter(type => type !== field.type)];
+    const selected = await vscode.window.showQuickPick(
+        types.map(type => ({ label: type, description: type === field.type ? 'current' : undefined })),
+        { placeHolder: 'Choose field type' }
+    );
+    if (!selected) {
+        return undefined;
+    };
+
+    const type = selected.label;
+    const isReference = isReferenceKeyword(type);
+    const definition = isReference ? undefined : findDataType(type);
+
+    let reference: string | undefined;
+    if (isReference) {
+        reference = await promptReference(type, field.reference);
+        if (reference === undefined) {
+            return undefined;
+        };
+    };
+
+    let length: string | undefined;
+    if (!isReference && (!definition || definition.lengthSyntax !== 'none')) {
+        const lengthInput = await vscode.window.showInputBox({
+            prompt: definition?.lengthRequired === false ? 'Field length (optional)' : 'Field length',
+            placeHolder: definition ? getLengthPlaceholder(definition) : undefined,
+            value: field.length ?? '',
+            validateInput: (input) => {
+                const validation = validateFieldLength(type, input);
+                return validation.isValid ? undefined : validation.errorMessage;
+            }
+        });
+        if (lengthInput === undefined) {
+            return undefined;
+        };
+        length = lengthInput.trim() || undefined;
+    };
+
+    const init = await promptInitValue(type, length, isReference, field.init);
+    if (init === undefined) {
+        return undefined;
+    };
+
+    const dimInput = await vscode.window.showInputBox({
+        prompt: 'Dimension (optional)',
+        placeHolder: 'e.g. 100',
+        value: field.dim ? field.dim.toString() : '',
+        validateInput: (input) => {
+            const validation = validateDimension(input);
+            return validation.isValid ? undefined : validation.errorMessage;
+        }
+    });
+    if (dimInput === undefined) {
+        return undefined;
+    };
+
+    const placement = await vscode.window.showInputBox({
+        prompt: 'Position or overlaid subfield (optional)',
+        placeHolder: PLACEMENT_PLACEHOLDER,
+        value: field.overlay ?? (field.pos ? field.pos.toString() : ''),
+        validateInput: (input) => {
+            const validation = validatePlacement(input);
+            return validation.isValid ? undefined : validation.errorMessage;
+        }
+    });
+    if (placement === undefined) {
+        return undefined;
+    };
+
+    return {
+        type,
+        length,
+        init: init.trim() || undefined,
+        dim: dimInput.trim() ? parseInt(dimInput.trim(), 10) : undefined,
+        ...parsePlacement(placement),
+        reference
+    };
+};
+
+/**
+ * Checks whether a type is the keyword of a field defined like another definition
+ * @param type - Type chosen for the field
+ * @returns True for likeds, like and likerec
+ */
+function isReferenceKeyword(type: string): boolean {
+    return (REFERENCE_KEYWORDS as readonly string[]).includes(type);
+};
+
+/**
+ * Prompts for the structure, field or record format a likeds, like or likerec field refers to
+ * @param keyword - likeds, like or likerec
+ * @param current - Current referenced definition (optional)
+ * @returns The referenced definition, or undefined if the user cancelled
+ */
+async function promptReference(keyword: string, current?: string): Promise<string | undefined> {
+    const placeHolders: Record<string, string> = {
+        likeds: 'e.g. customer_t',
+        like: 'e.g. custNo',
+        likerec: 'e.g. CUSTREC or CUSTREC:*ALL'
+    };
+
+    const reference = await vscode.window.showInputBox({
+        prompt: keyword === 'likerec' ? 'Record format' : keyword === 'likeds' ? 'Data structure' : 'Field or data structure',
+        placeHolder: placeHolders[keyword],
+        value: current ?? '',
+        validateInput: (input) => {
+            if (!input.trim()) {
+                return 'A name is required.';
+            };
+            return REFERENCE_REGEX.test(input.trim()) ? undefined : 'Invalid name.';
+        }
+    });
+
+    return reference?.trim();
+};
+
+/**
+ * Prompts for the dimension of a substructure
+ * @param field - Substructure being edited
+ * @returns The new properties, or undefined if the user cancelled
+ */
+async function promptSubstructureProperties(field: Field): Promise<Partial<Field> | undefined> {
+    // Substructures keep their dimension in the length property
+    const dimInput = await vscode.window.showInputBox({
+        prompt: 'Substructure dimension (optional)',
+        placeHolder: 'e.g. 100',
+        value: field.length ?? '',
+        validateInput: (input) => {
+            const validation = validateDimension(input);
+            return validation.isValid ? undefined : validation.errorMessage;
+        }
+    });
+    if (dimInput === undefined) {
+        return undefined;
+    };
+
+    return { length: dimInput.trim() || undefined };
+};
+
+/**
+ * Moves fields to a new position in the fields hierarchy (drag and drop in the fields view).
+ * Dropping on a substructure appends the fields to its subfields, dropping on a field
+ * inserts them before that field, and dropping on the empty area appends them to the root level.
+ * @param fieldIds - ID numbers of the fields to move
+ * @param targetId - ID of the field dropped on, or undefined for the root level
+ * @param provider - Fields tree data provider
+ */
+export function moveFields(fieldIds: number[], targetId: number | undefined, provider: FieldsTreeDataProvider): void {
+    const target = targetId === undefined ? null : findFieldById(fields, targetId);
+    const moving = collectMovedFields(fields, new Set(fieldIds));
+    if (moving.length === 0 || (target && moving.includes(target))) {
+        return; // Nothing to move, or dropped on itself
+    };
+
+    if (target && moving.some(field => field.isStructure && findFieldById(field.fields, target.idNumber))) {
+        vscode.window.showErrorMessage('A substructure cannot be moved into itself.');
+        return;
+    };
+
+    const destination = !target
+        ? fields
+        : target.isStructure ? target.fields : findListOf(fields, target) ?? fields;
+
+    // Names must be unique among the fields at the destination level
+    const remaining = destination.filter(field => !moving.includes(field));
+    for (const field of moving) {
+        if (fieldNameExists(field.name, remaining)) {
+            vscode.window.showErrorMessage(`A field named "${field.name}" already exists at the destination.`);
+            return;
+        };
+        remaining.push(field);
+    };
+
+    for (const field of moving) {
+        const source = findListOf(fields, field);
+        source?.splice(source.indexOf(field), 1);
+    };
+
+    const index = target && !target.isStructure ? destination.indexOf(target) : destination.length;
+    destination.splice(index, 0, ...moving);
+
+    reassignIdNumbers(fields);
+    provider.refresh();
+};
+
+/**
+ * Finds the list (root fields or subfields of a substructure) that holds a field object,
+ * so a move never takes another field that has the same ID number
+ * @param fieldList - List of fields to search in
+ * @param field - Field to look for
+ * @returns The list that holds the field, or null if not found
+ */
+function findListOf(fieldList: Field[], field: Field): Field[] | null {
+    if (fieldList.includes(field)) {
+        return fieldList;
+    };
+
+    for (const candidate of fieldList) {
+        const found = candidate.isStructure ? findListOf(candidate.fields, field) : null;
+        if (found) {
+            return found;
+        };
+    };
+
+    return null;
+};
+
+/**
+ * Collects the selected fields in tree order. Subfields of a selected
+ * substructure are skipped, as they move together with the substructure.
+ * @param fieldList - List of fields to search in
+ * @param ids - ID numbers of the selected fields
+ * @returns The fields to move
+ */
+function collectMovedFields(fieldList: Field[], ids: Set<number>): Field[] {
+    const result: Field[] = [];
+
+    for (const field of fieldList) {
+        if (ids.has(field.idNumber)) {
+            result.push(field);
+        } else if (field.isStructure && field.fields.length > 0) {
+            result.push(...collectMovedFields(field.fields, ids));
+        };
+    };
+
+    return result;
+};
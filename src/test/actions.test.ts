@@ -0,0 +1,103 @@
+/*
+	Christian Larsen, 2025
+	"RPG structure"
+	actions.test.ts
+*/
+
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { RpgStructureCodeActionProvider } from '../rpg-structure.actions';
+import { currentConfiguration, reloadConfiguration } from '../rpg-structure.configuration';
+
+// HELPERS
+
+/**
+ * Creates a document with the parts of the TextDocument API the code actions use
+ * @param content - Text of the document
+ * @returns The document
+ */
+function createDocument(content: string): vscode.TextDocument {
+    const lines = content.split('\n');
+
+    return {
+        uri: vscode.Uri.parse('untitled:test.rpgle'),
+        getText: (range?: vscode.Range) => range
+            ? lines.slice(range.start.line, range.end.line + 1).join('\n')
+            : content,
+        lineAt: (line: number) => ({
+            text: lines[line],
+            range: new vscode.Range(line, 0, line, lines[line].length)
+        })
+    } as unknown as vscode.TextDocument;
+};
+
+/**
+ * Returns the titles of the code actions offered on a line
+ * @param content - Text of the document
+ * @param line - Line the actions are asked for
+ * @returns Titles of the actions
+ */
+function actionTitles(content: string, line: number): string[] {
+    const document = createDocument(content);
+    const range = new vscode.Range(line, 0, line, 0);
+    return new RpgStructureCodeActionProvider().provideCodeActions(document, range).map(action => action.title);
+};
+
+// TESTS
+
+suite('Code actions', () => {
+    suiteSetup(() => {
+        reloadConfiguration();
+        currentConfiguration.structureFormat = 'dcl-ds';
+        currentConfiguration.indentation = 2;
+    });
+
+    suiteTeardown(() => {
+        reloadConfiguration();
+    });
+
+    test('a structure is re-indented when every keyword is kept', () => {
+        const source = [
+            'dcl-ds cust qualified;',
+            '    name char(30);',
+            'end-ds;'
+        ].join('\n');
+
+        assert.deepStrictEqual(actionTitles(source, 0), [
+            'Open in RPG Structure',
+            'Re-indent structure using configured indentation'
+        ]);
+    });
+
+    test('a structure with keywords the parser does not keep gets no rewrite action', () => {
+        const source = [
+            'dcl-ds cust qualified occurs(10);',
+            '    name char(30) ccsid(*utf8);',
+            '    note varchar(200) nullind;',
+            '    amount packed(9:2) ascend;',
+            'end-ds;'
+        ].join('\n');
+
+        assert.deepStrictEqual(actionTitles(source, 0), ['Open in RPG Structure']);
+    });
+
+    test('a fixed-form structure with keywords the parser does not keep is not converted', () => {
+        const source = [
+            '     D cust            DS                  OCCURS(10)',
+            '     D  name                         30A   CCSID(1208)'
+        ].join('\n');
+
+        assert.deepStrictEqual(actionTitles(source, 0), ['Open in RPG Structure']);
+    });
+
+    test('a dcl-ds with keywords the parser does not keep gets no end-ds fix', () => {
+        const source = [
+            'dcl-ds cust qualified;',
+            '  name char(30) ccsid(*utf8);',
+            '',
+            'dcl-s count int(10);'
+        ].join('\n');
+
+        assert.deepStrictEqual(actionTitles(source, 0), []);
+    });
+});
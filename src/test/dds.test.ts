@@ -0,0 +1,94 @@
+/*
+	Christian Larsen, 2025
+	"RPG structure"
+	dds.test.ts
+*/
+
+import * as assert from 'assert';
+import { parseDdsSource, findDdsReferences } from '../rpg-structure.dds';
+
+// HELPERS
+
+/**
+ * Builds a DDS A-spec with every entry in its columns
+ * @param nameType - Name type, column 17 (R, K or blank)
+ * @param name - Name, columns 19-28
+ * @param length - Length, columns 30-34
+ * @param dataType - Data type, column 35
+ * @param decimals - Decimal positions, columns 36-37
+ * @param keywords - Keywords, columns 45-80
+ * @param reference - Reference flag, column 29
+ * @returns The source line
+ */
+function ddsLine(nameType: string, name: string, length = '', dataType = '', decimals = '', keywords = '', reference = false): string {
+    return '     A'.padEnd(16)
+        + nameType.padEnd(2)
+        + name.padEnd(10)
+        + (reference ? 'R' : ' ')
+        + length.padStart(5)
+        + dataType.padEnd(1)
+        + decimals.padStart(2)
+        + ''.padEnd(7)
+        + keywords;
+};
+
+// CONSTANTS
+
+const REFERENCE_FILE = [
+    ddsLine('R', 'REFREC'),
+    ddsLine('', 'CUSTNO', '7', 'S', '0', "TEXT('Customer number')")
+].join('\n');
+
+const PHYSICAL_FILE = [
+    ddsLine('', '', '', '', '', 'REF(REFFILE)'),
+    ddsLine('R', 'CUSTREC', '', '', '', "TEXT('Customers')"),
+    ddsLine('', 'CUSTNO', '', '', '', '', true),
+    ddsLine('', 'NAME', '40', 'A', '', 'VARLEN'),
+    ddsLine('', 'BALANCE', '9', 'P', '2'),
+    ddsLine('', 'COUNT', '4', 'B', '0'),
+    ddsLine('', 'TOTAL', '12', 'B', '0'),
+    ddsLine('', 'CREATED', '', 'L'),
+    ddsLine('', 'CHANGED', '', 'Z'),
+    '     A*  Comment lines are skipped',
+    ddsLine('K', 'CUSTNO')
+].join('\n');
+
+// TESTS
+
+suite('DDS import', () => {
+    test('referenced files are listed', () => {
+        assert.deepStrictEqual(findDdsReferences(PHYSICAL_FILE), ['REFFILE']);
+    });
+
+    test('fields are converted to RPG types, with references resolved from the other sources', () => {
+        const result = parseDdsSource(PHYSICAL_FILE, new Map([['REFFILE', REFERENCE_FILE]]));
+
+        assert.deepStrictEqual(result.errors, []);
+        assert.strictEqual(result.formats.length, 1);
+
+        const [format] = result.formats;
+        assert.strictEqual(format.name, 'CUSTREC');
+        assert.strictEqual(format.text, 'Customers');
+        assert.deepStrictEqual(format.keys, ['CUSTNO']);
+        assert.deepStrictEqual(
+            format.fields.map(field => [field.name, field.type, field.length]),
+            [
+                ['CUSTNO', 'zoned', '7'],
+                ['NAME', 'varchar', '40'],
+                ['BALANCE', 'packed', '9:2'],
+                ['COUNT', 'bin', '4'],
+                ['TOTAL', 'int', '20'],
+                ['CREATED', 'date', undefined],
+                ['CHANGED', 'timestamp', undefined]
+            ]
+        );
+    });
+
+    test('a reference that is not in the sources is reported and skipped', () => {
+        const result = parseDdsSource(PHYSICAL_FILE);
+
+        assert.strictEqual(result.errors.length, 1);
+        assert.ok(result.errors[0].includes('CUSTNO'));
+        assert.strictEqual(result.formats[0].fields.length, 6);
+    });
+});
@@ -0,0 +1,122 @@
+/*
+	Christian Larsen, 2025
+	"RPG structure"
+	layout.test.ts
+*/
+
+import * as assert from 'assert';
+import { Field } from '../rpg-structure.model';
+import { calculateLayout, formatPositions } from '../rpg-structure.layout';
+
+// HELPERS
+
+/**
+ * Creates a subfield for the layout tests
+ * @param idNumber - Unique id of the field
+ * @param name - Name of the field
+ * @param type - RPG data type
+ * @param length - Length specification
+ * @param options - Other properties of the field
+ * @returns The field
+ */
+function field(idNumber: number, name: string, type: string, length?: string, options: Partial<Field> = {}): Field {
+    return { idNumber, name, type, length, isStructure: false, fields: [], ...options };
+};
+
+/**
+ * Lays out the fields and returns the positions of every field
+ * @param fieldList - Fields of the structure
+ * @returns Positions such as "1-10", in field order, and the length of the structure
+ */
+function positions(fieldList: Field[]): { positions: string[]; length?: number } {
+    const layout = calculateLayout(fieldList);
+    const all: Field[] = [];
+    const collect = (list: Field[]) => list.forEach(item => {
+        all.push(item);
+        collect(item.fields);
+    });
+    collect(fieldList);
+
+    return { positions: all.map(item => formatPositions(layout.fields.get(item.idNumber))), length: layout.length };
+};
+
+// TESTS
+
+suite('Byte layout', () => {
+    test('packed fields use half of the digits plus one byte', () => {
+        const result = positions([
+            field(1, 'amount', 'packed', '7:2'),
+            field(2, 'count', 'packed', '8:0'),
+            field(3, 'code', 'char', '3')
+        ]);
+
+        assert.deepStrictEqual(result.positions, ['1-4', '5-9', '10-12']);
+        assert.strictEqual(result.length, 12);
+    });
+
+    test('varying fields have a 2-byte prefix, or 4 bytes when asked for or longer than 65535 characters', () => {
+        const result = positions([
+            field(1, 'short', 'varchar', '10'),
+            field(2, 'wide', 'varchar', '10:4'),
+            field(3, 'long', 'varchar', '65536'),
+            field(4, 'graphic', 'vargraph', '40000')
+        ]);
+
+        assert.deepStrictEqual(result.positions, ['1-12', '13-26', '27-65566', '65567-145568']);
+    });
+
+    test('pointers are aligned on 16 bytes', () => {
+        const result = positions([
+            field(1, 'flag', 'char', '1'),
+            field(2, 'ptr', 'pointer'),
+            field(3, 'next', 'char', '2')
+        ]);
+
+        assert.deepStrictEqual(result.positions, ['1-1', '17-32', '33-34']);
+        assert.strictEqual(result.length, 34);
+    });
+
+    test('substructures with pointers are aligned and padded in every element', () => {
+        const result = positions([
+            field(1, 'flag', 'char', '1'),
+            field(2, 'entry', '', '2', {
+                isStructure: true,
+                fields: [field(3, 'ptr', 'pointer'), field(4, 'size', 'int', '10')]
+            })
+        ]);
+
+        assert.deepStrictEqual(result.positions, ['1-1', '17-80', '17-32', '33-36']);
+        assert.strictEqual(result.length, 80);
+    });
+
+    test('overlays start in the overlaid subfield and do not move the next fields', () => {
+        const result = positions([
+            field(1, 'date', 'char', '8'),
+            field(2, 'year', 'char', '4', { overlay: 'date' }),
+            field(3, 'month', 'char', '2', { overlay: 'date:*next' }),
+            field(4, 'day', 'char', '2', { overlay: 'date:7' }),
+            field(5, 'after', 'char', '1')
+        ]);
+
+        assert.deepStrictEqual(result.positions, ['1-8', '1-4', '5-6', '7-8', '9-9']);
+        assert.strictEqual(result.length, 9);
+    });
+
+    test('an overlay longer than the overlaid subfield is reported', () => {
+        const layout = calculateLayout([
+            field(1, 'code', 'char', '4'),
+            field(2, 'text', 'char', '6', { overlay: 'code' })
+        ]);
+
+        assert.ok(layout.fields.get(2)?.warning);
+    });
+
+    test('pos() places a field without alignment', () => {
+        const result = positions([
+            field(1, 'code', 'char', '4'),
+            field(2, 'ptr', 'pointer', undefined, { pos: 5 })
+        ]);
+
+        assert.deepStrictEqual(result.positions, ['1-4', '5-20']);
+    });
+});
@@ -0,0 +1,210 @@
+/*
+	Christian Larsen, 2025
+	"RPG structure"
+	parser.test.ts
+*/
+
+import * as assert from 'assert';
+import { StructureFormat, StructureType } from '../rpg-structure.model';
+import { RpgStructureParser, ParsedStructure } from '../rpg-structure.parser';
+import { currentConfiguration, reloadConfiguration } from '../rpg-structure.configuration';
+import { generateRpgCode } from '../rpg-structure.code';
+
+// HELPERS
+
+/**
+ * Parses the structure on the first line of a source
+ * @param source - Source text
+ * @returns Parsed structure
+ */
+function parse(source: string): ParsedStructure {
+    return RpgStructureParser.parseStructureAtCursor(source, 0);
+};
+
+/**
+ * Generates the code of a parsed structure, as the update in place does
+ * @param structure - Parsed structure
+ * @param format - Format of the generated code, the format of the structure by default
+ * @returns Generated code
+ */
+function regenerate(structure: ParsedStructure, format: StructureFormat = structure.format): string {
+    const { header } = structure;
+
+    return generateRpgCode({
+        name: header.name,
+        type: header.type as StructureType,
+        dimension: header.dimension,
+        fields: structure.fields,
+        line: 0,
+        level: 0,
+        baseIndent: '',
+        comment: header.comment,
+        keywords: header.keywords,
+        external: header.external,
+        unqualified: header.unqualified,
+        structureFormat: format
+    });
+};
+
+/**
+ * Builds fixed-form D-specs from their lines after column 6
+ * @param lines - Text of every line from column 7
+ * @returns Source text
+ */
+function fixedSource(...lines: string[]): string {
+    return lines.map(line => `     D${line}`).join('\n');
+};
+
+// TESTS
+
+suite('Parser round trips', () => {
+    suiteSetup(() => {
+        reloadConfiguration();
+        currentConfiguration.structureFormat = 'dcl-ds';
+        currentConfiguration.indentation = 2;
+    });
+
+    suiteTeardown(() => {
+        reloadConfiguration();
+    });
+
+    suite('PSDS special subfields', () => {
+        const FREE_SOURCE = [
+            'dcl-ds pgm psds qualified;',
+            '  name *proc;',
+            '  status *status;',
+            '  routine *routine;',
+            '  parms *parms;',
+            'end-ds;'
+        ].join('\n');
+
+        const FIXED_SOURCE = fixedSource(
+            ' pgm            SDS                  qualified',
+            '  name             *PROC',
+            '  status           *STATUS',
+            '  routine          *ROUTINE',
+            '  parms            *PARMS'
+        );
+
+        test('free-form specials get their type, length and position', () => {
+            const structure = parse(FREE_SOURCE);
+
+            assert.ok(structure.success, structure.errors.join('\n'));
+            assert.deepStrictEqual(structure.header.keywords, ['psds']);
+            assert.deepStrictEqual(
+                structure.fields.map(field => [field.name, field.type, field.length, field.pos]),
+                [
+                    ['name', 'char', '10', 1],
+                    ['status', 'zoned', '5:0', 11],
+                    ['routine', 'char', '8', 29],
+                    ['parms', 'zoned', '3:0', 37]
+                ]
+            );
+            assert.strictEqual(regenerate(structure), [
+                'dcl-ds pgm qualified psds;',
+                '  name char(10) pos(1);',
+                '  status zoned(5:0) pos(11);',
+                '  routine char(8) pos(29);',
+                '  parms zoned(3:0) pos(37);',
+                'end-ds;'
+            ].join('\n'));
+        });
+
+        test('fixed-form specials are read from columns 26-39', () => {
+            const structure = parse(FIXED_SOURCE);
+
+            assert.ok(structure.success, structure.errors.join('\n'));
+            assert.strictEqual(structure.format, 'D-SPEC');
+            assert.deepStrictEqual(structure.header.keywords, ['psds']);
+            assert.deepStrictEqual(
+                structure.fields.map(field => [field.name, field.type, field.length, field.pos]),
+                [
+                    ['name', 'char', '10', 1],
+                    ['status', 'zoned', '5:0', 11],
+                    ['routine', 'char', '8', 29],
+                    ['parms', 'zoned', '3:0', 37]
+                ]
+            );
+            assert.strictEqual(regenerate(structure), fixedSource(
+                ' pgm            SDS                  QUALIFIED',
+                '  name                         10A   POS(1)',
+                '  status                        5S 0 POS(11)',
+                '  routine                       8A   POS(29)',
+                '  parms                         3S 0 POS(37)'
+            ));
+        });
+    });
+
+    suite('likeds structures', () => {
+        test('a free-form likeds structure is refused instead of generated empty', () => {
+            const source = 'dcl-ds order likeds(order_t);';
+            const structure = parse(source);
+
+            assert.strictEqual(structure.success, false);
+            assert.ok(structure.errors.some(error => error.includes('likeds(order_t)')));
+            assert.deepStrictEqual(RpgStructureParser.extractAllStructures(source), []);
+        });
+
+        test('a fixed-form LIKEDS structure is refused instead of generated empty', () => {
+            const source = fixedSource(' order           DS                  LIKEDS(order_t)');
+            const structure = parse(source);
+
+            assert.strictEqual(structure.success, false);
+            assert.ok(structure.errors.some(error => error.includes('likeds(order_t)')));
+            assert.deepStrictEqual(RpgStructureParser.extractAllStructures(source), []);
+        });
+
+        test('likeds subfields are kept', () => {
+            const structure = parse([
+                'dcl-ds order qualified;',
+                '  head likeds(head_t);',
+                '  lines likeds(line_t) dim(10);',
+                'end-ds;'
+            ].join('\n'));
+
+            assert.ok(structure.success, structure.errors.join('\n'));
+            assert.strictEqual(regenerate(structure), [
+                'dcl-ds order qualified;',
+                '  head likeds(head_t);',
+                '  lines likeds(line_t) dim(10);',
+                'end-ds;'
+            ].join('\n'));
+        });
+    });
+
+    suite('ext structures', () => {
+        test('ext is read as externally described by the file with the structure name', () => {
+            const structure = parse('dcl-ds custrec ext;\nend-ds;');
+
+            assert.ok(structure.success, structure.errors.join('\n'));
+            assert.strictEqual(structure.header.type, 'extname');
+            assert.strictEqual(structure.header.external, 'custrec');
+            assert.deepStrictEqual(structure.header.keywords, ['ext']);
+            assert.strictEqual(regenerate(structure), 'dcl-ds custrec ext end-ds;');
+        });
+
+        test('extname without a parameter is read as ext', () => {
+            const structure = parse('dcl-ds custrec extname end-ds;');
+
+            assert.strictEqual(structure.header.type, 'extname');
+            assert.strictEqual(regenerate(structure), 'dcl-ds custrec ext end-ds;');
+        });
+
+        test('extname with a file is kept', () => {
+            const structure = parse("dcl-ds customer extname('CUSTREC') qualified end-ds;");
+
+            assert.strictEqual(structure.header.external, 'CUSTREC');
+            assert.strictEqual(regenerate(structure), "dcl-ds customer extname('CUSTREC') qualified end-ds;");
+        });
+
+        test('fixed-form E DS without EXTNAME stays without EXTNAME', () => {
+            const source = fixedSource(' custrec       E DS');
+            const structure = parse(source);
+
+            assert.ok(structure.success, structure.errors.join('\n'));
+            assert.strictEqual(structure.header.external, 'custrec');
+            assert.strictEqual(regenerate(structure), source);
+            assert.strictEqual(regenerate(structure, 'dcl-ds'), 'dcl-ds custrec ext end-ds;');
+        });
+    });
+});
@@ -0,0 +1,88 @@
+/*
+	Christian Larsen, 2025
+	"RPG structure"
+	sql.test.ts
+*/
+
+import * as assert from 'assert';
+import {
+    parseCreateStatement,
+    sqlColumnsToFields,
+    countNullCapableColumns,
+    findCreateStatementAt
+} from '../rpg-structure.sql';
+
+// CONSTANTS
+
+const CREATE_TABLE = [
+    'CREATE OR REPLACE TABLE mylib.customer (',
+    '  cust_id FOR COLUMN custid INTEGER NOT NULL,',
+    "  name VARCHAR(50) NOT NULL DEFAULT 'x;y',",
+    '  balance DECIMAL(9, 2),',
+    '  created TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP, -- last change; set by the database',
+    '  "Odd Name" CHAR(3) NOT NULL, /* delimited; not an RPG name */',
+    '  flag SMALLINT,',
+    '  PRIMARY KEY (cust_id)',
+    ');'
+].join('\n');
+
+const CREATE_VIEW = 'CREATE VIEW custview AS SELECT CAST(cust_id AS CHAR(10)) AS id, name FROM customer;';
+
+// TESTS
+
+suite('SQL import', () => {
+    test('table columns are converted to RPG types', () => {
+        const result = parseCreateStatement(CREATE_TABLE);
+
+        assert.strictEqual(result.name, 'customer');
+        assert.deepStrictEqual(result.errors, []);
+        assert.deepStrictEqual(
+            result.columns.map(column => [column.name, column.type, column.length, column.notNull]),
+            [
+                ['cust_id', 'int', '10', true],
+                ['name', 'varchar', '50', true],
+                ['balance', 'packed', '9:2', false],
+                ['created', 'timestamp', undefined, true],
+                ['Odd Name', 'char', '3', true],
+                ['flag', 'int', '5', false]
+            ]
+        );
+        assert.strictEqual(result.columns[0].systemName, 'custid');
+        assert.strictEqual(result.columns[1].init, "'x;y'");
+    });
+
+    test('fields use the system names and valid RPG names, and NULL-capable columns are marked', () => {
+        const { columns } = parseCreateStatement(CREATE_TABLE);
+        const fields = sqlColumnsToFields(columns, true);
+
+        assert.deepStrictEqual(fields.map(field => field.name), ['custid', 'name', 'balance', 'created', 'Odd_Name', 'flag']);
+        assert.deepStrictEqual(fields.map(field => field.idNumber), [0, 1, 2, 3, 4, 5]);
+        assert.deepStrictEqual(
+            fields.filter(field => field.comment === 'NULL-capable').map(field => field.name),
+            ['balance', 'flag']
+        );
+        assert.strictEqual(countNullCapableColumns(columns), 2);
+        assert.strictEqual(sqlColumnsToFields(columns, false)[0].name, 'cust_id');
+    });
+
+    test('view columns take their type from CAST and are not marked as NULL-capable', () => {
+        const result = parseCreateStatement(CREATE_VIEW);
+
+        assert.strictEqual(result.name, 'custview');
+        assert.deepStrictEqual(result.columns.map(column => [column.name, column.type, column.length]), [['id', 'char', '10']]);
+        assert.strictEqual(result.errors.length, 1);
+        assert.strictEqual(countNullCapableColumns(result.columns), 0);
+    });
+
+    test('other statements are refused', () => {
+        assert.throws(() => parseCreateStatement('DROP TABLE customer;'));
+    });
+
+    test('the statement at the cursor ends at the semicolon outside literals and comments', () => {
+        const text = `${CREATE_TABLE}\n${CREATE_VIEW}`;
+
+        assert.strictEqual(findCreateStatementAt(text, CREATE_TABLE.indexOf('balance')), CREATE_TABLE);
+        assert.strictEqual(findCreateStatementAt(text, text.length - 5), CREATE_VIEW);
+        assert.strictEqual(findCreateStatementAt(`-- header\n${CREATE_VIEW}`, 3), undefined);
+    });
+});
@@ -0,0 +1,31 @@
+/*
+	Christian Larsen, 2025
+	"RPG structure"
+	types.test.ts
+*/
+
+import * as assert from 'assert';
+import { getLiteralLength } from '../rpg-structure.types';
+
+// TESTS
+
+suite('Literal length', () => {
+    test('character literals count doubled quotes once', () => {
+        assert.strictEqual(getLiteralLength("'abc'"), 3);
+        assert.strictEqual(getLiteralLength("'it''s'"), 4);
+        assert.strictEqual(getLiteralLength("''''"), 1);
+        assert.strictEqual(getLiteralLength("''"), 0);
+    });
+
+    test('hexadecimal literals count one character per pair of digits', () => {
+        assert.strictEqual(getLiteralLength("x'4040'"), 2);
+        assert.strictEqual(getLiteralLength(" X'C1C2C3' "), 3);
+    });
+
+    test('other values are not literals', () => {
+        assert.strictEqual(getLiteralLength('*blanks'), undefined);
+        assert.strictEqual(getLiteralLength("*all'-'"), undefined);
+        assert.strictEqual(getLiteralLength('42'), undefined);
+        assert.strictEqual(getLiteralLength(undefined), undefined);
+    });
+});